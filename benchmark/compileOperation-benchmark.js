@@ -0,0 +1,48 @@
+'use strict';
+
+const { parse } = require('graphql/language/parser.js');
+const { compileOperation } = require('graphql/execution/compileOperation.js');
+const { buildSchema } = require('graphql/utilities/buildASTSchema.js');
+
+const schema = buildSchema(`
+  type Query {
+    users(first: Int = 100): [User]
+  }
+
+  type User {
+    id: ID
+    name: String
+    friends(first: Int = 10): [User]
+  }
+`);
+const document = parse(`
+  {
+    users {
+      ...UserFields
+      friends(first: 5) {
+        ...UserFields
+      }
+    }
+  }
+
+  fragment UserFields on User {
+    id
+    name
+  }
+`);
+
+const users = Array.from({ length: 100 }, (_, id) => ({
+  id,
+  name: `User ${id}`,
+  friends: ({ first }) => users.slice(0, first),
+}));
+const rootValue = { users: ({ first }) => users.slice(0, first) };
+const compiledOperation = compileOperation(schema, document);
+
+module.exports = {
+  name: 'Execute a list of objects with a compiled operation',
+  count: 50,
+  measure() {
+    compiledOperation({ rootValue });
+  },
+};
@@ -0,0 +1,213 @@
+import { expect } from 'chai';
+import { afterEach, describe, it } from 'mocha';
+
+import { resolveOnNextTick } from '../__testUtils__/resolveOnNextTick';
+
+import { parse } from '../language/parser';
+
+import { buildSchema } from '../utilities/buildASTSchema';
+
+import { validate } from '../validation/validate';
+
+import { executeSync } from '../execution/execute';
+
+import type {
+  DiagnosticsChannel,
+  DiagnosticsChannelModule,
+} from '../diagnostics';
+import { enableDiagnosticsChannel } from '../diagnostics';
+import { graphql } from '../graphql';
+
+const schema = buildSchema(`
+  type Query {
+    hello: String
+    user: User
+    fail: String
+  }
+
+  type User {
+    name: String
+  }
+`);
+
+const rootValue = {
+  hello: () => 'world',
+  async user() {
+    await resolveOnNextTick();
+    return { name: 'Alice' };
+  },
+  fail() {
+    throw new Error('Failed.');
+  },
+};
+
+interface DiagnosticsEvent {
+  name: string;
+  message: any;
+  result?: unknown;
+}
+
+function createDiagnosticsChannel(subscribedNames: ReadonlyArray<string>): {
+  diagnosticsChannel: DiagnosticsChannelModule;
+  events: Array<DiagnosticsEvent>;
+} {
+  const events: Array<DiagnosticsEvent> = [];
+  const channel = (name: string): DiagnosticsChannel => ({
+    hasSubscribers: subscribedNames.includes(name),
+    publish(message: any) {
+      // The message is completed before the end event is published.
+      events.push({ name, message, result: message.result });
+    },
+  });
+  return { diagnosticsChannel: { channel }, events };
+}
+
+const eventNames = [
+  'graphql:parse:start',
+  'graphql:parse:end',
+  'graphql:validate:start',
+  'graphql:validate:end',
+  'graphql:execute:start',
+  'graphql:execute:end',
+  'graphql:resolve:start',
+  'graphql:resolve:end',
+];
+
+describe('diagnostics', () => {
+  afterEach(() => {
+    enableDiagnosticsChannel(null);
+  });
+
+  it('publishes the events of a request', async () => {
+    const { diagnosticsChannel, events } = createDiagnosticsChannel(eventNames);
+    enableDiagnosticsChannel(diagnosticsChannel);
+    const source = '{ hello user { name } }';
+
+    const result = await graphql({ schema, source, rootValue });
+
+    expect(events.map(({ name }) => name)).to.deep.equal([
+      'graphql:parse:start',
+      'graphql:parse:end',
+      'graphql:validate:start',
+      'graphql:validate:end',
+      'graphql:execute:start',
+      'graphql:resolve:start',
+      'graphql:resolve:end',
+      'graphql:resolve:start',
+      'graphql:resolve:end',
+      'graphql:resolve:start',
+      'graphql:resolve:end',
+      'graphql:execute:end',
+    ]);
+
+    const [parseStart, parseEnd, validateStart, validateEnd, executeStart] =
+      events;
+    expect(parseStart.message).to.equal(parseEnd.message);
+    expect(parseStart.message.source).to.equal(source);
+    expect(parseEnd.result).to.equal(validateStart.message.document);
+    expect(validateStart.message.schema).to.equal(schema);
+    expect(validateEnd.result).to.deep.equal([]);
+    expect(executeStart.message.args.rootValue).to.equal(rootValue);
+    expect(events[events.length - 1].result).to.equal(result);
+
+    const resolveEvents = events.filter(({ name }) =>
+      name.startsWith('graphql:resolve:'),
+    );
+    expect(
+      resolveEvents.map(({ name, message, result: value }) => ({
+        name,
+        path: message.path,
+        fieldName: message.info.fieldName,
+        result: value,
+      })),
+    ).to.deep.equal([
+      {
+        name: 'graphql:resolve:start',
+        path: ['hello'],
+        fieldName: 'hello',
+        result: undefined,
+      },
+      {
+        name: 'graphql:resolve:end',
+        path: ['hello'],
+        fieldName: 'hello',
+        result: 'world',
+      },
+      {
+        name: 'graphql:resolve:start',
+        path: ['user'],
+        fieldName: 'user',
+        result: undefined,
+      },
+      {
+        name: 'graphql:resolve:end',
+        path: ['user'],
+        fieldName: 'user',
+        result: { name: 'Alice' },
+      },
+      {
+        name: 'graphql:resolve:start',
+        path: ['user', 'name'],
+        fieldName: 'name',
+        result: undefined,
+      },
+      {
+        name: 'graphql:resolve:end',
+        path: ['user', 'name'],
+        fieldName: 'name',
+        result: 'Alice',
+      },
+    ]);
+  });
+
+  it('publishes the errors thrown while parsing and resolving', () => {
+    const { diagnosticsChannel, events } = createDiagnosticsChannel(eventNames);
+    enableDiagnosticsChannel(diagnosticsChannel);
+
+    expect(() => parse('{')).to.throw('Syntax Error');
+    executeSync({ schema, document: parse('{ fail }'), rootValue });
+
+    const parseEnd = events.find(({ name }) => name === 'graphql:parse:end');
+    expect(parseEnd?.message.error).to.be.an.instanceOf(Error);
+    const resolveEnd = events.find(
+      ({ name }) => name === 'graphql:resolve:end',
+    );
+    expect(resolveEnd?.message.error).to.have.property('message', 'Failed.');
+  });
+
+  it('creates the channels on first use', () => {
+    const createdNames: Array<string> = [];
+    const { diagnosticsChannel } = createDiagnosticsChannel([]);
+    enableDiagnosticsChannel({
+      channel(name) {
+        createdNames.push(name);
+        return diagnosticsChannel.channel(name);
+      },
+    });
+    expect(createdNames).to.deep.equal([]);
+
+    parse('{ hello }');
+    parse('{ hello }');
+    expect(createdNames).to.deep.equal(eventNames);
+  });
+
+  it('only publishes the events of channels with subscribers', () => {
+    const { diagnosticsChannel, events } = createDiagnosticsChannel([
+      'graphql:validate:end',
+    ]);
+    enableDiagnosticsChannel(diagnosticsChannel);
+
+    const document = parse('{ hello }');
+    validate(schema, document);
+    executeSync({ schema, document, rootValue });
+
+    expect(events.map(({ name }) => name)).to.deep.equal([
+      'graphql:validate:start',
+      'graphql:validate:end',
+    ]);
+
+    enableDiagnosticsChannel(null);
+    validate(schema, document);
+    expect(events).to.have.lengthOf(2);
+  });
+});
@@ -0,0 +1,214 @@
+import type { Maybe } from './jsutils/Maybe';
+import type { ObjMap } from './jsutils/ObjMap';
+import { isPromise } from './jsutils/isPromise';
+
+import type { GraphQLError } from './error/GraphQLError';
+
+import type { DocumentNode } from './language/ast';
+import type { Source } from './language/source';
+
+import type { GraphQLResolveInfo } from './type/definition';
+import type { GraphQLSchema } from './type/schema';
+
+import type { ExecutionArgs } from './execution/execute';
+
+/**
+ * The subset of a channel of Node's `diagnostics_channel` module used to
+ * publish diagnostics events.
+ */
+export interface DiagnosticsChannel {
+  readonly hasSubscribers: boolean;
+  publish: (message: unknown) => void;
+}
+
+/**
+ * The subset of Node's `diagnostics_channel` module used to create the
+ * channels of diagnostics events.
+ */
+export interface DiagnosticsChannelModule {
+  channel: (name: string) => DiagnosticsChannel;
+}
+
+/**
+ * The message of the events published around the parsing of a document. The
+ * same object is published to the start and end channels, with the parsed
+ * document or the thrown error once parsing ended.
+ */
+export interface ParseDiagnosticsMessage {
+  source: string | Source;
+  result?: DocumentNode;
+  error?: unknown;
+}
+
+/**
+ * The message of the events published around the validation of a document.
+ */
+export interface ValidateDiagnosticsMessage {
+  schema: GraphQLSchema;
+  document: DocumentNode;
+  result?: ReadonlyArray<GraphQLError>;
+  error?: unknown;
+}
+
+/**
+ * The message of the events published around the execution of an operation.
+ * The end event is published once the execution completed, with its result.
+ */
+export interface ExecuteDiagnosticsMessage {
+  args: ExecutionArgs;
+  result?: unknown;
+  error?: unknown;
+}
+
+/**
+ * The message of the events published around every field resolver. The end
+ * event is published once the resolver returned or threw, or its promise
+ * settled.
+ */
+export interface ResolveDiagnosticsMessage {
+  path: ReadonlyArray<string | number>;
+  args: ObjMap<unknown>;
+  info: GraphQLResolveInfo;
+  result?: unknown;
+  error?: unknown;
+}
+
+interface TracingChannels {
+  start: DiagnosticsChannel;
+  end: DiagnosticsChannel;
+}
+
+/** @internal */
+export interface GraphQLDiagnosticsChannels {
+  parse: TracingChannels;
+  validate: TracingChannels;
+  execute: TracingChannels;
+  resolve: TracingChannels;
+}
+
+let getDiagnosticsChannelModule: () => Maybe<DiagnosticsChannelModule> =
+  getBuiltinDiagnosticsChannel;
+
+// Created on first use, so that importing this module has no side effects.
+let diagnosticsChannels: GraphQLDiagnosticsChannels | null | undefined;
+
+/**
+ * Publishes the diagnostics events of parsing, validation, execution and
+ * field resolvers to the channels of the given `diagnostics_channel` module:
+ *
+ *   - `graphql:parse:start` and `graphql:parse:end`
+ *   - `graphql:validate:start` and `graphql:validate:end`
+ *   - `graphql:execute:start` and `graphql:execute:end`
+ *   - `graphql:resolve:start` and `graphql:resolve:end`
+ *
+ * When `process.getBuiltinModule` is available, the events are published
+ * to the channels of Node's `diagnostics_channel` module by default. The
+ * channels are created on the first parse, validation or execution, and
+ * events are only built when a channel has subscribers.
+ */
+export function enableDiagnosticsChannel(
+  diagnosticsChannel: Maybe<DiagnosticsChannelModule>,
+): void {
+  getDiagnosticsChannelModule = () => diagnosticsChannel;
+  diagnosticsChannels = undefined;
+}
+
+/** @internal */
+export function getDiagnosticsChannels():
+  | GraphQLDiagnosticsChannels
+  | undefined {
+  if (diagnosticsChannels === undefined) {
+    diagnosticsChannels =
+      createDiagnosticsChannels(getDiagnosticsChannelModule()) ?? null;
+  }
+  return diagnosticsChannels ?? undefined;
+}
+
+/**
+ * Returns whether the events of the given channels have subscribers.
+ *
+ * @internal
+ */
+export function shouldTrace(
+  channels: TracingChannels | undefined,
+): channels is TracingChannels {
+  return (
+    channels !== undefined &&
+    (channels.start.hasSubscribers || channels.end.hasSubscribers)
+  );
+}
+
+/**
+ * Publishes the start event, calls the function and publishes the end event
+ * with its result or error, once its promise settled if it returns one.
+ *
+ * @internal
+ */
+export function traceCall<T>(
+  channels: TracingChannels,
+  message: { result?: unknown; error?: unknown },
+  fn: () => T,
+): T {
+  channels.start.publish(message);
+
+  let result;
+  try {
+    result = fn();
+  } catch (error) {
+    message.error = error;
+    channels.end.publish(message);
+    throw error;
+  }
+
+  if (isPromise(result)) {
+    result.then(
+      (resolved) => {
+        message.result = resolved;
+        channels.end.publish(message);
+      },
+      (error) => {
+        message.error = error;
+        channels.end.publish(message);
+      },
+    );
+    return result;
+  }
+
+  message.result = result;
+  channels.end.publish(message);
+  return result;
+}
+
+function createDiagnosticsChannels(
+  diagnosticsChannel: Maybe<DiagnosticsChannelModule>,
+): GraphQLDiagnosticsChannels | undefined {
+  if (diagnosticsChannel == null) {
+    return undefined;
+  }
+
+  const createTracingChannels = (name: string): TracingChannels => ({
+    start: diagnosticsChannel.channel(`graphql:${name}:start`),
+    end: diagnosticsChannel.channel(`graphql:${name}:end`),
+  });
+  return {
+    parse: createTracingChannels('parse'),
+    validate: createTracingChannels('validate'),
+    execute: createTracingChannels('execute'),
+    resolve: createTracingChannels('resolve'),
+  };
+}
+
+function getBuiltinDiagnosticsChannel(): DiagnosticsChannelModule | undefined {
+  // Not every environment provides Node's built-in modules.
+  if (typeof process !== 'object') {
+    return undefined;
+  }
+  const nodeProcess = process as {
+    getBuiltinModule?: (id: string) => unknown;
+  };
+  return typeof nodeProcess.getBuiltinModule === 'function'
+    ? (nodeProcess.getBuiltinModule(
+        'node:diagnostics_channel',
+      ) as DiagnosticsChannelModule)
+    : undefined;
+}
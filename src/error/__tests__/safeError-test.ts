@@ -0,0 +1,20 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { isErrorSafe, markErrorSafe } from '../safeError';
+
+describe('markErrorSafe', () => {
+  it('marks errors as safe to expose', () => {
+    const error = new Error('Not found.');
+
+    expect(isErrorSafe(error)).to.equal(false);
+    expect(markErrorSafe(error)).to.equal(error);
+    expect(isErrorSafe(error)).to.equal(true);
+    expect(isErrorSafe(new Error('Not found.'))).to.equal(false);
+  });
+
+  it('does not consider non-errors safe', () => {
+    expect(isErrorSafe('Not found.')).to.equal(false);
+    expect(isErrorSafe(null)).to.equal(false);
+  });
+});
@@ -7,3 +7,5 @@ export type {
 export { syntaxError } from './syntaxError';
 
 export { locatedError } from './locatedError';
+
+export { markErrorSafe, isErrorSafe } from './safeError';
@@ -0,0 +1,17 @@
+const safeErrors = new WeakSet<Error>();
+
+/**
+ * Marks an error as safe to expose to clients, so that its message is kept in
+ * the response when errors are masked.
+ */
+export function markErrorSafe<T extends Error>(error: T): T {
+  safeErrors.add(error);
+  return error;
+}
+
+/**
+ * Returns whether an error was marked as safe to expose to clients.
+ */
+export function isErrorSafe(error: unknown): boolean {
+  return error instanceof Error && safeErrors.has(error);
+}
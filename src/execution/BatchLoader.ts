@@ -0,0 +1,289 @@
+import { inspect } from '../jsutils/inspect';
+import { devAssert } from '../jsutils/devAssert';
+import type { Maybe } from '../jsutils/Maybe';
+import type { PromiseOrValue } from '../jsutils/PromiseOrValue';
+
+/**
+ * Loads the values of a batch of keys at once. The returned array must have
+ * the same length and order as the given keys. An `Error` may be returned in
+ * place of a value to fail a single key.
+ */
+export type BatchLoadFn<K, V> = (
+  keys: ReadonlyArray<K>,
+) => PromiseOrValue<ReadonlyArray<V | Error>>;
+
+export interface BatchLoaderOptions<K, C = K> {
+  /**
+   * Maximum number of keys passed to a single call of the batch function.
+   * Defaults to no limit.
+   */
+  maxBatchSize?: number;
+  /**
+   * Whether the values of loaded keys are cached. Defaults to true.
+   */
+  cache?: boolean;
+  /**
+   * Produces the key identifying a cached value. Defaults to the key itself.
+   */
+  cacheKeyFn?: (key: K) => C;
+}
+
+interface PendingLoad<K, V> {
+  key: K;
+  resolve: (value: V) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Coalesces the loads of individual keys into calls of a batch function.
+ *
+ * Keys are not loaded right away: the dispatch of a batch is deferred until
+ * the promise jobs already queued have run. During execution this lets the
+ * resolvers of sibling fields and list items, which are invoked from separate
+ * promise continuations, collapse their loads into a single batch.
+ */
+export class BatchLoader<K, V, C = K> {
+  private _batchLoadFn: BatchLoadFn<K, V>;
+  private _maxBatchSize: number;
+  private _cacheKeyFn: ((key: K) => C) | undefined;
+  private _cache: Map<C | K, Promise<V>> | undefined;
+  private _queue: Array<PendingLoad<K, V>>;
+  private _scheduleDispatch: (loader: BatchLoader<K, V, C>) => void;
+
+  constructor(
+    batchLoadFn: BatchLoadFn<K, V>,
+    options?: BatchLoaderOptions<K, C>,
+    scheduleDispatch: (
+      loader: BatchLoader<K, V, C>,
+    ) => void = scheduleOwnDispatch,
+  ) {
+    devAssert(
+      typeof batchLoadFn === 'function',
+      `BatchLoader must be constructed with a function which accepts Array<key> and returns Promise<Array<value>>, but got: ${inspect(
+        batchLoadFn,
+      )}.`,
+    );
+
+    const maxBatchSize = options?.maxBatchSize ?? Infinity;
+    devAssert(
+      maxBatchSize >= 1,
+      `maxBatchSize must be a positive number: ${maxBatchSize}`,
+    );
+
+    this._batchLoadFn = batchLoadFn;
+    this._maxBatchSize = maxBatchSize;
+    this._cacheKeyFn = options?.cacheKeyFn;
+    this._cache = options?.cache === false ? undefined : new Map();
+    this._queue = [];
+    this._scheduleDispatch = scheduleDispatch;
+  }
+
+  get [Symbol.toStringTag]() {
+    return 'BatchLoader';
+  }
+
+  /**
+   * Loads a key, returning a promise for the value represented by that key.
+   */
+  load(key: K): Promise<V> {
+    const cacheKey = this._getCacheKey(key);
+    const cached = this._cache?.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const promise = new Promise<V>((resolve, reject) => {
+      this._queue.push({ key, resolve, reject });
+      if (this._queue.length === 1) {
+        this._scheduleDispatch(this);
+      }
+    });
+
+    this._cache?.set(cacheKey, promise);
+    return promise;
+  }
+
+  /**
+   * Loads multiple keys, returning a promise for an array of values, or of
+   * errors for keys which failed to load.
+   */
+  loadMany(keys: ReadonlyArray<K>): Promise<Array<V | Error>> {
+    return Promise.all(
+      keys.map((key) => this.load(key).then(undefined, (error) => error)),
+    );
+  }
+
+  /**
+   * Primes the cache with the provided key and value, unless the key is
+   * already cached.
+   */
+  prime(key: K, value: V): this {
+    const cacheKey = this._getCacheKey(key);
+    if (this._cache && !this._cache.has(cacheKey)) {
+      this._cache.set(cacheKey, Promise.resolve(value));
+    }
+    return this;
+  }
+
+  /**
+   * Clears the value at `key` from the cache, if it exists.
+   */
+  clear(key: K): this {
+    this._cache?.delete(this._getCacheKey(key));
+    return this;
+  }
+
+  /**
+   * Clears the entire cache.
+   */
+  clearAll(): this {
+    this._cache?.clear();
+    return this;
+  }
+
+  /**
+   * Calls the batch function for every key queued so far.
+   */
+  dispatch(): void {
+    const queue = this._queue;
+    this._queue = [];
+
+    for (let i = 0; i < queue.length; i += this._maxBatchSize) {
+      this._dispatchBatch(queue.slice(i, i + this._maxBatchSize));
+    }
+  }
+
+  private _dispatchBatch(batch: ReadonlyArray<PendingLoad<K, V>>): void {
+    let batchPromise;
+    try {
+      batchPromise = this._batchLoadFn(batch.map(({ key }) => key));
+    } catch (error) {
+      this._failBatch(batch, error);
+      return;
+    }
+
+    Promise.resolve(batchPromise)
+      .then((values) => {
+        if (!Array.isArray(values) || values.length !== batch.length) {
+          throw new TypeError(
+            'BatchLoader must be constructed with a function which accepts ' +
+              'Array<key> and returns Promise<Array<value>>, but the function ' +
+              `did not return a Promise of an Array of the same length as the Array of keys.\n\nKeys:\n${inspect(
+                batch.map(({ key }) => key),
+              )}\n\nValues:\n${inspect(values)}`,
+          );
+        }
+
+        for (let i = 0; i < batch.length; i++) {
+          const value = values[i];
+          if (value instanceof Error) {
+            this.clear(batch[i].key);
+            batch[i].reject(value);
+          } else {
+            batch[i].resolve(value);
+          }
+        }
+      })
+      .then(undefined, (error) => this._failBatch(batch, error));
+  }
+
+  private _failBatch(
+    batch: ReadonlyArray<PendingLoad<K, V>>,
+    error: unknown,
+  ): void {
+    for (const { key, reject } of batch) {
+      this.clear(key);
+      reject(error);
+    }
+  }
+
+  private _getCacheKey(key: K): C | K {
+    return this._cacheKeyFn ? this._cacheKeyFn(key) : key;
+  }
+}
+
+/**
+ * The batch loaders of a single execution, created on demand and identified
+ * by their batch function. Every loader of the registry is dispatched at the
+ * same time, so loads of different loaders issued during the same tick are
+ * sent together.
+ *
+ * A `maxBatchSize` given to the registry applies to the loaders which do not
+ * set their own.
+ */
+export class BatchLoaderRegistry {
+  private _loaders: Map<BatchLoadFn<any, any>, BatchLoader<any, any, any>>;
+  private _pendingLoaders: Set<BatchLoader<any, any, any>>;
+  private _maxBatchSize: Maybe<number>;
+
+  constructor(maxBatchSize?: Maybe<number>) {
+    this._maxBatchSize = maxBatchSize;
+    this._loaders = new Map();
+    this._pendingLoaders = new Set();
+  }
+
+  get [Symbol.toStringTag]() {
+    return 'BatchLoaderRegistry';
+  }
+
+  /**
+   * Returns the loader for the given batch function, creating it with the
+   * given options on first use.
+   *
+   * Batch functions are compared by identity, so they should be defined once
+   * rather than created within resolvers.
+   */
+  get<K, V, C = K>(
+    batchLoadFn: BatchLoadFn<K, V>,
+    options?: BatchLoaderOptions<K, C>,
+  ): BatchLoader<K, V, C> {
+    let loader = this._loaders.get(batchLoadFn);
+    if (loader === undefined) {
+      loader = new BatchLoader(
+        batchLoadFn,
+        { maxBatchSize: this._maxBatchSize ?? undefined, ...options },
+        (pendingLoader) => this._schedule(pendingLoader),
+      );
+      this._loaders.set(batchLoadFn, loader);
+    }
+    return loader;
+  }
+
+  /**
+   * Dispatches every loader which has queued keys.
+   */
+  dispatchAll(): void {
+    const pendingLoaders = this._pendingLoaders;
+    this._pendingLoaders = new Set();
+    for (const loader of pendingLoaders) {
+      loader.dispatch();
+    }
+  }
+
+  private _schedule(loader: BatchLoader<any, any, any>): void {
+    if (this._pendingLoaders.size === 0) {
+      enqueuePostPromiseJob(() => this.dispatchAll());
+    }
+    this._pendingLoaders.add(loader);
+  }
+}
+
+function scheduleOwnDispatch(loader: BatchLoader<any, any, any>): void {
+  enqueuePostPromiseJob(() => loader.dispatch());
+}
+
+/**
+ * Runs the job once the promise jobs queued at this point, and those they
+ * queue in turn, have run.
+ */
+function enqueuePostPromiseJob(job: () => void): void {
+  queueMicrotask(() => {
+    if (typeof process === 'object' && typeof process.nextTick === 'function') {
+      process.nextTick(job);
+    } else if (typeof setImmediate === 'function') {
+      setImmediate(job);
+    } else {
+      setTimeout(job);
+    }
+  });
+}
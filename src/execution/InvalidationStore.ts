@@ -0,0 +1,49 @@
+interface InvalidationSubscription {
+  keys: ReadonlySet<string>;
+  listener: () => void;
+}
+
+/**
+ * An in-memory registry of the live queries depending on invalidation keys,
+ * such as `"User:1"`. Resolvers of a live query register the keys of the
+ * data they read in `info.invalidationKeys`, and the live query executes
+ * again once any of those keys is invalidated.
+ */
+export class InvalidationStore {
+  private _subscriptions: Set<InvalidationSubscription>;
+
+  constructor() {
+    this._subscriptions = new Set();
+  }
+
+  get [Symbol.toStringTag]() {
+    return 'InvalidationStore';
+  }
+
+  /**
+   * Notifies the subscribers which depend on any of the given keys.
+   */
+  invalidate(keys: string | ReadonlyArray<string>): void {
+    const invalidatedKeys = typeof keys === 'string' ? [keys] : keys;
+
+    for (const subscription of Array.from(this._subscriptions)) {
+      if (invalidatedKeys.some((key) => subscription.keys.has(key))) {
+        subscription.listener();
+      }
+    }
+  }
+
+  /**
+   * Calls the listener whenever any of the keys is invalidated. The keys are
+   * read at that time, so keys added to the set later on are also watched.
+   *
+   * Returns a function which removes the subscription.
+   */
+  subscribe(keys: ReadonlySet<string>, listener: () => void): () => void {
+    const subscription = { keys, listener };
+    this._subscriptions.add(subscription);
+    return () => {
+      this._subscriptions.delete(subscription);
+    };
+  }
+}
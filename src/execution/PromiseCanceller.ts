@@ -0,0 +1,62 @@
+import type { AbortSignalLike } from '../jsutils/AbortSignalLike';
+
+/**
+ * Rejects every promise passed through `withCancellation` once the given
+ * abort signal fires, using a single listener on the signal.
+ *
+ * @internal
+ */
+export class PromiseCanceller {
+  abortSignal: AbortSignalLike;
+  abort: () => void;
+
+  private _aborts: Set<(reason: unknown) => void>;
+
+  constructor(abortSignal: AbortSignalLike) {
+    this.abortSignal = abortSignal;
+    this._aborts = new Set();
+    this.abort = () => {
+      const reason = getAbortReason(abortSignal);
+      for (const abort of this._aborts) {
+        abort(reason);
+      }
+    };
+
+    abortSignal.addEventListener('abort', this.abort);
+  }
+
+  disconnect(): void {
+    this.abortSignal.removeEventListener('abort', this.abort);
+  }
+
+  withCancellation<T>(originalPromise: Promise<T>): Promise<T> {
+    if (this.abortSignal.aborted) {
+      return Promise.reject(getAbortReason(this.abortSignal));
+    }
+
+    return new Promise((resolve, reject) => {
+      const abort = (reason: unknown) => reject(reason);
+      this._aborts.add(abort);
+      originalPromise.then(
+        (resolved) => {
+          this._aborts.delete(abort);
+          resolve(resolved);
+        },
+        (error) => {
+          this._aborts.delete(abort);
+          reject(error);
+        },
+      );
+    });
+  }
+}
+
+/**
+ * Returns the reason the signal was aborted with, falling back to a generic
+ * error where `AbortSignal.reason` is not implemented.
+ *
+ * @internal
+ */
+export function getAbortReason(abortSignal: AbortSignalLike): unknown {
+  return abortSignal.reason ?? new Error('This operation was aborted.');
+}
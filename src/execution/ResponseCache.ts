@@ -0,0 +1,147 @@
+import type { Maybe } from '../jsutils/Maybe';
+import type { PromiseOrValue } from '../jsutils/PromiseOrValue';
+import { isObjectLike } from '../jsutils/isObjectLike';
+
+import type { GraphQLSchema } from '../type/schema';
+
+import type { ExecutionResult } from './execute';
+
+/**
+ * A store of full responses, used by `graphql` to return the response of a
+ * previous execution of the same request instead of executing it again.
+ *
+ * Responses are stored by key along with their maximum age in seconds, as
+ * computed from the `@cacheControl` hints of the fields they include. Caches
+ * keeping responses in memory should store and return copies of them, since
+ * the callers of `graphql` may modify the responses they receive.
+ */
+export interface ResponseCache {
+  get: (key: string) => PromiseOrValue<Maybe<ExecutionResult>>;
+  set: (
+    key: string,
+    result: ExecutionResult,
+    maxAge: number,
+  ) => PromiseOrValue<void>;
+}
+
+export interface InMemoryResponseCacheOptions {
+  /** The maximum number of stored responses, evicting the least recent. */
+  maxSize?: Maybe<number>;
+}
+
+interface CacheEntry {
+  result: ExecutionResult;
+  expiresAt: number;
+}
+
+/**
+ * A response cache keeping the responses in memory until they expire.
+ */
+export class InMemoryResponseCache implements ResponseCache {
+  private _entries: Map<string, CacheEntry>;
+  private _maxSize: number;
+
+  constructor(options: InMemoryResponseCacheOptions = {}) {
+    this._entries = new Map();
+    this._maxSize = options.maxSize ?? Infinity;
+  }
+
+  get [Symbol.toStringTag]() {
+    return 'InMemoryResponseCache';
+  }
+
+  get(key: string): ExecutionResult | undefined {
+    const entry = this._entries.get(key);
+    if (entry === undefined) {
+      return undefined;
+    }
+
+    this._entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // Keep the entries ordered from the least to the most recently used.
+    this._entries.set(key, entry);
+    return copyValue(entry.result) as ExecutionResult;
+  }
+
+  set(key: string, result: ExecutionResult, maxAge: number): void {
+    this._entries.delete(key);
+    this._entries.set(key, {
+      result: copyValue(result) as ExecutionResult,
+      expiresAt: Date.now() + maxAge * 1000,
+    });
+
+    for (const oldestKey of this._entries.keys()) {
+      if (this._entries.size <= this._maxSize) {
+        break;
+      }
+      this._entries.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Removes every stored response.
+   */
+  clear(): void {
+    this._entries.clear();
+  }
+}
+
+/**
+ * Copies the arrays and plain objects of a response, so that modifying the
+ * copy does not modify the response.
+ */
+function copyValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(copyValue);
+  }
+  if (isObjectLike(value)) {
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype === null || prototype === Object.prototype) {
+      const copy = Object.create(prototype);
+      for (const [key, fieldValue] of Object.entries(value)) {
+        copy[key] = copyValue(fieldValue);
+      }
+      return copy;
+    }
+  }
+  return value;
+}
+
+// Schemas are identified by the order in which their responses were cached.
+const schemaIds = new WeakMap<GraphQLSchema, number>();
+let nextSchemaId = 0;
+
+function getSchemaId(schema: GraphQLSchema): number {
+  let schemaId = schemaIds.get(schema);
+  if (schemaId === undefined) {
+    schemaId = nextSchemaId++;
+    schemaIds.set(schema, schemaId);
+  }
+  return schemaId;
+}
+
+/**
+ * Returns the key of the response to a request, from the schema it is
+ * executed against, the text of its document, its operation name and its
+ * variables. Private responses are keyed by the session of the user they were
+ * executed for.
+ *
+ * @internal
+ */
+export function getResponseCacheKey(
+  schema: GraphQLSchema,
+  documentSource: string,
+  operationName: Maybe<string>,
+  variableValues: Maybe<{ readonly [variable: string]: unknown }>,
+  sessionId: Maybe<string>,
+): string {
+  return JSON.stringify([
+    getSchemaId(schema),
+    documentSource,
+    operationName ?? null,
+    variableValues ?? {},
+    sessionId ?? null,
+  ]);
+}
@@ -0,0 +1,171 @@
+import { pathToArray } from '../jsutils/Path';
+
+import type { ExecutionHooks, ExecutionResult } from './execute';
+
+/**
+ * Timings of one phase of a request. Offsets are relative to the start of the
+ * request and, like durations, expressed in nanoseconds.
+ */
+export interface TracingPhase {
+  startOffset: number;
+  duration: number;
+}
+
+export interface ResolverTracing extends TracingPhase {
+  path: ReadonlyArray<string | number>;
+  parentType: string;
+  fieldName: string;
+  returnType: string;
+}
+
+/**
+ * The tracing data emitted under `extensions.tracing`, compatible with the
+ * Apollo Tracing format.
+ */
+export interface Tracing {
+  version: 1;
+  startTime: string;
+  endTime: string;
+  duration: number;
+  parsing?: TracingPhase;
+  validation?: TracingPhase;
+  execution?: TracingPhase & {
+    resolvers: ReadonlyArray<ResolverTracing>;
+  };
+}
+
+export type TracingPhaseName = 'parsing' | 'validation';
+
+// Not every supported environment exposes `performance` as a global.
+declare const performance: { now: () => number } | undefined;
+
+/**
+ * Returns a timestamp in milliseconds, using a monotonic clock if the
+ * environment provides one.
+ */
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+function toNanoseconds(milliseconds: number): number {
+  return Math.round(milliseconds * 1e6);
+}
+
+/**
+ * Records the start offset and duration of the phases of a request and of
+ * every field resolver, so that they can be reported under
+ * `extensions.tracing` of the result.
+ *
+ * The resolvers are traced through `hooks`, which should be provided to the
+ * execution:
+ *
+ * ```ts
+ * const collector = new TracingCollector();
+ * const result = await execute({ schema, document, hooks: [collector.hooks] });
+ * const tracedResult = collector.addToResult(result);
+ * ```
+ */
+export class TracingCollector {
+  readonly hooks: ExecutionHooks;
+
+  private _startTime: Date;
+  private _start: number;
+  private _phases: { [phase in TracingPhaseName]?: TracingPhase };
+  private _executionStart: number | undefined;
+  private _executionEnd: number | undefined;
+  private _resolvers: Array<ResolverTracing>;
+
+  constructor() {
+    this._startTime = new Date();
+    this._start = now();
+    this._phases = {};
+    this._executionStart = undefined;
+    this._executionEnd = undefined;
+    this._resolvers = [];
+
+    this.hooks = {
+      onExecute: () => {
+        this._executionStart = now();
+      },
+      onResolve: (field, info) => {
+        const start = now();
+        return () => {
+          const end = now();
+          this._resolvers.push({
+            path: pathToArray(info.path),
+            parentType: info.parentType.name,
+            fieldName: field.name,
+            returnType: String(info.returnType),
+            startOffset: toNanoseconds(start - this._start),
+            duration: toNanoseconds(end - start),
+          });
+        };
+      },
+      onExecuteDone: () => {
+        this._executionEnd = now();
+      },
+    };
+  }
+
+  get [Symbol.toStringTag]() {
+    return 'TracingCollector';
+  }
+
+  /**
+   * Starts timing the given phase, returning a function which ends it.
+   */
+  startPhase(phase: TracingPhaseName): () => void {
+    const start = now();
+    return () => {
+      this._phases[phase] = {
+        startOffset: toNanoseconds(start - this._start),
+        duration: toNanoseconds(now() - start),
+      };
+    };
+  }
+
+  /**
+   * Returns the tracing data collected so far, ending the request.
+   */
+  getTracing(): Tracing {
+    const end = now();
+    const tracing: Tracing = {
+      version: 1,
+      startTime: this._startTime.toISOString(),
+      endTime: new Date(
+        this._startTime.getTime() + (end - this._start),
+      ).toISOString(),
+      duration: toNanoseconds(end - this._start),
+    };
+
+    const { parsing, validation } = this._phases;
+    if (parsing) {
+      tracing.parsing = parsing;
+    }
+    if (validation) {
+      tracing.validation = validation;
+    }
+
+    if (this._executionStart !== undefined) {
+      const executionEnd = this._executionEnd ?? end;
+      tracing.execution = {
+        startOffset: toNanoseconds(this._executionStart - this._start),
+        duration: toNanoseconds(executionEnd - this._executionStart),
+        resolvers: this._resolvers,
+      };
+    }
+
+    return tracing;
+  }
+
+  /**
+   * Returns a copy of the result with the tracing data added under
+   * `extensions.tracing`.
+   */
+  addToResult(result: ExecutionResult): ExecutionResult {
+    return {
+      ...result,
+      extensions: { ...result.extensions, tracing: this.getTracing() },
+    };
+  }
+}
@@ -0,0 +1,272 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import { parse } from '../../language/parser';
+
+import type { GraphQLResolveInfo } from '../../type/definition';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import type { BatchLoadFn } from '../BatchLoader';
+import { BatchLoader, BatchLoaderRegistry } from '../BatchLoader';
+import { execute } from '../execute';
+
+function createLoader<V = string>(
+  load: (key: string) => V | Error = (key) => key.toUpperCase() as any,
+  options?: { maxBatchSize?: number; cache?: boolean },
+) {
+  const batches: Array<ReadonlyArray<string>> = [];
+  const loader = new BatchLoader<string, V>((keys) => {
+    batches.push(keys);
+    return Promise.resolve(keys.map(load));
+  }, options);
+  return { loader, batches };
+}
+
+const schema = buildSchema(`
+  type Query {
+    users: [User]
+    promisedUsers: [User]
+  }
+
+  type User {
+    id: ID
+    name: String
+    bestFriend: User
+  }
+`);
+
+interface User {
+  id: string;
+}
+
+const batches: Array<ReadonlyArray<string>> = [];
+
+const loadNames: BatchLoadFn<string, string> = (ids) => {
+  batches.push(ids);
+  return ids.map((id) =>
+    id === 'bad' ? new Error(`No user ${id}.`) : `User ${id}`,
+  );
+};
+
+const loadBestFriends: BatchLoadFn<string, User> = async (ids) => {
+  batches.push(ids.map((id) => `friend:${id}`));
+  await resolveOnNextTick();
+  return ids.map((id) => ({ id: `${id}${id}`, ...userFields }));
+};
+
+const userFields = {
+  name: (
+    user: User,
+    _args: unknown,
+    _context: unknown,
+    info: GraphQLResolveInfo,
+  ) => info.loaders.get(loadNames).load(user.id),
+  bestFriend: (
+    user: User,
+    _args: unknown,
+    _context: unknown,
+    info: GraphQLResolveInfo,
+  ) => info.loaders.get(loadBestFriends).load(user.id),
+};
+
+function executeQuery(
+  query: string,
+  ids: ReadonlyArray<string>,
+  maxBatchSize?: number,
+) {
+  batches.length = 0;
+  const toUser = (id: string) => ({ id, ...userFields });
+  return execute({
+    schema,
+    document: parse(query),
+    rootValue: {
+      users: ids.map(toUser),
+      promisedUsers: ids.map(async (id) => {
+        await resolveOnNextTick();
+        return toUser(id);
+      }),
+    },
+    fieldResolver: (source, args, context, info) => {
+      const property = source[info.fieldName];
+      if (typeof property === 'function') {
+        return property(source, args, context, info);
+      }
+      return property;
+    },
+    maxBatchSize,
+  });
+}
+
+describe('BatchLoader', () => {
+  it('batches the keys loaded during the same tick', async () => {
+    const { loader, batches: loaded } = createLoader();
+
+    const values = await Promise.all([loader.load('a'), loader.load('b')]);
+    expect(values).to.deep.equal(['A', 'B']);
+    expect(loaded).to.deep.equal([['a', 'b']]);
+
+    expect(await loader.load('c')).to.equal('C');
+    expect(loaded).to.deep.equal([['a', 'b'], ['c']]);
+  });
+
+  it('caches loaded keys', async () => {
+    const { loader, batches: loaded } = createLoader();
+
+    const promise = loader.load('a');
+    expect(loader.load('a')).to.equal(promise);
+    await promise;
+    expect(await loader.load('a')).to.equal('A');
+    expect(loaded).to.deep.equal([['a']]);
+
+    loader.clear('a').prime('b', 'primed');
+    expect(await loader.loadMany(['a', 'b'])).to.deep.equal(['A', 'primed']);
+    expect(loaded).to.deep.equal([['a'], ['a']]);
+
+    loader.clearAll();
+    expect(await loader.load('b')).to.equal('B');
+  });
+
+  it('does not cache when the cache is disabled', async () => {
+    const { loader, batches: loaded } = createLoader(undefined, {
+      cache: false,
+    });
+
+    await Promise.all([loader.load('a'), loader.load('a')]);
+    expect(loaded).to.deep.equal([['a', 'a']]);
+  });
+
+  it('splits batches larger than maxBatchSize', async () => {
+    const { loader, batches: loaded } = createLoader(undefined, {
+      maxBatchSize: 2,
+    });
+
+    await loader.loadMany(['a', 'b', 'c', 'd', 'e']);
+    expect(loaded).to.deep.equal([['a', 'b'], ['c', 'd'], ['e']]);
+  });
+
+  it('rejects the keys which failed to load', async () => {
+    const error = new Error('Failed.');
+    const { loader, batches: loaded } = createLoader((key) =>
+      key === 'b' ? error : key.toUpperCase(),
+    );
+
+    expect(await loader.loadMany(['a', 'b'])).to.deep.equal(['A', error]);
+
+    // Failed keys are not cached
+    expect(await loader.loadMany(['a', 'b'])).to.deep.equal(['A', error]);
+    expect(loaded).to.deep.equal([['a', 'b'], ['b']]);
+  });
+
+  it('rejects every key when the batch function fails', async () => {
+    const loader = new BatchLoader<string, string>(() => {
+      throw new Error('Batch failed.');
+    });
+    const badLengthLoader = new BatchLoader<string, string>(() => ['a']);
+
+    const values = await loader.loadMany(['a', 'b']);
+    expect(values.map((value) => String(value))).to.deep.equal([
+      'Error: Batch failed.',
+      'Error: Batch failed.',
+    ]);
+
+    const [value] = await badLengthLoader.loadMany(['a', 'b']);
+    expect(String(value)).to.match(
+      /did not return a Promise of an Array of the same length/,
+    );
+  });
+
+  it('rejects an invalid batch function or maxBatchSize', () => {
+    // @ts-expect-error (batch function is required)
+    expect(() => new BatchLoader()).to.throw(
+      'BatchLoader must be constructed with a function which accepts Array<key> and returns Promise<Array<value>>, but got: undefined.',
+    );
+    expect(() => new BatchLoader(() => [], { maxBatchSize: 0 })).to.throw(
+      'maxBatchSize must be a positive number: 0',
+    );
+  });
+
+  it('dispatches the loaders of a registry together', async () => {
+    const registry = new BatchLoaderRegistry();
+    const loadA = (keys: ReadonlyArray<string>) => keys;
+    const loadB = (keys: ReadonlyArray<string>) => keys.map((key) => key + key);
+
+    expect(registry.get(loadA)).to.equal(registry.get(loadA));
+    expect(
+      await Promise.all([
+        registry.get(loadA).load('a'),
+        registry.get(loadB).load('b'),
+      ]),
+    ).to.deep.equal(['a', 'bb']);
+  });
+});
+
+describe('Execute: batch loaders', () => {
+  it('collapses the loads of list items into one batch', async () => {
+    const result = await executeQuery('{ users { name } }', ['1', '2', '3']);
+
+    expect(result).to.deep.equal({
+      data: {
+        users: [{ name: 'User 1' }, { name: 'User 2' }, { name: 'User 3' }],
+      },
+    });
+    expect(batches).to.deep.equal([['1', '2', '3']]);
+  });
+
+  it('collapses loads issued from separate promise continuations', async () => {
+    const result = await executeQuery(
+      '{ promisedUsers { name bestFriend { name } } }',
+      ['1', '2'],
+    );
+
+    expect(result).to.deep.equal({
+      data: {
+        promisedUsers: [
+          { name: 'User 1', bestFriend: { name: 'User 11' } },
+          { name: 'User 2', bestFriend: { name: 'User 22' } },
+        ],
+      },
+    });
+    expect(batches).to.deep.equal([
+      ['1', '2'],
+      ['friend:1', 'friend:2'],
+      ['11', '22'],
+    ]);
+  });
+
+  it('caches keys for the duration of a single execution', async () => {
+    const query = '{ users { name } promisedUsers { name } }';
+
+    await executeQuery(query, ['1', '2']);
+    expect(batches).to.deep.equal([['1', '2']]);
+
+    await executeQuery(query, ['1', '2']);
+    expect(batches).to.deep.equal([['1', '2']]);
+  });
+
+  it('locates the errors of keys which failed to load', async () => {
+    const result = await executeQuery('{ users { name } }', ['1', 'bad']);
+
+    expectJSON(result).toDeepEqual({
+      data: {
+        users: [{ name: 'User 1' }, { name: null }],
+      },
+      errors: [
+        {
+          message: 'No user bad.',
+          locations: [{ line: 1, column: 11 }],
+          path: ['users', 1, 'name'],
+        },
+      ],
+    });
+  });
+
+  it('applies maxBatchSize to the loaders of an execution', async () => {
+    await executeQuery('{ users { name } }', ['1', '2', '3'], 2);
+
+    expect(batches).to.deep.equal([['1', '2'], ['3']]);
+  });
+});
@@ -0,0 +1,291 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import type { Maybe } from '../../jsutils/Maybe';
+
+import { GraphQLSchema } from '../../type/schema';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { graphql, graphqlSync } from '../../graphql';
+
+import type { ExecutionResult } from '../execute';
+import type { ResponseCache } from '../ResponseCache';
+import { InMemoryResponseCache } from '../ResponseCache';
+
+const schema = buildSchema(`
+  enum CacheControlScope {
+    PUBLIC
+    PRIVATE
+  }
+
+  directive @cacheControl(
+    maxAge: Int
+    scope: CacheControlScope
+  ) on OBJECT | INTERFACE | UNION | FIELD_DEFINITION
+
+  type Query {
+    greeting(name: String): String @cacheControl(maxAge: 60)
+    viewer: String @cacheControl(maxAge: 60, scope: PRIVATE)
+    now: String
+    failing: String @cacheControl(maxAge: 60)
+  }
+
+  type Mutation {
+    greet: String @cacheControl(maxAge: 60)
+  }
+`);
+
+function createRootValue() {
+  const calls: Array<string> = [];
+  return {
+    calls,
+    rootValue: {
+      greeting({ name }: { name?: string }) {
+        calls.push('greeting');
+        return `Hello ${name ?? 'World'}`;
+      },
+      viewer(_args: unknown, context: { user: string }) {
+        calls.push('viewer');
+        return context.user;
+      },
+      now() {
+        calls.push('now');
+        return 'now';
+      },
+      failing() {
+        calls.push('failing');
+        throw new Error('Failed.');
+      },
+      greet() {
+        calls.push('greet');
+        return 'Hello';
+      },
+    },
+  };
+}
+
+describe('InMemoryResponseCache', () => {
+  it('returns stored responses until they expire', async () => {
+    const cache = new InMemoryResponseCache();
+    const result = { data: { greeting: 'Hello' } };
+
+    cache.set('key', result, 0.01);
+    expect(cache.get('key')).to.deep.equal(result);
+    expect(cache.get('other')).to.equal(undefined);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(cache.get('key')).to.equal(undefined);
+  });
+
+  it('evicts the least recently used responses', () => {
+    const cache = new InMemoryResponseCache({ maxSize: 2 });
+    const result = { data: {} };
+
+    cache.set('a', result, 60);
+    cache.set('b', result, 60);
+    cache.get('a');
+    cache.set('c', result, 60);
+
+    expect(cache.get('a')).to.deep.equal(result);
+    expect(cache.get('b')).to.equal(undefined);
+    expect(cache.get('c')).to.deep.equal(result);
+
+    cache.clear();
+    expect(cache.get('a')).to.equal(undefined);
+  });
+
+  it('stores and returns copies of the responses', () => {
+    const cache = new InMemoryResponseCache();
+    const result = { data: { user: { name: 'Alice' } } };
+
+    cache.set('key', result, 60);
+    result.data.user.name = 'Bob';
+
+    const cached = cache.get('key');
+    expect(cached).to.deep.equal({ data: { user: { name: 'Alice' } } });
+    expect(cached).to.not.equal(result);
+
+    (cached as typeof result).data.user.name = 'Eve';
+    expect(cache.get('key')).to.deep.equal({
+      data: { user: { name: 'Alice' } },
+    });
+  });
+});
+
+describe('graphql: response cache', () => {
+  it('returns cached responses without executing the query', () => {
+    const responseCache = new InMemoryResponseCache();
+    const { calls, rootValue } = createRootValue();
+    const request = {
+      schema,
+      source: 'query ($name: String) { greeting(name: $name) }',
+      rootValue,
+      responseCache,
+    };
+
+    const result = graphqlSync({ ...request, variableValues: { name: 'A' } });
+    expect(result).to.deep.equal({
+      data: { greeting: 'Hello A' },
+      extensions: { cacheControl: { maxAge: 60, scope: 'PUBLIC' } },
+    });
+    expect(
+      graphqlSync({ ...request, variableValues: { name: 'A' } }),
+    ).to.deep.equal(result);
+    expect(calls).to.deep.equal(['greeting']);
+
+    expect(
+      graphqlSync({ ...request, variableValues: { name: 'B' } }),
+    ).to.deep.include({ data: { greeting: 'Hello B' } });
+    expect(calls).to.deep.equal(['greeting', 'greeting']);
+  });
+
+  it('only returns private responses to the same session', () => {
+    const responseCache = new InMemoryResponseCache();
+    const { calls, rootValue } = createRootValue();
+    const request = { schema, source: '{ viewer }', rootValue, responseCache };
+
+    const alice = { contextValue: { user: 'Alice' }, sessionId: 'alice' };
+    const bob = { contextValue: { user: 'Bob' }, sessionId: 'bob' };
+
+    expect(graphqlSync({ ...request, ...alice }).data).to.deep.equal({
+      viewer: 'Alice',
+    });
+    expect(graphqlSync({ ...request, ...bob }).data).to.deep.equal({
+      viewer: 'Bob',
+    });
+    expect(graphqlSync({ ...request, ...alice }).data).to.deep.equal({
+      viewer: 'Alice',
+    });
+    expect(calls).to.deep.equal(['viewer', 'viewer']);
+
+    // Private responses are not cached without a session.
+    const anonymous = { contextValue: { user: 'Anonymous' } };
+    graphqlSync({ ...request, ...anonymous });
+    graphqlSync({ ...request, ...anonymous });
+    expect(calls).to.deep.equal(['viewer', 'viewer', 'viewer', 'viewer']);
+  });
+
+  it('does not return responses with protected fields to other users', () => {
+    const responseCache = new InMemoryResponseCache();
+    const authSchema = new GraphQLSchema({
+      ...buildSchema(`
+        directive @cacheControl(maxAge: Int) on FIELD_DEFINITION
+        directive @auth(requires: [String!]) on FIELD_DEFINITION
+
+        type Query {
+          secret: String @cacheControl(maxAge: 60) @auth(requires: ["ADMIN"])
+        }
+      `).toConfig(),
+      authPolicy: (
+        context: { roles: ReadonlyArray<string> },
+        _info,
+        requires,
+      ) => requires.every((role) => context.roles.includes(role)),
+    });
+    const request = {
+      schema: authSchema,
+      source: '{ secret }',
+      rootValue: { secret: 'secret' },
+      responseCache,
+    };
+
+    expect(
+      graphqlSync({ ...request, contextValue: { roles: ['ADMIN'] } }),
+    ).to.deep.equal({
+      data: { secret: 'secret' },
+      extensions: { cacheControl: { maxAge: 60, scope: 'PRIVATE' } },
+    });
+    expectJSON(
+      graphqlSync({ ...request, contextValue: { roles: [] } }),
+    ).toDeepEqual({
+      data: { secret: null },
+      errors: [
+        {
+          message: 'Not authorized to access "Query.secret".',
+          locations: [{ line: 1, column: 3 }],
+          path: ['secret'],
+          extensions: { code: 'FORBIDDEN' },
+        },
+      ],
+      extensions: { cacheControl: { maxAge: 60, scope: 'PRIVATE' } },
+    });
+  });
+
+  it('keys the responses by schema and document text', () => {
+    const responseCache = new InMemoryResponseCache();
+    const { calls, rootValue } = createRootValue();
+    const otherSchema = buildSchema(`
+      directive @cacheControl(maxAge: Int) on FIELD_DEFINITION
+
+      type Query {
+        greeting(name: String): String @cacheControl(maxAge: 60)
+      }
+    `);
+
+    graphqlSync({ schema, source: '{ greeting }', rootValue, responseCache });
+    const result = graphqlSync({
+      schema: otherSchema,
+      source: '{ greeting }',
+      rootValue: { greeting: () => 'Hello from the other schema' },
+      responseCache,
+    });
+    expect(result.data).to.deep.equal({
+      greeting: 'Hello from the other schema',
+    });
+
+    graphqlSync({ schema, source: '{greeting}', rootValue, responseCache });
+    graphqlSync({ schema, source: '{ greeting }', rootValue, responseCache });
+    expect(calls).to.deep.equal(['greeting', 'greeting']);
+  });
+
+  it('does not cache responses which may not be cached', () => {
+    const responseCache = new InMemoryResponseCache();
+    const { calls, rootValue } = createRootValue();
+
+    for (const source of ['{ now }', '{ failing }', 'mutation { greet }']) {
+      graphqlSync({ schema, source, rootValue, responseCache });
+      graphqlSync({ schema, source, rootValue, responseCache });
+    }
+
+    expect(calls).to.deep.equal([
+      'now',
+      'now',
+      'failing',
+      'failing',
+      'greet',
+      'greet',
+    ]);
+  });
+
+  it('supports asynchronous caches', async () => {
+    const entries = new Map<string, ExecutionResult>();
+    const responseCache: ResponseCache = {
+      async get(key): Promise<Maybe<ExecutionResult>> {
+        await resolveOnNextTick();
+        return entries.get(key);
+      },
+      async set(key, result) {
+        await resolveOnNextTick();
+        entries.set(key, result);
+      },
+    };
+    const { calls, rootValue } = createRootValue();
+    const request = {
+      schema,
+      source: '{ greeting }',
+      rootValue,
+      responseCache,
+    };
+
+    const result = await graphql(request);
+    await resolveOnNextTick();
+    await resolveOnNextTick();
+
+    expect(await graphql(request)).to.equal(result);
+    expect(calls).to.deep.equal(['greeting']);
+  });
+});
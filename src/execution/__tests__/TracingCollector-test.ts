@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import { parse } from '../../language/parser';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { graphql, graphqlSync } from '../../graphql';
+
+import type { Tracing } from '../TracingCollector';
+import { execute } from '../execute';
+import { TracingCollector } from '../TracingCollector';
+
+const schema = buildSchema(`
+  type Query {
+    hello: String
+    friends: [Friend]
+  }
+
+  type Friend {
+    name: String
+  }
+`);
+
+function getTracing(extensions: unknown): Tracing {
+  return (extensions as { tracing: Tracing }).tracing;
+}
+
+describe('TracingCollector', () => {
+  it('records every resolver of an execution', async () => {
+    const collector = new TracingCollector();
+    const result = await execute({
+      schema,
+      document: parse('{ hello friends { name } }'),
+      rootValue: {
+        hello: async () => {
+          await resolveOnNextTick();
+          return 'world';
+        },
+        friends: [{ name: 'Han' }, { name: 'Leia' }],
+      },
+      hooks: [collector.hooks],
+    });
+
+    const tracedResult = collector.addToResult(result);
+    expect(tracedResult.data).to.deep.equal({
+      hello: 'world',
+      friends: [{ name: 'Han' }, { name: 'Leia' }],
+    });
+
+    const tracing = getTracing(tracedResult.extensions);
+    expect(tracing.version).to.equal(1);
+    expect(tracing).to.not.have.property('parsing');
+    expect(tracing).to.not.have.property('validation');
+    expect(
+      tracing.execution?.resolvers.map((r) => r.path),
+    ).to.have.deep.members([
+      ['hello'],
+      ['friends'],
+      ['friends', 0, 'name'],
+      ['friends', 1, 'name'],
+    ]);
+
+    const friendName = tracing.execution?.resolvers.find(
+      (r) => r.fieldName === 'name',
+    );
+    expect(friendName).to.include({
+      parentType: 'Friend',
+      fieldName: 'name',
+      returnType: 'String',
+    });
+
+    for (const resolver of tracing.execution?.resolvers ?? []) {
+      expect(resolver.startOffset).to.be.at.least(0);
+      expect(resolver.duration).to.be.at.least(0);
+    }
+  });
+
+  it('times phases relative to the start of the request', () => {
+    const collector = new TracingCollector();
+    const endParsing = collector.startPhase('parsing');
+    endParsing();
+
+    const tracing = collector.getTracing();
+    expect(tracing.parsing?.startOffset).to.be.at.least(0);
+    expect(tracing.parsing?.duration).to.be.at.least(0);
+    expect(tracing.duration).to.be.at.least(
+      tracing.parsing?.duration as number,
+    );
+    expect(Date.parse(tracing.endTime)).to.be.at.least(
+      Date.parse(tracing.startTime),
+    );
+    expect(tracing).to.not.have.property('execution');
+  });
+
+  it('preserves existing extensions', () => {
+    const collector = new TracingCollector();
+    const result = collector.addToResult({
+      data: null,
+      extensions: { foo: 'bar' },
+    });
+
+    expect(result.extensions).to.have.property('foo', 'bar');
+    expect(result.extensions).to.have.property('tracing');
+  });
+});
+
+describe('graphql() tracing', () => {
+  it('reports phase timings under extensions when enabled', async () => {
+    const result = await graphql({
+      schema,
+      source: '{ hello }',
+      rootValue: { hello: 'world' },
+      tracing: true,
+    });
+
+    expect(result.data).to.deep.equal({ hello: 'world' });
+
+    const tracing = getTracing(result.extensions);
+    expect(tracing).to.have.all.keys(
+      'version',
+      'startTime',
+      'endTime',
+      'duration',
+      'parsing',
+      'validation',
+      'execution',
+    );
+    expect(tracing.execution?.resolvers).to.have.lengthOf(1);
+    expect(tracing.execution?.resolvers[0]).to.deep.include({
+      path: ['hello'],
+      parentType: 'Query',
+      fieldName: 'hello',
+      returnType: 'String',
+    });
+  });
+
+  it('reports tracing for requests with syntax errors', () => {
+    const result = graphqlSync({ schema, source: '{', tracing: true });
+
+    expect(result.errors).to.have.lengthOf(1);
+    const tracing = getTracing(result.extensions);
+    expect(tracing).to.have.property('parsing');
+    expect(tracing).to.not.have.property('validation');
+  });
+
+  it('does not add extensions by default', () => {
+    const result = graphqlSync({
+      schema,
+      source: '{ hello }',
+      rootValue: { hello: 'world' },
+    });
+
+    expect(result).to.deep.equal({ data: { hello: 'world' } });
+  });
+});
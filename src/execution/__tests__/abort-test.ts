@@ -0,0 +1,303 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import type { AbortSignalLike } from '../../jsutils/AbortSignalLike';
+
+import { parse } from '../../language/parser';
+
+import type { GraphQLResolveInfo } from '../../type/definition';
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { graphql } from '../../graphql';
+
+import { execute, executeSync } from '../execute';
+import { subscribe } from '../subscribe';
+
+const schema = buildSchema(`
+  type Todo {
+    id: ID
+    text: String
+    author: User
+  }
+
+  type User {
+    id: ID
+    name: String
+  }
+
+  type Query {
+    todo: Todo
+    nonNullTodo: Todo!
+    todoList: [Todo]
+  }
+
+  type Subscription {
+    foo: String
+  }
+`);
+
+function createAbortController() {
+  const abortController = new AbortController();
+  return {
+    abort: () => abortController.abort(),
+    signal: abortController.signal as AbortSignalLike,
+  };
+}
+
+describe('Execute: Cancellation', () => {
+  it('should stop the execution when aborted during object field completion', async () => {
+    const abortController = createAbortController();
+    const document = parse(`
+      query {
+        todo {
+          id
+          author {
+            id
+          }
+        }
+      }
+    `);
+
+    const resultPromise = execute({
+      document,
+      schema,
+      abortSignal: abortController.signal,
+      rootValue: {
+        todo: async () =>
+          Promise.resolve({
+            id: '1',
+            text: 'Hello, World!',
+            author: () => expect.fail('Should not be called'),
+          }),
+      },
+    });
+
+    abortController.abort();
+
+    const result = await resultPromise;
+
+    expectJSON(result).toDeepEqual({
+      data: { todo: null },
+      errors: [
+        {
+          message: 'This operation was aborted',
+          path: ['todo'],
+          locations: [{ line: 3, column: 9 }],
+        },
+      ],
+    });
+  });
+
+  it('should reject pending resolvers and bubble up nulls', async () => {
+    const abortController = createAbortController();
+    const document = parse('{ nonNullTodo { id } }');
+
+    const resultPromise = execute({
+      document,
+      schema,
+      abortSignal: abortController.signal,
+      rootValue: {
+        nonNullTodo: () =>
+          new Promise(() => {
+            /* never resolves */
+          }),
+      },
+    });
+
+    abortController.abort();
+
+    expectJSON(await resultPromise).toDeepEqual({
+      data: null,
+      errors: [
+        {
+          message: 'This operation was aborted',
+          path: ['nonNullTodo'],
+          locations: [{ line: 1, column: 3 }],
+        },
+      ],
+    });
+  });
+
+  it('should close the async iterator of a list when aborted', async () => {
+    const abortController = createAbortController();
+    let didReturn = false;
+    const todoList = {
+      [Symbol.asyncIterator]() {
+        let index = 0;
+        return {
+          next: () =>
+            index++ === 0
+              ? Promise.resolve({ value: { id: '1' }, done: false })
+              : new Promise(() => {
+                  /* never resolves */
+                }),
+          return: () => {
+            didReturn = true;
+            return Promise.resolve({ value: undefined, done: true });
+          },
+        };
+      },
+    };
+
+    const resultPromise = execute({
+      document: parse('{ todoList { id } }'),
+      schema,
+      abortSignal: abortController.signal,
+      rootValue: { todoList },
+    });
+
+    // Wait for the first item to be completed.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    abortController.abort();
+
+    expectJSON(await resultPromise).toDeepEqual({
+      data: { todoList: [{ id: '1' }, null] },
+      errors: [
+        {
+          message: 'This operation was aborted',
+          path: ['todoList', 1],
+          locations: [{ line: 1, column: 3 }],
+        },
+      ],
+    });
+    expect(didReturn).to.equal(true);
+  });
+
+  it('should not resolve any field if already aborted', async () => {
+    const abortController = createAbortController();
+    abortController.abort();
+
+    let resolverCalls = 0;
+    const result = await execute({
+      document: parse('{ todo { id } }'),
+      schema,
+      abortSignal: abortController.signal,
+      rootValue: {
+        todo: () => {
+          resolverCalls++;
+          return { id: '1' };
+        },
+      },
+    });
+
+    expect(resolverCalls).to.equal(0);
+    expectJSON(result).toDeepEqual({
+      data: { todo: null },
+      errors: [
+        {
+          message: 'This operation was aborted',
+          path: ['todo'],
+          locations: [{ line: 1, column: 3 }],
+        },
+      ],
+    });
+  });
+
+  it('exposes the abort signal to resolvers', () => {
+    const abortController = createAbortController();
+
+    let resolvedInfo: GraphQLResolveInfo | undefined;
+    executeSync({
+      document: parse('{ todo { id } }'),
+      schema,
+      abortSignal: abortController.signal,
+      rootValue: {
+        todo: (_args: unknown, _context: unknown, info: GraphQLResolveInfo) => {
+          resolvedInfo = info;
+        },
+      },
+    });
+
+    expect(resolvedInfo?.abortSignal).to.equal(abortController.signal);
+  });
+
+  it('does not affect an execution that is never aborted', async () => {
+    const abortController = createAbortController();
+
+    const result = await execute({
+      document: parse('{ todo { id author { name } } }'),
+      schema,
+      abortSignal: abortController.signal,
+      rootValue: {
+        todo: () => Promise.resolve({ id: '1', author: { name: 'Ada' } }),
+      },
+    });
+
+    expect(result).to.deep.equal({
+      data: { todo: { id: '1', author: { name: 'Ada' } } },
+    });
+  });
+
+  it('passes the abort signal from graphql()', async () => {
+    const abortController = createAbortController();
+
+    const resultPromise = graphql({
+      source: '{ todo { id } }',
+      schema,
+      abortSignal: abortController.signal,
+      rootValue: {
+        todo: () =>
+          new Promise(() => {
+            /* never resolves */
+          }),
+      },
+    });
+
+    await resolveOnNextTick();
+    abortController.abort();
+
+    expectJSON(await resultPromise).toDeepEqual({
+      data: { todo: null },
+      errors: [
+        {
+          message: 'This operation was aborted',
+          path: ['todo'],
+          locations: [{ line: 1, column: 3 }],
+        },
+      ],
+    });
+  });
+
+  it('should stop the subscription source stream when aborted', async () => {
+    const abortController = createAbortController();
+
+    let didReturn = false;
+    const subscription = await subscribe({
+      document: parse('subscription { foo }'),
+      schema,
+      abortSignal: abortController.signal,
+      rootValue: {
+        foo: {
+          [Symbol.asyncIterator]() {
+            return this;
+          },
+          next: () =>
+            new Promise(() => {
+              /* never resolves */
+            }),
+          return() {
+            didReturn = true;
+            return Promise.resolve({ value: undefined, done: true });
+          },
+        },
+      },
+    });
+
+    if (!('next' in subscription)) {
+      expect.fail('Expected an async iterator');
+    }
+
+    const nextPromise = subscription.next();
+    abortController.abort();
+
+    expect(await nextPromise).to.deep.equal({ value: undefined, done: true });
+    expect(await subscription.next()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+    expect(didReturn).to.equal(true);
+  });
+});
@@ -548,6 +548,7 @@ describe('Execute: Handles execution of abstract types', () => {
                 message,
                 locations: [{ line: 3, column: 9 }],
                 path: ['pet'],
+                extensions: { code: 'INVALID_RUNTIME_TYPE' },
               },
             ],
           });
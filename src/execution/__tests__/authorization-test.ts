@@ -0,0 +1,244 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+
+import { parse } from '../../language/parser';
+
+import { GraphQLObjectType } from '../../type/definition';
+import { specifiedDirectives } from '../../type/directives';
+import { GraphQLString } from '../../type/scalars';
+import type { GraphQLAuthPolicy } from '../../type/schema';
+import { GraphQLSchema } from '../../type/schema';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { executeSync } from '../execute';
+
+interface Context {
+  roles: ReadonlyArray<string>;
+}
+
+const authPolicy: GraphQLAuthPolicy<Context> = (context, _info, requires) =>
+  requires.every((role) => context.roles.includes(role));
+
+const sdlSchema = new GraphQLSchema({
+  ...buildSchema(`
+    directive @auth(requires: [String!]) on OBJECT | INTERFACE | FIELD_DEFINITION
+
+    type Query {
+      me: User
+      node: Node
+      secret: String @auth(requires: ["ADMIN"])
+      nonNullSecret: String! @auth(requires: ["ADMIN"])
+    }
+
+    interface Node @auth(requires: ["USER"]) {
+      id: ID
+    }
+
+    type User implements Node {
+      id: ID
+      name: String
+      email: String @auth(requires: ["OWNER"])
+    }
+  `).toConfig(),
+  authPolicy,
+});
+
+function executeQuery(
+  query: string,
+  roles: ReadonlyArray<string>,
+  schema: GraphQLSchema = sdlSchema,
+) {
+  const user = {
+    __typename: 'User',
+    id: '1',
+    name: 'Alice',
+    email: 'alice@example.com',
+  };
+  return executeSync({
+    schema,
+    document: parse(query),
+    rootValue: { me: user, node: user, secret: 'secret', nonNullSecret: 's' },
+    contextValue: { roles },
+  });
+}
+
+describe('Execute: authorization', () => {
+  it('resolves fields allowed by the auth policy', () => {
+    const result = executeQuery('{ secret me { id name email } }', [
+      'ADMIN',
+      'USER',
+      'OWNER',
+    ]);
+
+    expect(result).to.deep.equal({
+      data: {
+        secret: 'secret',
+        me: { id: '1', name: 'Alice', email: 'alice@example.com' },
+      },
+    });
+  });
+
+  it('resolves unauthorized fields to null with a FORBIDDEN error', () => {
+    const result = executeQuery('{ secret me { name email } }', ['USER']);
+
+    expectJSON(result).toDeepEqual({
+      data: { secret: null, me: { name: 'Alice', email: null } },
+      errors: [
+        {
+          message: 'Not authorized to access "Query.secret".',
+          locations: [{ line: 1, column: 3 }],
+          path: ['secret'],
+          extensions: { code: 'FORBIDDEN' },
+        },
+        {
+          message: 'Not authorized to access "User.email".',
+          locations: [{ line: 1, column: 20 }],
+          path: ['me', 'email'],
+          extensions: { code: 'FORBIDDEN' },
+        },
+      ],
+    });
+  });
+
+  it('applies the requirements of implemented interfaces', () => {
+    const result = executeQuery('{ node { id ... on User { name } } }', []);
+
+    expectJSON(result).toDeepEqual({
+      data: { node: { id: null, name: null } },
+      errors: [
+        {
+          message: 'Not authorized to access "User.id".',
+          locations: [{ line: 1, column: 10 }],
+          path: ['node', 'id'],
+          extensions: { code: 'FORBIDDEN' },
+        },
+        {
+          message: 'Not authorized to access "User.name".',
+          locations: [{ line: 1, column: 27 }],
+          path: ['node', 'name'],
+          extensions: { code: 'FORBIDDEN' },
+        },
+      ],
+    });
+  });
+
+  it('propagates the error of unauthorized non-null fields', () => {
+    const result = executeQuery('{ nonNullSecret }', []);
+
+    expectJSON(result).toDeepEqual({
+      data: null,
+      errors: [
+        {
+          message: 'Not authorized to access "Query.nonNullSecret".',
+          locations: [{ line: 1, column: 3 }],
+          path: ['nonNullSecret'],
+          extensions: { code: 'FORBIDDEN' },
+        },
+      ],
+    });
+  });
+
+  it('checks the auth policy before calling the resolver', () => {
+    let resolved = false;
+    const requests: Array<unknown> = [];
+    const schema = new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: 'Query',
+        extensions: { auth: { requires: ['USER'] } },
+        fields: {
+          greeting: {
+            type: GraphQLString,
+            extensions: { auth: { requires: ['ADMIN', 'USER'] } },
+            resolve() {
+              resolved = true;
+              return 'Hello';
+            },
+          },
+        },
+      }),
+      authPolicy(context, info, requires) {
+        requests.push({ context, fieldName: info.fieldName, requires });
+        return false;
+      },
+    });
+
+    const result = executeSync({
+      schema,
+      document: parse('{ greeting }'),
+      contextValue: 'context',
+    });
+
+    expect(resolved).to.equal(false);
+    expect(requests).to.deep.equal([
+      {
+        context: 'context',
+        fieldName: 'greeting',
+        requires: ['ADMIN', 'USER'],
+      },
+    ]);
+    expectJSON(result).toDeepEqual({
+      data: { greeting: null },
+      errors: [
+        {
+          message: 'Not authorized to access "Query.greeting".',
+          locations: [{ line: 1, column: 3 }],
+          path: ['greeting'],
+          extensions: { code: 'FORBIDDEN' },
+        },
+      ],
+    });
+  });
+
+  it('denies fields requiring authorization without an auth policy', () => {
+    const schema = new GraphQLSchema({
+      ...sdlSchema.toConfig(),
+      authPolicy: undefined,
+    });
+
+    expectJSON(executeQuery('{ secret }', ['ADMIN'], schema)).toDeepEqual({
+      data: { secret: null },
+      errors: [
+        {
+          message: 'Not authorized to access "Query.secret".',
+          locations: [{ line: 1, column: 3 }],
+          path: ['secret'],
+          extensions: { code: 'FORBIDDEN' },
+        },
+      ],
+    });
+  });
+
+  it('ignores the @auth directive when the schema does not define it', () => {
+    const schema = new GraphQLSchema({
+      ...sdlSchema.toConfig(),
+      directives: specifiedDirectives,
+    });
+
+    expect(executeQuery('{ secret }', [], schema)).to.deep.equal({
+      data: { secret: 'secret' },
+    });
+  });
+
+  it('does not apply the requirements of a type to meta fields', () => {
+    const schema = new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: 'Query',
+        extensions: { auth: { requires: ['ADMIN'] } },
+        fields: { greeting: { type: GraphQLString } },
+      }),
+      authPolicy: () => false,
+    });
+
+    const result = executeSync({
+      schema,
+      document: parse('{ __typename __type(name: "Query") { name } }'),
+    });
+
+    expect(result).to.deep.equal({
+      data: { __typename: 'Query', __type: { name: 'Query' } },
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { parse } from '../../language/parser';
+
+import { GraphQLObjectType } from '../../type/definition';
+import {
+  GraphQLCacheControlDirective,
+  specifiedDirectives,
+} from '../../type/directives';
+import { GraphQLString } from '../../type/scalars';
+import { GraphQLSchema } from '../../type/schema';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import type { ExecutionArgs } from '../execute';
+import { executeSync } from '../execute';
+
+const schema = buildSchema(`
+  enum CacheControlScope {
+    PUBLIC
+    PRIVATE
+  }
+
+  directive @cacheControl(
+    maxAge: Int
+    scope: CacheControlScope
+  ) on OBJECT | INTERFACE | UNION | FIELD_DEFINITION
+
+  type Query {
+    posts: [Post] @cacheControl(maxAge: 60)
+    viewer: User
+    node: Node @cacheControl(maxAge: 600)
+    version: String
+    hinted: String @cacheControl(maxAge: 300)
+  }
+
+  interface Node @cacheControl(maxAge: 120) {
+    id: ID
+  }
+
+  type Post implements Node {
+    id: ID
+    title: String
+    views: Int @cacheControl(maxAge: 10)
+    author: User
+  }
+
+  type User @cacheControl(maxAge: 30, scope: PRIVATE) {
+    name: String
+  }
+`);
+
+const rootValue = {
+  posts: [{ id: '1', title: 'Hello', views: 100, author: { name: 'Alice' } }],
+  viewer: { name: 'Bob' },
+  node: { __typename: 'Post', id: '1' },
+  version: '1.0',
+  hinted: 'hinted',
+};
+
+function executeQuery(
+  query: string,
+  args?: Omit<ExecutionArgs, 'schema' | 'document'>,
+) {
+  const result = executeSync({
+    schema,
+    document: parse(query),
+    rootValue,
+    ...args,
+  });
+  return result.extensions?.cacheControl;
+}
+
+describe('Execute: cache control', () => {
+  it('reports the minimum maxAge of the resolved fields', () => {
+    expect(executeQuery('{ posts { title } }')).to.deep.equal({
+      maxAge: 60,
+      scope: 'PUBLIC',
+    });
+    expect(executeQuery('{ posts { title views } hinted }')).to.deep.equal({
+      maxAge: 10,
+      scope: 'PUBLIC',
+    });
+  });
+
+  it('restricts the scope to PRIVATE if any field is private', () => {
+    expect(executeQuery('{ posts { author { name } } }')).to.deep.equal({
+      maxAge: 30,
+      scope: 'PRIVATE',
+    });
+  });
+
+  it('uses the hint of the returned type unless the field sets a maxAge', () => {
+    expect(executeQuery('{ viewer { name } }')).to.deep.equal({
+      maxAge: 30,
+      scope: 'PRIVATE',
+    });
+    expect(executeQuery('{ node { id } }')).to.deep.equal({
+      maxAge: 600,
+      scope: 'PUBLIC',
+    });
+  });
+
+  it('uses the default maxAge for root fields without hints', () => {
+    expect(executeQuery('{ version hinted }')).to.deep.equal({
+      maxAge: 0,
+      scope: 'PUBLIC',
+    });
+    expect(
+      executeQuery('{ version hinted }', { defaultMaxAge: 100 }),
+    ).to.deep.equal({ maxAge: 100, scope: 'PUBLIC' });
+    expect(
+      executeQuery('{ hinted @skip(if: true) }', { defaultMaxAge: 5 }),
+    ).to.deep.equal({ maxAge: 5, scope: 'PUBLIC' });
+  });
+
+  it('reads hints from the extensions of types and fields', () => {
+    const User = new GraphQLObjectType({
+      name: 'User',
+      extensions: { cacheControl: { maxAge: 30 } },
+      fields: { name: { type: GraphQLString } },
+    });
+    const extensionsSchema = new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: 'Query',
+        fields: {
+          viewer: {
+            type: User,
+            extensions: { cacheControl: { scope: 'PRIVATE' } },
+          },
+        },
+      }),
+      directives: [...specifiedDirectives, GraphQLCacheControlDirective],
+    });
+
+    const result = executeSync({
+      schema: extensionsSchema,
+      document: parse('{ viewer { name } }'),
+      rootValue,
+    });
+
+    expect(result).to.deep.equal({
+      data: { viewer: { name: 'Bob' } },
+      extensions: { cacheControl: { maxAge: 30, scope: 'PRIVATE' } },
+    });
+  });
+
+  it('does not compute a cache policy if the schema does not define the directive', () => {
+    const result = executeSync({
+      schema: new GraphQLSchema({
+        ...schema.toConfig(),
+        directives: specifiedDirectives,
+      }),
+      document: parse('{ posts { title } }'),
+      rootValue,
+    });
+
+    expect(result).to.deep.equal({ data: { posts: [{ title: 'Hello' }] } });
+  });
+});
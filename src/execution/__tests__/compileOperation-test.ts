@@ -0,0 +1,219 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import { parse } from '../../language/parser';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { compileOperation } from '../compileOperation';
+import { execute } from '../execute';
+
+const schema = buildSchema(`
+  interface Pet {
+    name: String
+  }
+
+  type Dog implements Pet {
+    name: String
+    barks: Boolean
+  }
+
+  type Cat implements Pet {
+    name: String
+    meows: Boolean
+  }
+
+  type Query {
+    greeting(name: String = "World"): String
+    pets(first: Int): [Pet]
+  }
+`);
+
+const pets = [
+  { __typename: 'Dog', name: 'Odie', barks: true },
+  { __typename: 'Cat', name: 'Garfield', meows: false },
+  { __typename: 'Dog', name: 'Snoopy', barks: false },
+];
+
+const rootValue = {
+  greeting: ({ name }: { name: string }) => `Hello, ${name}!`,
+  pets: ({ first }: { first?: number }) =>
+    first === undefined ? pets : pets.slice(0, first),
+};
+
+describe('Execute: compileOperation', () => {
+  it('executes with the same result as execute', async () => {
+    const document = parse(`
+      query ($first: Int, $withMeows: Boolean!) {
+        greeting
+        named: greeting(name: "Jon")
+        pets(first: $first) {
+          ...PetFields
+        }
+      }
+
+      fragment PetFields on Pet {
+        __typename
+        name
+        ... on Dog { barks }
+        ... on Cat @include(if: $withMeows) { meows }
+      }
+    `);
+    const compiled = compileOperation(schema, document);
+
+    for (const variableValues of [
+      { first: 2, withMeows: true },
+      { withMeows: false },
+      { first: 1, withMeows: true },
+    ]) {
+      const args = { rootValue, variableValues };
+      // eslint-disable-next-line no-await-in-loop
+      expect(await compiled(args)).to.deep.equal(
+        // eslint-disable-next-line no-await-in-loop
+        await execute({ schema, document, ...args }),
+      );
+    }
+
+    expect(
+      compiled({ rootValue, variableValues: { withMeows: false } }),
+    ).to.deep.equal({
+      data: {
+        greeting: 'Hello, World!',
+        named: 'Hello, Jon!',
+        pets: [
+          { __typename: 'Dog', name: 'Odie', barks: true },
+          { __typename: 'Cat', name: 'Garfield' },
+          { __typename: 'Dog', name: 'Snoopy', barks: false },
+        ],
+      },
+    });
+  });
+
+  it('does not share mutated argument values between executions', () => {
+    const document = parse(`
+      query ($name: String) {
+        static: greeting(name: "Jon")
+        dynamic: greeting(name: $name)
+      }
+    `);
+    const receivedArgs: Array<unknown> = [];
+    const compiled = compileOperation(schema, document);
+    const args = {
+      rootValue: {
+        greeting(fieldArgs: { name: string }) {
+          receivedArgs.push({ ...fieldArgs });
+          fieldArgs.name = 'Mutated';
+          return 'Hello!';
+        },
+      },
+      variableValues: { name: 'Jon' },
+    };
+
+    const expected = { data: { static: 'Hello!', dynamic: 'Hello!' } };
+    expect(compiled(args)).to.deep.equal(expected);
+    expect(compiled(args)).to.deep.equal(expected);
+
+    expect(receivedArgs).to.deep.equal([
+      { name: 'Jon' },
+      { name: 'Jon' },
+      { name: 'Jon' },
+      { name: 'Jon' },
+    ]);
+  });
+
+  it('executes asynchronous resolvers', async () => {
+    const compiled = compileOperation(schema, parse('{ greeting }'));
+
+    const result = compiled({
+      rootValue: {
+        async greeting() {
+          await resolveOnNextTick();
+          return 'Hello!';
+        },
+      },
+    });
+
+    expect(result).to.be.instanceOf(Promise);
+    expect(await result).to.deep.equal({ data: { greeting: 'Hello!' } });
+  });
+
+  it('selects the named operation', () => {
+    const document = parse(`
+      query A { greeting }
+      query B { named: greeting(name: "B") }
+    `);
+
+    expect(
+      compileOperation(schema, document, 'B')({ rootValue }),
+    ).to.deep.equal({ data: { named: 'Hello, B!' } });
+  });
+
+  it('reports the errors of an invalid operation selection', () => {
+    const document = parse('query A { greeting }');
+
+    expectJSON(compileOperation(schema, document, 'B')()).toDeepEqual({
+      errors: [
+        {
+          message: 'Unknown operation named "B".',
+          extensions: { code: 'OPERATION_NOT_FOUND', operationName: 'B' },
+        },
+      ],
+    });
+  });
+
+  it('reports the errors of invalid variable values', () => {
+    const document = parse(
+      'query ($first: Int) { pets(first: $first) { name } }',
+    );
+
+    const compiled = compileOperation(schema, document);
+
+    expectJSON(
+      compiled({ rootValue, variableValues: { first: 'one' } }),
+    ).toDeepEqual({
+      errors: [
+        {
+          message:
+            'Variable "$first" got invalid value "one"; Int cannot represent non-integer value: "one"',
+          locations: [{ line: 1, column: 8 }],
+          extensions: {
+            code: 'BAD_USER_INPUT',
+            variableName: 'first',
+            path: [],
+          },
+        },
+      ],
+    });
+  });
+
+  it('reports invalid runtime types of abstract types', () => {
+    const document = parse('{ pets { name } }');
+
+    const compiled = compileOperation(schema, document);
+
+    expectJSON(
+      compiled({
+        rootValue: { pets: [{ __typename: 'Dog' }, { __typename: 'Query' }] },
+      }),
+    ).toDeepEqual({
+      data: { pets: [{ name: null }, null] },
+      errors: [
+        {
+          message:
+            'Runtime Object type "Query" is not a possible type for "Pet".',
+          locations: [{ line: 1, column: 3 }],
+          path: ['pets', 1],
+          extensions: { code: 'INVALID_RUNTIME_TYPE' },
+        },
+      ],
+    });
+  });
+
+  it('throws for a missing document', () => {
+    // @ts-expect-error (document is required)
+    expect(() => compileOperation(schema)).to.throw('Must provide document.');
+  });
+});
@@ -0,0 +1,155 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import { parse } from '../../language/parser';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { execute, executeSync } from '../execute';
+
+const schema = buildSchema(`
+  type Query {
+    items: [Item]
+  }
+
+  type Item {
+    id: Int
+    name: String
+    fail: String
+  }
+`);
+
+function createItems(count: number) {
+  let pendingCount = 0;
+  let maxPendingCount = 0;
+
+  const items = Array.from({ length: count }, (_, id) => ({
+    id,
+    async name() {
+      pendingCount++;
+      maxPendingCount = Math.max(maxPendingCount, pendingCount);
+      await resolveOnNextTick();
+      pendingCount--;
+      return `Item ${id}`;
+    },
+    fail() {
+      throw new Error(`Item ${id} failed.`);
+    },
+  }));
+  return { items, getMaxPendingCount: () => maxPendingCount };
+}
+
+describe('Execute: Handles maxConcurrentResolvers', () => {
+  it('limits the number of pending resolvers', async () => {
+    const { items, getMaxPendingCount } = createItems(10);
+
+    const result = await execute({
+      schema,
+      document: parse('{ items { id name } }'),
+      rootValue: { items },
+      maxConcurrentResolvers: 3,
+    });
+
+    expect(result).to.deep.equal({
+      data: {
+        items: items.map(({ id }) => ({ id, name: `Item ${id}` })),
+      },
+    });
+    expect(getMaxPendingCount()).to.equal(3);
+  });
+
+  it('invokes the queued resolvers in order', async () => {
+    const invokedIds: Array<number> = [];
+    const items = Array.from({ length: 100 }, (_, id) => ({
+      async name() {
+        invokedIds.push(id);
+        await resolveOnNextTick();
+        return `Item ${id}`;
+      },
+    }));
+
+    const result = await execute({
+      schema,
+      document: parse('{ items { name } }'),
+      rootValue: { items },
+      maxConcurrentResolvers: 2,
+    });
+
+    expect(result).to.deep.equal({
+      data: { items: items.map((_, id) => ({ name: `Item ${id}` })) },
+    });
+    expect(invokedIds).to.deep.equal(items.map((_, id) => id));
+  });
+
+  it('does not limit resolvers without a limit', async () => {
+    const { items, getMaxPendingCount } = createItems(10);
+
+    await execute({
+      schema,
+      document: parse('{ items { name } }'),
+      rootValue: { items },
+    });
+
+    expect(getMaxPendingCount()).to.equal(10);
+  });
+
+  it('invokes synchronous resolvers right away', () => {
+    const { items } = createItems(3);
+
+    const result = executeSync({
+      schema,
+      document: parse('{ items { id } }'),
+      rootValue: { items },
+      maxConcurrentResolvers: 1,
+    });
+
+    expect(result).to.deep.equal({
+      data: { items: [{ id: 0 }, { id: 1 }, { id: 2 }] },
+    });
+  });
+
+  it('reports the errors of queued resolvers', async () => {
+    const { items } = createItems(2);
+
+    const result = await execute({
+      schema,
+      document: parse('{ items { name fail } }'),
+      rootValue: { items },
+      maxConcurrentResolvers: 1,
+    });
+
+    expectJSON(result).toDeepEqual({
+      data: {
+        items: [
+          { name: 'Item 0', fail: null },
+          { name: 'Item 1', fail: null },
+        ],
+      },
+      errors: [
+        {
+          message: 'Item 0 failed.',
+          locations: [{ line: 1, column: 16 }],
+          path: ['items', 0, 'fail'],
+        },
+        {
+          message: 'Item 1 failed.',
+          locations: [{ line: 1, column: 16 }],
+          path: ['items', 1, 'fail'],
+        },
+      ],
+    });
+  });
+
+  it('rejects an invalid limit', () => {
+    expect(() =>
+      executeSync({
+        schema,
+        document: parse('{ items { id } }'),
+        maxConcurrentResolvers: 0,
+      }),
+    ).to.throw('maxConcurrentResolvers must be a positive number: 0');
+  });
+});
@@ -0,0 +1,431 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+
+import { parse } from '../../language/parser';
+
+import {
+  GraphQLID,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLString,
+} from '../../type/index';
+import {
+  GraphQLDeferDirective,
+  specifiedDirectives,
+} from '../../type/directives';
+import { GraphQLSchema } from '../../type/schema';
+
+import type {
+  ExperimentalIncrementalExecutionResults,
+  SubsequentIncrementalExecutionResult,
+} from '../execute';
+import { execute, experimentalExecuteIncrementally } from '../execute';
+
+const friendType = new GraphQLObjectType({
+  fields: {
+    id: { type: GraphQLID },
+    name: { type: GraphQLString },
+    nonNullName: { type: new GraphQLNonNull(GraphQLString) },
+  },
+  name: 'Friend',
+});
+
+const friends = [
+  { name: 'Han', id: 2 },
+  { name: 'Leia', id: 3 },
+  { name: 'C-3PO', id: 4 },
+];
+
+const heroType = new GraphQLObjectType({
+  fields: {
+    id: { type: GraphQLID },
+    name: { type: GraphQLString },
+    slowField: {
+      type: GraphQLString,
+      resolve: async () => {
+        await resolveOnNextTick();
+        return 'slow';
+      },
+    },
+    errorField: {
+      type: GraphQLString,
+      resolve: () => {
+        throw new Error('bad');
+      },
+    },
+    nonNullErrorField: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: () => null,
+    },
+    friends: {
+      type: new GraphQLList(friendType),
+      resolve: () => friends,
+    },
+  },
+  name: 'Hero',
+});
+
+const hero = { name: 'Luke', id: 1 };
+
+const query = new GraphQLObjectType({
+  fields: {
+    hero: {
+      type: heroType,
+      resolve: () => hero,
+    },
+  },
+  name: 'Query',
+});
+
+const schema = new GraphQLSchema({
+  query,
+  directives: [...specifiedDirectives, GraphQLDeferDirective],
+});
+
+function resolveOnNextTick(): Promise<void> {
+  return Promise.resolve(undefined);
+}
+
+async function complete(document: string, rootValue: unknown = {}) {
+  const result = await experimentalExecuteIncrementally({
+    schema,
+    document: parse(document),
+    rootValue,
+  });
+
+  if ('initialResult' in result) {
+    const results: Array<unknown> = [result.initialResult];
+    for await (const patch of result.subsequentResults) {
+      results.push(patch);
+    }
+    return results;
+  }
+  return result;
+}
+
+describe('Execute: defer directive', () => {
+  it('Can defer fragments containing scalar types', async () => {
+    const document = `
+      query HeroNameQuery {
+        hero {
+          id
+          ...NameFragment @defer
+        }
+      }
+      fragment NameFragment on Hero {
+        id
+        name
+      }
+    `;
+    const result = await complete(document);
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { hero: { id: '1' } },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            data: { id: '1', name: 'Luke' },
+            path: ['hero'],
+          },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Can disable defer using if argument', async () => {
+    const document = `
+      query HeroNameQuery {
+        hero {
+          id
+          ...NameFragment @defer(if: false)
+        }
+      }
+      fragment NameFragment on Hero {
+        name
+      }
+    `;
+    const result = await complete(document);
+
+    expectJSON(result).toDeepEqual({
+      data: { hero: { id: '1', name: 'Luke' } },
+    });
+  });
+
+  it('Can defer fragments on the top level Query field', async () => {
+    const document = `
+      query HeroNameQuery {
+        ...QueryFragment @defer(label: "DeferQuery")
+      }
+      fragment QueryFragment on Query {
+        hero {
+          id
+        }
+      }
+    `;
+    const result = await complete(document);
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: {},
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            data: { hero: { id: '1' } },
+            path: [],
+            label: 'DeferQuery',
+          },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Can defer inline fragments and nested deferred fragments', async () => {
+    const document = `
+      query HeroNameQuery {
+        hero {
+          ... @defer(label: "Outer") {
+            id
+            ... @defer(label: "Inner") {
+              slowField
+            }
+          }
+        }
+      }
+    `;
+    const result = await complete(document);
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { hero: {} },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            data: { id: '1' },
+            path: ['hero'],
+            label: 'Outer',
+          },
+        ],
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            data: { slowField: 'slow' },
+            path: ['hero'],
+            label: 'Inner',
+          },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Can defer a fragment within an already deferred fragment', async () => {
+    const document = `
+      query HeroNameQuery {
+        hero {
+          friends {
+            ... @defer {
+              name
+            }
+          }
+        }
+      }
+    `;
+    const result = await complete(document);
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { hero: { friends: [{}, {}, {}] } },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          { data: { name: 'Han' }, path: ['hero', 'friends', 0] },
+          { data: { name: 'Leia' }, path: ['hero', 'friends', 1] },
+          { data: { name: 'C-3PO' }, path: ['hero', 'friends', 2] },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Handles errors thrown in deferred fragments', async () => {
+    const document = `
+      query HeroNameQuery {
+        hero {
+          id
+          ...NameFragment @defer
+        }
+      }
+      fragment NameFragment on Hero {
+        errorField
+      }
+    `;
+    const result = await complete(document);
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { hero: { id: '1' } },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            data: { errorField: null },
+            path: ['hero'],
+            errors: [
+              {
+                message: 'bad',
+                locations: [{ line: 9, column: 9 }],
+                path: ['hero', 'errorField'],
+              },
+            ],
+          },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Handles non-nullable errors thrown in deferred fragments', async () => {
+    const document = `
+      query HeroNameQuery {
+        hero {
+          id
+          ...NameFragment @defer
+        }
+      }
+      fragment NameFragment on Hero {
+        nonNullErrorField
+      }
+    `;
+    const result = await complete(document);
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { hero: { id: '1' } },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            data: null,
+            path: ['hero'],
+            errors: [
+              {
+                message:
+                  'Cannot return null for non-nullable field Hero.nonNullErrorField.',
+                locations: [{ line: 9, column: 9 }],
+                path: ['hero', 'nonNullErrorField'],
+                extensions: { code: 'NON_NULL_VIOLATION' },
+              },
+            ],
+          },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Filters deferred payloads when a null bubbles up past them', async () => {
+    const document = `
+      query {
+        hero {
+          nonNullErrorField
+          ... @defer {
+            name
+          }
+        }
+      }
+    `;
+    const result = await complete(document);
+
+    expectJSON(result).toDeepEqual({
+      data: { hero: null },
+      errors: [
+        {
+          message:
+            'Cannot return null for non-nullable field Hero.nonNullErrorField.',
+          locations: [{ line: 4, column: 11 }],
+          path: ['hero', 'nonNullErrorField'],
+          extensions: { code: 'NON_NULL_VIOLATION' },
+        },
+      ],
+    });
+  });
+
+  it('Ignores @defer when the schema does not declare it', async () => {
+    const result = await execute({
+      schema: new GraphQLSchema({ query }),
+      document: parse('{ hero { ... @defer { name } } }'),
+    });
+
+    expect(result).to.deep.equal({
+      data: { hero: { name: 'Luke' } },
+    });
+  });
+
+  it('Returns an error from execute for operations producing multiple payloads', async () => {
+    const result = await execute({
+      schema,
+      document: parse('{ hero { slowField ... @defer { name } } }'),
+    });
+
+    expectJSON(result).toDeepEqual({
+      errors: [
+        {
+          message:
+            'Executing this GraphQL operation would unexpectedly produce multiple payloads (due to @defer or @stream directive)',
+          extensions: { code: 'INCREMENTAL_DELIVERY_NOT_SUPPORTED' },
+        },
+      ],
+    });
+  });
+
+  it('Returns an error from execute for synchronous operations producing multiple payloads', () => {
+    const result = execute({
+      schema,
+      document: parse('{ hero { ... @defer { name } } }'),
+    });
+
+    expectJSON(result).toDeepEqual({
+      errors: [
+        {
+          message:
+            'Executing this GraphQL operation would unexpectedly produce multiple payloads (due to @defer or @stream directive)',
+          extensions: { code: 'INCREMENTAL_DELIVERY_NOT_SUPPORTED' },
+        },
+      ],
+    });
+  });
+
+  it('Stops yielding payloads once returned', async () => {
+    const result = (await experimentalExecuteIncrementally({
+      schema,
+      document: parse('{ hero { id ... @defer { slowField } } }'),
+    })) as ExperimentalIncrementalExecutionResults;
+
+    const iterator = result.subsequentResults;
+    expect(await iterator.return()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+
+    const next: IteratorResult<SubsequentIncrementalExecutionResult> =
+      await iterator.next();
+    expect(next).to.deep.equal({ value: undefined, done: true });
+  });
+});
@@ -0,0 +1,185 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+
+import { GraphQLError } from '../../error/GraphQLError';
+import { markErrorSafe } from '../../error/safeError';
+
+import { parse } from '../../language/parser';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { graphqlSync } from '../../graphql';
+
+import type { ExecutionArgs } from '../execute';
+import { executeSync } from '../execute';
+
+const schema = buildSchema(`
+  type Query {
+    unexpected: String
+    expected: String
+    safe: String
+    nonNull: Leaf
+    count: Int
+  }
+
+  type Leaf {
+    value: String!
+    missing: String!
+  }
+`);
+
+const rootValue = {
+  unexpected() {
+    throw new Error('Connection to 10.0.0.1 refused.');
+  },
+  expected() {
+    throw new GraphQLError('Expected error.');
+  },
+  safe() {
+    throw markErrorSafe(new Error('Safe error.'));
+  },
+  nonNull: {
+    value() {
+      throw new Error('Secret.');
+    },
+  },
+  count: 'many',
+};
+
+function executeQuery(
+  query: string,
+  args?: Omit<ExecutionArgs, 'schema' | 'document'>,
+) {
+  return executeSync({ schema, document: parse(query), rootValue, ...args });
+}
+
+describe('Execute: error masking', () => {
+  it('reports the errors of resolvers unchanged by default', () => {
+    expectJSON(executeQuery('{ unexpected }')).toDeepEqual({
+      data: { unexpected: null },
+      errors: [
+        {
+          message: 'Connection to 10.0.0.1 refused.',
+          locations: [{ line: 1, column: 3 }],
+          path: ['unexpected'],
+        },
+      ],
+    });
+  });
+
+  it('masks unexpected errors and reports them to onError', () => {
+    const reported: Array<{ error: GraphQLError; errorId: string }> = [];
+    const result = executeQuery('{ unexpected }', {
+      maskError: true,
+      onError: (error, errorId) => reported.push({ error, errorId }),
+    });
+
+    expect(reported).to.have.lengthOf(1);
+    const { error, errorId } = reported[0];
+    expect(errorId).to.match(/^[0-9a-f]{16}$/);
+    expect(error.message).to.equal('Connection to 10.0.0.1 refused.');
+    expect(error.path).to.deep.equal(['unexpected']);
+
+    expectJSON(result).toDeepEqual({
+      data: { unexpected: null },
+      errors: [
+        {
+          message: 'Unexpected error.',
+          locations: [{ line: 1, column: 3 }],
+          path: ['unexpected'],
+          extensions: { code: 'INTERNAL_SERVER_ERROR', errorId },
+        },
+      ],
+    });
+  });
+
+  it('passes through GraphQL errors and errors marked safe', () => {
+    let reported = 0;
+    const result = executeQuery('{ expected safe count }', {
+      maskError: true,
+      onError: () => {
+        reported += 1;
+      },
+    });
+
+    expect(reported).to.equal(0);
+    expectJSON(result).toDeepEqual({
+      data: { expected: null, safe: null, count: null },
+      errors: [
+        {
+          message: 'Expected error.',
+          locations: [{ line: 1, column: 3 }],
+          path: ['expected'],
+        },
+        {
+          message: 'Safe error.',
+          locations: [{ line: 1, column: 12 }],
+          path: ['safe'],
+        },
+        {
+          message: 'Int cannot represent non-integer value: "many"',
+          locations: [{ line: 1, column: 17 }],
+          path: ['count'],
+          extensions: { code: 'INVALID_LEAF_VALUE' },
+        },
+      ],
+    });
+  });
+
+  it('passes through the errors of the executor', () => {
+    let reported = 0;
+    const result = executeQuery('{ nonNull { missing } }', {
+      maskError: true,
+      onError: () => {
+        reported += 1;
+      },
+    });
+
+    expect(reported).to.equal(0);
+    expectJSON(result).toDeepEqual({
+      data: { nonNull: null },
+      errors: [
+        {
+          message: 'Cannot return null for non-nullable field Leaf.missing.',
+          locations: [{ line: 1, column: 13 }],
+          path: ['nonNull', 'missing'],
+          extensions: { code: 'NON_NULL_VIOLATION' },
+        },
+      ],
+    });
+  });
+
+  it('masks errors propagated from non-null fields once', () => {
+    const errorIds: Array<string> = [];
+    const result = executeQuery('{ nonNull { value } }', {
+      maskError: true,
+      onError: (_error, errorId) => errorIds.push(errorId),
+    });
+
+    expect(errorIds).to.have.lengthOf(1);
+    expectJSON(result).toDeepEqual({
+      data: { nonNull: null },
+      errors: [
+        {
+          message: 'Unexpected error.',
+          locations: [{ line: 1, column: 13 }],
+          path: ['nonNull', 'value'],
+          extensions: { code: 'INTERNAL_SERVER_ERROR', errorId: errorIds[0] },
+        },
+      ],
+    });
+  });
+
+  it('masks errors of requests executed with graphql', () => {
+    const result = graphqlSync({
+      schema,
+      source: '{ unexpected }',
+      rootValue,
+      maskError: true,
+    });
+
+    expect(result.errors?.[0].message).to.equal('Unexpected error.');
+  });
+});
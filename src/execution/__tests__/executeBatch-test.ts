@@ -0,0 +1,234 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import { parse } from '../../language/parser';
+
+import type { GraphQLResolveInfo } from '../../type/definition';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { graphqlBatch } from '../../graphql';
+
+import type { BatchLoadFn } from '../BatchLoader';
+import { executeBatch } from '../executeBatch';
+
+const schema = buildSchema(`
+  type Query {
+    user(id: ID!): User
+    viewer: String
+  }
+
+  type User {
+    id: ID
+    name: String
+  }
+`);
+
+const batches: Array<ReadonlyArray<string>> = [];
+
+const loadNames: BatchLoadFn<string, string> = (ids) => {
+  batches.push(ids);
+  return ids.map((id) => `User ${id}`);
+};
+
+const rootValue = {
+  user: ({ id }: { id: string }) => ({
+    id,
+    name: (_args: unknown, _context: unknown, info: GraphQLResolveInfo) =>
+      info.loaders.get(loadNames).load(id),
+  }),
+  viewer: (_args: unknown, context: { viewer: string }) => context.viewer,
+};
+
+describe('Execute: executeBatch', () => {
+  it('executes every operation with the shared arguments', () => {
+    const results = executeBatch({
+      schema,
+      rootValue,
+      contextValue: { viewer: 'Alice' },
+      operations: [
+        { document: parse('{ viewer }') },
+        {
+          document: parse('query A { a: viewer } query B { b: viewer }'),
+          operationName: 'B',
+        },
+      ],
+    });
+
+    expect(results).to.deep.equal([
+      { data: { viewer: 'Alice' } },
+      { data: { b: 'Alice' } },
+    ]);
+  });
+
+  it('batches the loads of every operation together', async () => {
+    batches.length = 0;
+    const document = parse('query ($id: ID!) { user(id: $id) { name } }');
+
+    const results = await executeBatch({
+      schema,
+      rootValue,
+      operations: [
+        { document, variableValues: { id: '1' } },
+        { document, variableValues: { id: '2' } },
+      ],
+    });
+
+    expect(results).to.deep.equal([
+      { data: { user: { name: 'User 1' } } },
+      { data: { user: { name: 'User 2' } } },
+    ]);
+    expect(batches).to.deep.equal([['1', '2']]);
+  });
+
+  it('reports the errors of every operation independently', async () => {
+    const results = await executeBatch({
+      schema,
+      rootValue: {
+        ...rootValue,
+        async viewer() {
+          await resolveOnNextTick();
+          throw new Error('No viewer.');
+        },
+      },
+      operations: [
+        { document: parse('{ viewer }') },
+        { document: parse('{ user(id: "1") { id } }') },
+        { document: parse('query ($id: ID!) { user(id: $id) { id } }') },
+      ],
+    });
+
+    expectJSON(results).toDeepEqual([
+      {
+        data: { viewer: null },
+        errors: [
+          {
+            message: 'No viewer.',
+            locations: [{ line: 1, column: 3 }],
+            path: ['viewer'],
+          },
+        ],
+      },
+      { data: { user: { id: '1' } } },
+      {
+        errors: [
+          {
+            message: 'Variable "$id" of required type "ID!" was not provided.',
+            locations: [{ line: 1, column: 8 }],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              variableName: 'id',
+              path: [],
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('reports the operations failing to execute in their results', () => {
+    const results = executeBatch({
+      schema,
+      rootValue,
+      contextValue: { viewer: 'Alice' },
+      operations: [
+        { document: parse('{ viewer }') },
+        {
+          document: parse('query ($id: ID!) { user(id: $id) { id } }'),
+          // @ts-expect-error
+          variableValues: '{ "id": "1" }',
+        },
+      ],
+    });
+
+    expectJSON(results).toDeepEqual([
+      { data: { viewer: 'Alice' } },
+      {
+        errors: [
+          {
+            message:
+              'Variables must be provided as an Object where each property is a variable value. Perhaps look to see if an unparsed JSON string was provided.',
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('graphqlBatch', () => {
+  it('parses, validates and executes every request', async () => {
+    batches.length = 0;
+
+    const results = await graphqlBatch({
+      schema,
+      rootValue,
+      contextValue: { viewer: 'Alice' },
+      requests: [
+        {
+          source: 'query ($id: ID!) { user(id: $id) { name } }',
+          variableValues: { id: '1' },
+        },
+        { source: '{ user(id: "2") { name } viewer }' },
+        { source: '{ unknown }' },
+        { source: '{' },
+      ],
+    });
+
+    expectJSON(results).toDeepEqual([
+      { data: { user: { name: 'User 1' } } },
+      { data: { user: { name: 'User 2' }, viewer: 'Alice' } },
+      {
+        errors: [
+          {
+            message: 'Cannot query field "unknown" on type "Query".',
+            locations: [{ line: 1, column: 3 }],
+          },
+        ],
+      },
+      {
+        errors: [
+          {
+            message: 'Syntax Error: Expected Name, found <EOF>.',
+            locations: [{ line: 1, column: 2 }],
+          },
+        ],
+      },
+    ]);
+    expect(batches).to.deep.equal([['1', '2']]);
+  });
+
+  it('reports the requests failing to execute in their results', async () => {
+    const results = await graphqlBatch({
+      schema,
+      rootValue,
+      contextValue: { viewer: 'Alice' },
+      requests: [
+        { source: '{ viewer }' },
+        {
+          source: 'query ($id: ID!) { user(id: $id) { id } }',
+          // @ts-expect-error
+          variableValues: '{ "id": "1" }',
+        },
+      ],
+    });
+
+    expectJSON(results).toDeepEqual([
+      { data: { viewer: 'Alice' } },
+      {
+        errors: [
+          {
+            message:
+              'Variables must be provided as an Object where each property is a variable value. Perhaps look to see if an unparsed JSON string was provided.',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('resolves to an empty list for an empty batch', async () => {
+    expect(await graphqlBatch({ schema, requests: [] })).to.deep.equal([]);
+  });
+});
@@ -21,6 +21,7 @@ import {
 } from '../../type/definition';
 
 import { execute, executeSync } from '../execute';
+import { BatchLoaderRegistry } from '../BatchLoader';
 
 describe('Execute: Handles basic execution tasks', () => {
   it('throws if no document is provided', () => {
@@ -262,6 +263,10 @@ describe('Execute: Handles basic execution tasks', () => {
       'rootValue',
       'operation',
       'variableValues',
+      'abortSignal',
+      'loaders',
+      'invalidationKeys',
+      'addExtension',
     );
 
     const operation = document.definitions[0];
@@ -274,6 +279,7 @@ describe('Execute: Handles basic execution tasks', () => {
       schema,
       rootValue,
       operation,
+      abortSignal: undefined,
     });
 
     const field = operation.selectionSet.selections[0];
@@ -282,6 +288,9 @@ describe('Execute: Handles basic execution tasks', () => {
       path: { prev: undefined, key: 'result', typename: 'Test' },
       variableValues: { var: 'abc' },
     });
+    expect(resolvedInfo)
+      .to.have.property('loaders')
+      .that.is.an.instanceOf(BatchLoaderRegistry);
   });
 
   it('populates path correctly with complex types', () => {
@@ -755,7 +764,12 @@ describe('Execute: Handles basic execution tasks', () => {
 
     const result = executeSync({ schema, document, rootValue });
     expectJSON(result).toDeepEqual({
-      errors: [{ message: 'Must provide an operation.' }],
+      errors: [
+        {
+          message: 'Must provide an operation.',
+          extensions: { code: 'OPERATION_NOT_FOUND' },
+        },
+      ],
     });
   });
 
@@ -779,6 +793,7 @@ describe('Execute: Handles basic execution tasks', () => {
         {
           message:
             'Must provide operation name if query contains multiple operations.',
+          extensions: { code: 'OPERATION_NAME_REQUIRED' },
         },
       ],
     });
@@ -801,7 +816,15 @@ describe('Execute: Handles basic execution tasks', () => {
 
     const result = executeSync({ schema, document, operationName });
     expectJSON(result).toDeepEqual({
-      errors: [{ message: 'Unknown operation named "UnknownExample".' }],
+      errors: [
+        {
+          message: 'Unknown operation named "UnknownExample".',
+          extensions: {
+            code: 'OPERATION_NOT_FOUND',
+            operationName: 'UnknownExample',
+          },
+        },
+      ],
     });
   });
 
@@ -819,7 +842,12 @@ describe('Execute: Handles basic execution tasks', () => {
 
     const result = executeSync({ schema, document, operationName });
     expectJSON(result).toDeepEqual({
-      errors: [{ message: 'Unknown operation named "".' }],
+      errors: [
+        {
+          message: 'Unknown operation named "".',
+          extensions: { code: 'OPERATION_NOT_FOUND', operationName: '' },
+        },
+      ],
     });
   });
 
@@ -925,6 +953,7 @@ describe('Execute: Handles basic execution tasks', () => {
         {
           message: 'Schema is not configured to execute query operation.',
           locations: [{ line: 2, column: 7 }],
+          extensions: { code: 'OPERATION_NOT_SUPPORTED' },
         },
       ],
     });
@@ -937,6 +966,7 @@ describe('Execute: Handles basic execution tasks', () => {
         {
           message: 'Schema is not configured to execute mutation operation.',
           locations: [{ line: 3, column: 7 }],
+          extensions: { code: 'OPERATION_NOT_SUPPORTED' },
         },
       ],
     });
@@ -950,6 +980,7 @@ describe('Execute: Handles basic execution tasks', () => {
           message:
             'Schema is not configured to execute subscription operation.',
           locations: [{ line: 4, column: 7 }],
+          extensions: { code: 'OPERATION_NOT_SUPPORTED' },
         },
       ],
     });
@@ -1133,6 +1164,7 @@ describe('Execute: Handles basic execution tasks', () => {
             'Expected value of type "SpecialType" but got: { value: "bar" }.',
           locations: [{ line: 1, column: 3 }],
           path: ['specials', 1],
+          extensions: { code: 'INVALID_RETURN_TYPE' },
         },
       ],
     });
@@ -1175,6 +1207,7 @@ describe('Execute: Handles basic execution tasks', () => {
             'Expected `CustomScalar.serialize("CUSTOM_VALUE")` to return non-nullable value, returned: undefined',
           locations: [{ line: 1, column: 3 }],
           path: ['customScalar'],
+          extensions: { code: 'INVALID_LEAF_VALUE' },
         },
       ],
     });
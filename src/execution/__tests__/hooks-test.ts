@@ -0,0 +1,191 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+
+import { parse } from '../../language/parser';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { graphql } from '../../graphql';
+
+import type { ExecutionHooks } from '../execute';
+import { execute, executeSync } from '../execute';
+
+const schema = buildSchema(`
+  type Query {
+    a: String
+    b: String
+    c: String
+    nested: Query
+  }
+`);
+
+function createLoggingHooks(name: string, log: Array<string>): ExecutionHooks {
+  return {
+    onExecute: () => log.push(`${name}: execute`),
+    onOperation: (operation) =>
+      log.push(`${name}: operation ${operation.name?.value}`),
+    onResolve: (field, info) => {
+      const path = `${info.parentType.name}.${field.name}`;
+      log.push(`${name}: resolve ${path}`);
+      return (error, result) =>
+        log.push(
+          error
+            ? `${name}: error ${path} ${(error as Error).message}`
+            : `${name}: done ${path} ${String(result)}`,
+        );
+    },
+    onExecuteDone: (result) =>
+      log.push(`${name}: execute done ${JSON.stringify(result.data)}`),
+  };
+}
+
+describe('Execute: hooks', () => {
+  it('invokes hooks in order around the execution and every resolver', () => {
+    const log: Array<string> = [];
+
+    const result = executeSync({
+      schema,
+      document: parse('query Q { a nested { b } }'),
+      rootValue: { a: 'a', nested: { b: 'b' } },
+      hooks: [
+        createLoggingHooks('first', log),
+        createLoggingHooks('second', log),
+      ],
+    });
+
+    expect(result).to.deep.equal({
+      data: { a: 'a', nested: { b: 'b' } },
+    });
+    expect(log).to.deep.equal([
+      'first: execute',
+      'second: execute',
+      'first: operation Q',
+      'second: operation Q',
+      'first: resolve Query.a',
+      'second: resolve Query.a',
+      'second: done Query.a a',
+      'first: done Query.a a',
+      'first: resolve Query.nested',
+      'second: resolve Query.nested',
+      'second: done Query.nested [object Object]',
+      'first: done Query.nested [object Object]',
+      'first: resolve Query.b',
+      'second: resolve Query.b',
+      'second: done Query.b b',
+      'first: done Query.b b',
+      'first: execute done {"a":"a","nested":{"b":"b"}}',
+      'second: execute done {"a":"a","nested":{"b":"b"}}',
+    ]);
+  });
+
+  it('reports errors and settled promises of resolvers', async () => {
+    const log: Array<string> = [];
+
+    const result = await execute({
+      schema,
+      document: parse('query Q { a b c }'),
+      rootValue: {
+        a: () => Promise.resolve('a'),
+        b: () => Promise.reject(new Error('rejected')),
+        c: () => {
+          throw new Error('thrown');
+        },
+      },
+      hooks: [createLoggingHooks('hooks', log)],
+    });
+
+    expectJSON(result).toDeepEqual({
+      data: { a: 'a', b: null, c: null },
+      errors: [
+        {
+          message: 'thrown',
+          locations: [{ line: 1, column: 15 }],
+          path: ['c'],
+        },
+        {
+          message: 'rejected',
+          locations: [{ line: 1, column: 13 }],
+          path: ['b'],
+        },
+      ],
+    });
+    expect(log).to.deep.equal([
+      'hooks: execute',
+      'hooks: operation Q',
+      'hooks: resolve Query.a',
+      'hooks: resolve Query.b',
+      'hooks: resolve Query.c',
+      'hooks: error Query.c thrown',
+      'hooks: done Query.a a',
+      'hooks: error Query.b rejected',
+      'hooks: execute done {"a":"a","b":null,"c":null}',
+    ]);
+  });
+
+  it('can wrap resolvers without returning a callback', () => {
+    const fieldNames: Array<string> = [];
+
+    const result = executeSync({
+      schema,
+      document: parse('{ a b }'),
+      rootValue: { a: 'a', b: 'b' },
+      hooks: [
+        {
+          onResolve: (field) => {
+            fieldNames.push(field.name);
+            return undefined;
+          },
+        },
+      ],
+    });
+
+    expect(result).to.deep.equal({ data: { a: 'a', b: 'b' } });
+    expect(fieldNames).to.deep.equal(['a', 'b']);
+  });
+
+  it('only invokes execute hooks when the execution context is invalid', () => {
+    const log: Array<string> = [];
+
+    const result = executeSync({
+      schema,
+      document: parse('query Q { a }'),
+      operationName: 'Unknown',
+      hooks: [createLoggingHooks('hooks', log)],
+    });
+
+    expectJSON(result).toDeepEqual({
+      errors: [
+        {
+          message: 'Unknown operation named "Unknown".',
+          extensions: { code: 'OPERATION_NOT_FOUND', operationName: 'Unknown' },
+        },
+      ],
+    });
+    expect(log).to.deep.equal([
+      'hooks: execute',
+      'hooks: execute done undefined',
+    ]);
+  });
+
+  it('passes hooks from graphql()', async () => {
+    const log: Array<string> = [];
+
+    const result = await graphql({
+      schema,
+      source: 'query Q { a }',
+      rootValue: { a: 'a' },
+      hooks: [createLoggingHooks('hooks', log)],
+    });
+
+    expect(result).to.deep.equal({ data: { a: 'a' } });
+    expect(log).to.deep.equal([
+      'hooks: execute',
+      'hooks: operation Q',
+      'hooks: resolve Query.a',
+      'hooks: done Query.a a',
+      'hooks: execute done {"a":"a"}',
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import { parse } from '../../language/parser';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import type { ExecutionLimits } from '../execute';
+import { execute, executeSync } from '../execute';
+
+const schema = buildSchema(`
+  type Query {
+    name: String
+    nonNullName: String!
+    friends: [Query!]
+    promisedFriends: [Query]
+  }
+`);
+
+function createFriend(name: string): unknown {
+  return {
+    name,
+    nonNullName: name,
+    friends: () => [1, 2, 3].map((id) => createFriend(`${name}.${id}`)),
+    promisedFriends: async () => {
+      await resolveOnNextTick();
+      return [1, 2, 3].map((id) => createFriend(`${name}.${id}`));
+    },
+  };
+}
+
+function executeQuery(query: string, limits: ExecutionLimits) {
+  return execute({
+    schema,
+    document: parse(query),
+    rootValue: createFriend('root'),
+    limits,
+  });
+}
+
+describe('Execute: resource limits', () => {
+  it('executes within the limits', () => {
+    const result = executeSync({
+      schema,
+      document: parse('{ friends { name } }'),
+      rootValue: createFriend('x'),
+      limits: { maxResolvedFields: 4, maxListItems: 3, maxResponseSize: 100 },
+    });
+
+    expect(result).to.deep.equal({
+      data: { friends: [{ name: 'x.1' }, { name: 'x.2' }, { name: 'x.3' }] },
+    });
+  });
+
+  it('fails the operation once the resolved fields exceed the limit', () => {
+    const result = executeQuery('{ name friends { friends { name } } }', {
+      maxResolvedFields: 10,
+    });
+
+    expectJSON(result).toDeepEqual({
+      data: null,
+      errors: [
+        {
+          message: 'Execution exceeded the limit of 10 resolved fields.',
+          extensions: { code: 'RESOURCE_LIMIT_EXCEEDED' },
+        },
+      ],
+    });
+  });
+
+  it('fails the operation once the list items exceed the limit', async () => {
+    const result = await executeQuery(
+      '{ promisedFriends { promisedFriends { name } } }',
+      { maxListItems: 10 },
+    );
+
+    expectJSON(result).toDeepEqual({
+      data: null,
+      errors: [
+        {
+          message: 'Execution exceeded the limit of 10 list items.',
+          extensions: { code: 'RESOURCE_LIMIT_EXCEEDED' },
+        },
+      ],
+    });
+  });
+
+  it('fails the operation once the response size exceeds the limit', () => {
+    const query = '{ friends { name } }';
+
+    // "friends" and three times "name" with a quoted value of 8 characters
+    const responseSize = 7 + 3 * (4 + 8);
+
+    expect(
+      executeQuery(query, { maxResponseSize: responseSize }),
+    ).to.deep.equal({
+      data: {
+        friends: [{ name: 'root.1' }, { name: 'root.2' }, { name: 'root.3' }],
+      },
+    });
+    expectJSON(
+      executeQuery(query, { maxResponseSize: responseSize - 1 }),
+    ).toDeepEqual({
+      data: null,
+      errors: [
+        {
+          message:
+            'Execution exceeded the limit of 42 characters of response data.',
+          extensions: { code: 'RESOURCE_LIMIT_EXCEEDED' },
+        },
+      ],
+    });
+  });
+
+  it('fails the operation even when errors are not propagated', () => {
+    const result = execute({
+      schema,
+      document: parse('{ friends { nonNullName } }'),
+      rootValue: createFriend('root'),
+      limits: { maxResolvedFields: 2 },
+      errorPropagation: false,
+    });
+
+    expectJSON(result).toDeepEqual({
+      data: null,
+      errors: [
+        {
+          message: 'Execution exceeded the limit of 2 resolved fields.',
+          extensions: { code: 'RESOURCE_LIMIT_EXCEEDED' },
+        },
+      ],
+    });
+  });
+});
@@ -3,10 +3,21 @@ import { describe, it } from 'mocha';
 
 import { expectJSON } from '../../__testUtils__/expectJSON';
 
+import type { PromiseOrValue } from '../../jsutils/PromiseOrValue';
+
 import { parse } from '../../language/parser';
 
+import {
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+} from '../../type/definition';
+import { GraphQLString } from '../../type/scalars';
+import { GraphQLSchema } from '../../type/schema';
+
 import { buildSchema } from '../../utilities/buildASTSchema';
 
+import type { ExecutionResult } from '../execute';
 import { execute, executeSync } from '../execute';
 
 describe('Execute: Accepts any iterable as list value', () => {
@@ -60,9 +71,166 @@ describe('Execute: Accepts any iterable as list value', () => {
             'Expected Iterable, but did not find one for field "Query.listField".',
           locations: [{ line: 1, column: 3 }],
           path: ['listField'],
+          extensions: { code: 'INVALID_LIST_VALUE' },
+        },
+      ],
+    });
+  });
+});
+
+describe('Execute: Accepts async iterables as list value', () => {
+  function complete(rootValue: unknown, as: string = '[String]') {
+    return execute({
+      schema: buildSchema(`type Query { listField: ${as} }`),
+      document: parse('{ listField }'),
+      rootValue,
+    });
+  }
+
+  function completeObjectList(
+    resolve: (obj: { index: number }) => unknown,
+  ): PromiseOrValue<ExecutionResult> {
+    const schema = new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: 'Query',
+        fields: {
+          listField: {
+            resolve: async function* listField() {
+              yield await Promise.resolve({ index: 0 });
+              yield await Promise.resolve({ index: 1 });
+              yield await Promise.resolve({ index: 2 });
+            },
+            type: new GraphQLList(
+              new GraphQLObjectType({
+                name: 'ObjectWrapper',
+                fields: {
+                  index: {
+                    type: new GraphQLNonNull(GraphQLString),
+                    resolve,
+                  },
+                },
+              }),
+            ),
+          },
+        },
+      }),
+    });
+    return execute({
+      schema,
+      document: parse('{ listField { index } }'),
+    });
+  }
+
+  it('Accepts an AsyncGenerator function as a List value', async () => {
+    async function* listField() {
+      yield await Promise.resolve('two');
+      yield await Promise.resolve(4);
+      yield await Promise.resolve(false);
+    }
+
+    expectJSON(await complete({ listField })).toDeepEqual({
+      data: { listField: ['two', '4', 'false'] },
+    });
+  });
+
+  it('Handles an AsyncGenerator function that throws', async () => {
+    async function* listField() {
+      yield await Promise.resolve('two');
+      yield await Promise.resolve(4);
+      throw new Error('bad');
+    }
+
+    expectJSON(await complete({ listField })).toDeepEqual({
+      data: { listField: ['two', '4', null] },
+      errors: [
+        {
+          message: 'bad',
+          locations: [{ line: 1, column: 3 }],
+          path: ['listField', 2],
+        },
+      ],
+    });
+  });
+
+  it('Handles errors from `completeValue` in AsyncIterables', async () => {
+    async function* listField() {
+      yield await Promise.resolve('two');
+      yield await Promise.resolve({});
+    }
+
+    expectJSON(await complete({ listField })).toDeepEqual({
+      data: { listField: ['two', null] },
+      errors: [
+        {
+          message: 'String cannot represent value: {}',
+          locations: [{ line: 1, column: 3 }],
+          path: ['listField', 1],
+          extensions: { code: 'INVALID_LEAF_VALUE' },
+        },
+      ],
+    });
+  });
+
+  it('Handles promises from `completeValue` in AsyncIterables', async () => {
+    expectJSON(
+      await completeObjectList(({ index }) => Promise.resolve(index)),
+    ).toDeepEqual({
+      data: { listField: [{ index: '0' }, { index: '1' }, { index: '2' }] },
+    });
+  });
+
+  it('Handles rejected promises from `completeValue` in AsyncIterables', async () => {
+    expectJSON(
+      await completeObjectList(({ index }) => {
+        if (index === 2) {
+          return Promise.reject(new Error('bad'));
+        }
+        return Promise.resolve(index);
+      }),
+    ).toDeepEqual({
+      data: { listField: [{ index: '0' }, { index: '1' }, null] },
+      errors: [
+        {
+          message: 'bad',
+          locations: [{ line: 1, column: 15 }],
+          path: ['listField', 2, 'index'],
+        },
+      ],
+    });
+  });
+
+  it('Closes the AsyncIterable once a null propagates to the list', async () => {
+    let didReturn = false;
+    const listField = {
+      [Symbol.asyncIterator]() {
+        let index = 0;
+        return {
+          next: () =>
+            Promise.resolve(
+              index++ < 2
+                ? { value: index === 1 ? 'one' : null, done: false }
+                : { value: undefined, done: true },
+            ),
+          return: () => {
+            didReturn = true;
+            return Promise.resolve({ value: undefined, done: true });
+          },
+        };
+      },
+    };
+
+    expectJSON(await complete({ listField }, '[String!]')).toDeepEqual({
+      data: { listField: null },
+      errors: [
+        {
+          message: 'Cannot return null for non-nullable field Query.listField.',
+          locations: [{ line: 1, column: 3 }],
+          path: ['listField', 1],
+          extensions: { code: 'NON_NULL_VIOLATION' },
         },
       ],
     });
+    expect(didReturn).to.equal(true);
   });
 });
 
@@ -122,6 +290,7 @@ describe('Execute: Handles list nullability', () => {
         message: 'Cannot return null for non-nullable field Query.listField.',
         locations: [{ line: 1, column: 3 }],
         path: ['listField', 1],
+        extensions: { code: 'NON_NULL_VIOLATION' },
       },
     ];
 
@@ -148,6 +317,7 @@ describe('Execute: Handles list nullability', () => {
         message: 'Cannot return null for non-nullable field Query.listField.',
         locations: [{ line: 1, column: 3 }],
         path: ['listField'],
+        extensions: { code: 'NON_NULL_VIOLATION' },
       },
     ];
 
@@ -0,0 +1,375 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import type { AbortSignalLike } from '../../jsutils/AbortSignalLike';
+import { invariant } from '../../jsutils/invariant';
+import { isAsyncIterable } from '../../jsutils/isAsyncIterable';
+
+import { parse } from '../../language/parser';
+
+import type { GraphQLResolveInfo } from '../../type/definition';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { InvalidationStore } from '../InvalidationStore';
+import type { LiveQueryArgs } from '../subscribe';
+import { executeLiveQuery } from '../subscribe';
+
+const schema = buildSchema(`
+  directive @live(if: Boolean! = true) on QUERY
+
+  type Query {
+    user(id: ID!): User
+    users: [User]
+  }
+
+  type User {
+    id: ID
+    name: String
+  }
+`);
+
+interface User {
+  id: string;
+  name: string;
+}
+
+function createRootValue(users: Array<User>) {
+  return {
+    user({ id }: { id: string }, _context: unknown, info: GraphQLResolveInfo) {
+      info.invalidationKeys?.add(`User:${id}`);
+      return users.find((user) => user.id === id);
+    },
+    users(_args: unknown, _context: unknown, info: GraphQLResolveInfo) {
+      info.invalidationKeys?.add('Query.users');
+      return users;
+    },
+  };
+}
+
+async function executeLive(
+  query: string,
+  args: Omit<LiveQueryArgs, 'schema' | 'document'>,
+) {
+  const result = await executeLiveQuery({
+    schema,
+    document: parse(query),
+    ...args,
+  });
+  invariant(isAsyncIterable(result));
+  return result;
+}
+
+describe('Execute: live queries', () => {
+  it('executes again once a key read by a resolver is invalidated', async () => {
+    const users = [{ id: '1', name: 'Alice' }];
+    const invalidationStore = new InvalidationStore();
+    const liveQuery = await executeLive(
+      'query @live { user(id: "1") { name } }',
+      {
+        rootValue: createRootValue(users),
+        invalidationStore,
+      },
+    );
+
+    expect(await liveQuery.next()).to.deep.equal({
+      value: { data: { user: { name: 'Alice' } } },
+      done: false,
+    });
+
+    const nextResult = liveQuery.next();
+    invalidationStore.invalidate('User:2');
+    users[0].name = 'Bob';
+    invalidationStore.invalidate(['User:1']);
+
+    expect(await nextResult).to.deep.equal({
+      value: { data: { user: { name: 'Bob' } } },
+      done: false,
+    });
+
+    expect(await liveQuery.return()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+    expect(await liveQuery.next()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it('coalesces the invalidations occurring between executions', async () => {
+    const users = [{ id: '1', name: 'Alice' }];
+    const invalidationStore = new InvalidationStore();
+    const rootValue = createRootValue(users);
+    let executions = 0;
+    const liveQuery = await executeLive('query @live { users { name } }', {
+      rootValue: {
+        users(_args: unknown, _context: unknown, info: GraphQLResolveInfo) {
+          executions += 1;
+          return rootValue.users(_args, _context, info);
+        },
+      },
+      invalidationStore,
+    });
+
+    await liveQuery.next();
+    users.push({ id: '2', name: 'Bob' });
+    invalidationStore.invalidate('Query.users');
+    invalidationStore.invalidate('Query.users');
+
+    expect(await liveQuery.next()).to.deep.equal({
+      value: { data: { users: [{ name: 'Alice' }, { name: 'Bob' }] } },
+      done: false,
+    });
+    expect(executions).to.equal(2);
+
+    await liveQuery.return();
+  });
+
+  it('watches the keys of the latest execution only', async () => {
+    const users = [
+      { id: '1', name: 'Alice' },
+      { id: '2', name: 'Bob' },
+    ];
+    const invalidationStore = new InvalidationStore();
+    const liveQuery = await executeLive(
+      'query ($id: ID!) @live { user(id: $id) { name } }',
+      {
+        rootValue: {
+          user: (
+            _args: unknown,
+            _context: unknown,
+            info: GraphQLResolveInfo,
+          ) => {
+            const user = users.shift();
+            info.invalidationKeys?.add(`User:${user?.id}`);
+            return user;
+          },
+        },
+        variableValues: { id: '1' },
+        invalidationStore,
+      },
+    );
+
+    await liveQuery.next();
+    invalidationStore.invalidate('User:1');
+    expect(await liveQuery.next()).to.deep.equal({
+      value: { data: { user: { name: 'Bob' } } },
+      done: false,
+    });
+
+    let isPending = true;
+    const nextResult = liveQuery.next().finally(() => {
+      isPending = false;
+    });
+    invalidationStore.invalidate('User:1');
+    await resolveOnNextTick();
+    expect(isPending).to.equal(true);
+
+    await liveQuery.return();
+    expect(await nextResult).to.deep.equal({ value: undefined, done: true });
+  });
+
+  it('yields patches of the previous data when requested', async () => {
+    const users = [
+      { id: '1', name: 'Alice' },
+      { id: '2', name: 'Bob' },
+    ];
+    const invalidationStore = new InvalidationStore();
+    const liveQuery = await executeLive('query @live { users { id name } }', {
+      rootValue: createRootValue(users),
+      invalidationStore,
+      patches: true,
+    });
+
+    expect(await liveQuery.next()).to.deep.equal({
+      value: {
+        data: {
+          users: [
+            { id: '1', name: 'Alice' },
+            { id: '2', name: 'Bob' },
+          ],
+        },
+      },
+      done: false,
+    });
+
+    users[1].name = 'Carol';
+    invalidationStore.invalidate('Query.users');
+    expect(await liveQuery.next()).to.deep.equal({
+      value: { patches: [{ path: ['users', 1, 'name'], value: 'Carol' }] },
+      done: false,
+    });
+
+    users.pop();
+    invalidationStore.invalidate('Query.users');
+    expect(await liveQuery.next()).to.deep.equal({
+      value: {
+        patches: [{ path: ['users'], value: [{ id: '1', name: 'Alice' }] }],
+      },
+      done: false,
+    });
+
+    invalidationStore.invalidate('Query.users');
+    expect(await liveQuery.next()).to.deep.equal({
+      value: { patches: [] },
+      done: false,
+    });
+
+    await liveQuery.return();
+  });
+
+  it('includes the errors of the execution in patch results', async () => {
+    const invalidationStore = new InvalidationStore();
+    let name: unknown = 'Alice';
+    const liveQuery = await executeLive(
+      'query @live { user(id: "1") { name } }',
+      {
+        rootValue: {
+          user: (
+            _args: unknown,
+            _context: unknown,
+            info: GraphQLResolveInfo,
+          ) => {
+            info.invalidationKeys?.add('User:1');
+            return { name: () => name };
+          },
+        },
+        invalidationStore,
+        patches: true,
+      },
+    );
+
+    await liveQuery.next();
+    name = new Error('Name is unavailable.');
+    invalidationStore.invalidate('User:1');
+
+    expectJSON(await liveQuery.next()).toDeepEqual({
+      value: {
+        patches: [{ path: ['user', 'name'], value: null }],
+        errors: [
+          {
+            message: 'Name is unavailable.',
+            locations: [{ line: 1, column: 31 }],
+            path: ['user', 'name'],
+          },
+        ],
+      },
+      done: false,
+    });
+
+    await liveQuery.return();
+  });
+
+  it('closes the live query once aborted', async () => {
+    const invalidationStore = new InvalidationStore();
+    const abortController = new AbortController();
+    const liveQuery = await executeLive('query @live { users { name } }', {
+      rootValue: createRootValue([]),
+      invalidationStore,
+      abortSignal: abortController.signal as AbortSignalLike,
+    });
+
+    await liveQuery.next();
+    const nextResult = liveQuery.next();
+    abortController.abort();
+
+    expect(await nextResult).to.deep.equal({ value: undefined, done: true });
+  });
+
+  it('closes the live query once thrown', async () => {
+    const invalidationStore = new InvalidationStore();
+    const liveQuery = await executeLive('query @live { users { name } }', {
+      rootValue: createRootValue([]),
+      invalidationStore,
+    });
+
+    await liveQuery.next();
+    const nextResult = liveQuery.next();
+
+    const error = new Error('Closed.');
+    let caughtError;
+    try {
+      await liveQuery.throw(error);
+    } catch (e) {
+      caughtError = e;
+    }
+    expect(caughtError).to.equal(error);
+
+    expect(await nextResult).to.deep.equal({ value: undefined, done: true });
+    invalidationStore.invalidate('Query.users');
+    expect(await liveQuery.next()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it('executes queries which are not live once', () => {
+    const invalidationStore = new InvalidationStore();
+    const rootValue = createRootValue([{ id: '1', name: 'Alice' }]);
+
+    expect(
+      executeLiveQuery({
+        schema,
+        document: parse('{ user(id: "1") { name } }'),
+        rootValue,
+        invalidationStore,
+      }),
+    ).to.deep.equal({ data: { user: { name: 'Alice' } } });
+
+    expect(
+      executeLiveQuery({
+        schema,
+        document: parse(
+          'query ($live: Boolean!) @live(if: $live) { users { id } }',
+        ),
+        rootValue,
+        variableValues: { live: false },
+        invalidationStore,
+      }),
+    ).to.deep.equal({ data: { users: [{ id: '1' }] } });
+  });
+
+  it('ignores the @live directive when the schema does not define it', () => {
+    const result = executeLiveQuery({
+      schema: buildSchema('type Query { value: String }'),
+      document: parse('query @live { value }'),
+      rootValue: { value: 'value' },
+      invalidationStore: new InvalidationStore(),
+    });
+
+    expect(result).to.deep.equal({ data: { value: 'value' } });
+  });
+
+  it('returns the errors of invalid arguments', () => {
+    const result = executeLiveQuery({
+      schema,
+      document: parse('query ($id: ID!) @live { user(id: $id) { name } }'),
+      invalidationStore: new InvalidationStore(),
+    });
+
+    expectJSON(result).toDeepEqual({
+      errors: [
+        {
+          message: 'Variable "$id" of required type "ID!" was not provided.',
+          locations: [{ line: 1, column: 8 }],
+          extensions: { code: 'BAD_USER_INPUT', variableName: 'id', path: [] },
+        },
+      ],
+    });
+  });
+
+  it('throws on invalid arguments', () => {
+    expect(() =>
+      executeLiveQuery({
+        // @ts-expect-error (schema must not be null)
+        schema: null,
+        document: parse('query @live { users { id } }'),
+        invalidationStore: new InvalidationStore(),
+      }),
+    ).to.throw('Expected null to be a GraphQL schema.');
+  });
+});
@@ -1,8 +1,15 @@
 import { expect } from 'chai';
 import { describe, it } from 'mocha';
 
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import type { AbortSignalLike } from '../../jsutils/AbortSignalLike';
+
+import type { EventStreamBufferOverflow } from '../mapAsyncIterator';
 import { mapAsyncIterator } from '../mapAsyncIterator';
 
+import { SimplePubSub } from './simplePubSub';
+
 /* eslint-disable @typescript-eslint/require-await */
 describe('mapAsyncIterator', () => {
   it('maps over async generator', async () => {
@@ -279,6 +286,32 @@ describe('mapAsyncIterator', () => {
       .with.property('message', 'Goodbye');
   });
 
+  it('maps over thrown errors with an error callback', async () => {
+    let count = 0;
+    const source = {
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+      next() {
+        count += 1;
+        return count === 2
+          ? Promise.reject(new Error('Skipped ' + count))
+          : Promise.resolve({ value: count, done: false });
+      },
+    };
+
+    const doubles = mapAsyncIterator(source, (x) => String(x + x), {
+      errorCallback: (error) => (error as Error).message,
+    });
+
+    expect(await doubles.next()).to.deep.equal({ value: '2', done: false });
+    expect(await doubles.next()).to.deep.equal({
+      value: 'Skipped 2',
+      done: false,
+    });
+    expect(await doubles.next()).to.deep.equal({ value: '6', done: false });
+  });
+
   async function testClosesSourceWithMapper<T>(mapper: (value: number) => T) {
     let didVisitFinally = false;
 
@@ -334,4 +367,243 @@ describe('mapAsyncIterator', () => {
         : Promise.resolve(x),
     );
   });
+
+  it('closes source when the abort signal fires', async () => {
+    let didVisitFinally = false;
+
+    async function* source() {
+      try {
+        yield 1;
+        yield 2;
+      } finally {
+        didVisitFinally = true;
+      }
+    }
+
+    const abortController = new AbortController();
+    const doubles = mapAsyncIterator(source(), (x) => x + x, {
+      abortSignal: abortController.signal as AbortSignalLike,
+    });
+
+    expect(await doubles.next()).to.deep.equal({ value: 2, done: false });
+
+    abortController.abort();
+
+    expect(await doubles.next()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+    expect(didVisitFinally).to.equal(true);
+  });
+
+  it('completes immediately when the abort signal has already fired', async () => {
+    async function* source() {
+      yield 1;
+    }
+
+    const abortController = new AbortController();
+    abortController.abort();
+    const doubles = mapAsyncIterator(source(), (x) => x + x, {
+      abortSignal: abortController.signal as AbortSignalLike,
+    });
+
+    expect(await doubles.next()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  async function emitWhileConsumerIsSlow(
+    bufferOverflow: EventStreamBufferOverflow,
+  ) {
+    const pubsub = new SimplePubSub<number>();
+    const doubles = mapAsyncIterator(
+      pubsub.getSubscriber((x) => x),
+      (x) => x + x,
+      { maxBufferSize: 2, bufferOverflow },
+    );
+
+    const firstResult = doubles.next();
+    for (const value of [1, 2, 3, 4]) {
+      pubsub.emit(value);
+      // eslint-disable-next-line no-await-in-loop
+      await resolveOnNextTick();
+    }
+    expect(await firstResult).to.deep.equal({ value: 2, done: false });
+
+    return { pubsub, doubles };
+  }
+
+  it('drops the oldest buffered events for a slow consumer', async () => {
+    const { doubles } = await emitWhileConsumerIsSlow('dropOldest');
+
+    expect(await doubles.next()).to.deep.equal({ value: 6, done: false });
+    expect(await doubles.next()).to.deep.equal({ value: 8, done: false });
+  });
+
+  it('drops the newest events for a slow consumer', async () => {
+    const { doubles } = await emitWhileConsumerIsSlow('dropNewest');
+
+    expect(await doubles.next()).to.deep.equal({ value: 4, done: false });
+    expect(await doubles.next()).to.deep.equal({ value: 6, done: false });
+  });
+
+  it('fails and closes the source once the buffer overflows', async () => {
+    const { pubsub, doubles } = await emitWhileConsumerIsSlow('error');
+
+    expect(pubsub.emit(5)).to.equal(false);
+    expect(await doubles.next()).to.deep.equal({ value: 4, done: false });
+    expect(await doubles.next()).to.deep.equal({ value: 6, done: false });
+
+    let caughtError;
+    try {
+      await doubles.next();
+    } catch (e) {
+      caughtError = e;
+    }
+    expect(caughtError)
+      .to.be.an.instanceOf(Error)
+      .with.property(
+        'message',
+        'Event stream buffer exceeded the limit of 2 events.',
+      );
+    expect(await doubles.next()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  async function failWhileConsumerIsSlow(
+    bufferOverflow: EventStreamBufferOverflow,
+  ) {
+    async function* source() {
+      yield 1;
+      yield 2;
+      yield 3;
+      throw new Error('Source failed.');
+    }
+
+    const doubles = mapAsyncIterator(source(), (x) => x + x, {
+      maxBufferSize: 2,
+      bufferOverflow,
+    });
+
+    expect(await doubles.next()).to.deep.equal({ value: 2, done: false });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      // eslint-disable-next-line no-await-in-loop
+      results.push(await doubles.next().catch((error) => error.message));
+    }
+    return results;
+  }
+
+  it('drops a buffered event instead of the source error', async () => {
+    expect(await failWhileConsumerIsSlow('dropNewest')).to.deep.equal([
+      { value: 4, done: false },
+      'Source failed.',
+      { value: undefined, done: true },
+    ]);
+    expect(await failWhileConsumerIsSlow('error')).to.deep.equal([
+      { value: 6, done: false },
+      'Source failed.',
+      { value: undefined, done: true },
+    ]);
+  });
+
+  it('maps the buffered events up to the given concurrency', async () => {
+    async function* source() {
+      yield 1;
+      yield 2;
+      yield 3;
+      yield 4;
+    }
+
+    let mappingCount = 0;
+    let maxMappingCount = 0;
+    const doubles = mapAsyncIterator(
+      source(),
+      async (x) => {
+        mappingCount++;
+        maxMappingCount = Math.max(maxMappingCount, mappingCount);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        mappingCount--;
+        return x + x;
+      },
+      { maxConcurrency: 2 },
+    );
+
+    expect(await doubles.next()).to.deep.equal({ value: 2, done: false });
+
+    expect(await doubles.next()).to.deep.equal({ value: 4, done: false });
+    expect(await doubles.next()).to.deep.equal({ value: 6, done: false });
+    expect(await doubles.next()).to.deep.equal({ value: 8, done: false });
+    expect(await doubles.next()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+    expect(maxMappingCount).to.equal(2);
+  });
+
+  it('closes the source of buffered events on return', async () => {
+    const pubsub = new SimplePubSub<number>();
+    const doubles = mapAsyncIterator(
+      pubsub.getSubscriber((x) => x),
+      (x) => x + x,
+      { maxBufferSize: 10 },
+    );
+
+    const firstResult = doubles.next();
+    pubsub.emit(1);
+    expect(await firstResult).to.deep.equal({ value: 2, done: false });
+
+    expect(await doubles.return()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+    expect(pubsub.emit(2)).to.equal(false);
+    expect(await doubles.next()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it('removes the abort listener once the buffered source is done', async () => {
+    async function* source() {
+      yield 1;
+    }
+
+    const listeners = new Set<() => void>();
+    const abortSignal: AbortSignalLike = {
+      aborted: false,
+      addEventListener: (_type, listener) => listeners.add(listener),
+      removeEventListener: (_type, listener) => listeners.delete(listener),
+    };
+    const doubles = mapAsyncIterator(source(), (x) => x + x, {
+      abortSignal,
+      maxBufferSize: 10,
+    });
+    expect(listeners.size).to.equal(1);
+
+    expect(await doubles.next()).to.deep.equal({ value: 2, done: false });
+    expect(await doubles.next()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+    expect(listeners.size).to.equal(0);
+  });
+
+  it('rejects invalid buffer options', () => {
+    async function* source() {
+      yield 1;
+    }
+
+    expect(() =>
+      mapAsyncIterator(source(), (x) => x, { maxBufferSize: 0 }),
+    ).to.throw('maxBufferSize must be a positive number.');
+    expect(() =>
+      mapAsyncIterator(source(), (x) => x, { maxConcurrency: 0 }),
+    ).to.throw('maxConcurrency must be a positive number.');
+  });
 });
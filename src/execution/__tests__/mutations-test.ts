@@ -11,6 +11,7 @@ import { GraphQLInt } from '../../type/scalars';
 import { GraphQLSchema } from '../../type/schema';
 import { GraphQLObjectType } from '../../type/definition';
 
+import type { ExecutionHooks } from '../execute';
 import { execute, executeSync } from '../execute';
 
 class NumberHolder {
@@ -192,4 +193,114 @@ describe('Execute: Handles mutation execution ordering', () => {
       ],
     });
   });
+
+  it('invokes the mutation hooks around the root fields', async () => {
+    const document = parse(`
+      mutation M {
+        first: promiseToChangeTheNumber(newNumber: 1) {
+          theNumber
+        },
+        second: failToChangeTheNumber(newNumber: 2) {
+          theNumber
+        }
+      }
+    `);
+
+    const calls: Array<unknown> = [];
+    const rootValue = new Root(6);
+    const hooks: ExecutionHooks = {
+      async onMutationStart(operation) {
+        await resolveOnNextTick();
+        calls.push([
+          'start',
+          operation.name?.value,
+          rootValue.numberHolder.theNumber,
+        ]);
+      },
+      onMutationFieldSettled(path, errors) {
+        calls.push(['field', path.key, errors.map((error) => error.path)]);
+      },
+      onMutationEnd(errors) {
+        calls.push(['end', errors.map((error) => error.message)]);
+      },
+    };
+    const result = await execute({
+      schema,
+      document,
+      rootValue,
+      hooks: [hooks],
+    });
+
+    expect(result.data).to.deep.equal({
+      first: { theNumber: 1 },
+      second: null,
+    });
+    expect(calls).to.deep.equal([
+      ['start', 'M', 6],
+      ['field', 'first', []],
+      ['field', 'second', [['second']]],
+      ['end', ['Cannot change the number']],
+    ]);
+  });
+
+  it('stops executing the mutation after the first error', () => {
+    const document = parse(`
+      mutation M {
+        first: immediatelyChangeTheNumber(newNumber: 1) {
+          theNumber
+        },
+        second: failToChangeTheNumber(newNumber: 2) {
+          theNumber
+        }
+        third: immediatelyChangeTheNumber(newNumber: 3) {
+          theNumber
+        }
+      }
+    `);
+
+    const settledFields: Array<unknown> = [];
+    const rootValue = new Root(6);
+    const result = executeSync({
+      schema,
+      document,
+      rootValue,
+      hooks: [
+        {
+          onMutationFieldSettled(path) {
+            settledFields.push(path.key);
+          },
+        },
+      ],
+      stopOnFirstMutationError: true,
+    });
+
+    expectJSON(result).toDeepEqual({
+      data: {
+        first: { theNumber: 1 },
+        second: null,
+        third: null,
+      },
+      errors: [
+        {
+          message: 'Cannot change the number',
+          locations: [{ line: 6, column: 9 }],
+          path: ['second'],
+        },
+        {
+          message:
+            'Field "Mutation.immediatelyChangeTheNumber" was not executed because a previous field raised an error.',
+          locations: [{ line: 9, column: 9 }],
+          path: ['third'],
+          extensions: { code: 'MUTATION_FIELD_SKIPPED' },
+        },
+      ],
+    });
+    expect(Object.keys(result.data ?? {})).to.deep.equal([
+      'first',
+      'second',
+      'third',
+    ]);
+    expect(settledFields).to.deep.equal(['first', 'second']);
+    expect(rootValue.numberHolder.theNumber).to.equal(1);
+  });
 });
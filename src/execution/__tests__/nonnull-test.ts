@@ -8,9 +8,15 @@ import { parse } from '../../language/parser';
 import { GraphQLSchema } from '../../type/schema';
 import { GraphQLString } from '../../type/scalars';
 import { GraphQLNonNull, GraphQLObjectType } from '../../type/definition';
+import {
+  GraphQLDisableErrorPropagationDirective,
+  specifiedDirectives,
+} from '../../type/directives';
 
 import { buildSchema } from '../../utilities/buildASTSchema';
 
+import { validate } from '../../validation/validate';
+
 import type { ExecutionResult } from '../execute';
 import { execute, executeSync } from '../execute';
 
@@ -185,6 +191,7 @@ describe('Execute: handles non-nullable types', () => {
               'Cannot return null for non-nullable field DataType.syncNonNull.',
             path: ['syncNest', 'syncNonNull'],
             locations: [{ line: 4, column: 11 }],
+            extensions: { code: 'NON_NULL_VIOLATION' },
           },
         ],
       });
@@ -385,6 +392,7 @@ describe('Execute: handles non-nullable types', () => {
               'syncNonNull',
             ],
             locations: [{ line: 8, column: 19 }],
+            extensions: { code: 'NON_NULL_VIOLATION' },
           },
           {
             message:
@@ -398,6 +406,7 @@ describe('Execute: handles non-nullable types', () => {
               'syncNonNull',
             ],
             locations: [{ line: 19, column: 19 }],
+            extensions: { code: 'NON_NULL_VIOLATION' },
           },
           {
             message:
@@ -411,6 +420,7 @@ describe('Execute: handles non-nullable types', () => {
               'promiseNonNull',
             ],
             locations: [{ line: 30, column: 19 }],
+            extensions: { code: 'NON_NULL_VIOLATION' },
           },
           {
             message:
@@ -424,6 +434,7 @@ describe('Execute: handles non-nullable types', () => {
               'promiseNonNull',
             ],
             locations: [{ line: 41, column: 19 }],
+            extensions: { code: 'NON_NULL_VIOLATION' },
           },
         ],
       });
@@ -504,6 +515,7 @@ describe('Execute: handles non-nullable types', () => {
               'Cannot return null for non-nullable field DataType.syncNonNull.',
             path: ['syncNonNull'],
             locations: [{ line: 3, column: 9 }],
+            extensions: { code: 'NON_NULL_VIOLATION' },
           },
         ],
       });
@@ -524,6 +536,89 @@ describe('Execute: handles non-nullable types', () => {
     });
   });
 
+  describe('keeps the null at the error position if propagation is disabled', () => {
+    const query = `
+      query @experimental_disableErrorPropagation {
+        syncNest {
+          syncNonNull
+          promiseNonNull
+          sync
+        }
+        syncNonNull
+      }
+    `;
+
+    const expected = {
+      data: {
+        syncNest: { syncNonNull: null, promiseNonNull: null, sync: null },
+        syncNonNull: null,
+      },
+      errors: [
+        {
+          message:
+            'Cannot return null for non-nullable field DataType.syncNonNull.',
+          path: ['syncNest', 'syncNonNull'],
+          locations: [{ line: 4, column: 11 }],
+          extensions: { code: 'NON_NULL_VIOLATION' },
+        },
+        {
+          message:
+            'Cannot return null for non-nullable field DataType.syncNonNull.',
+          path: ['syncNonNull'],
+          locations: [{ line: 8, column: 9 }],
+          extensions: { code: 'NON_NULL_VIOLATION' },
+        },
+        {
+          message:
+            'Cannot return null for non-nullable field DataType.promiseNonNull.',
+          path: ['syncNest', 'promiseNonNull'],
+          locations: [{ line: 5, column: 11 }],
+          extensions: { code: 'NON_NULL_VIOLATION' },
+        },
+      ],
+    };
+
+    it('with the errorPropagation option', async () => {
+      const result = await execute({
+        schema,
+        document: parse(query),
+        rootValue: nullingData,
+        errorPropagation: false,
+      });
+      expectJSON(result).toDeepEqual(expected);
+    });
+
+    it('with the @experimental_disableErrorPropagation directive', async () => {
+      const schemaWithDirective = new GraphQLSchema({
+        ...schema.toConfig(),
+        directives: [
+          ...specifiedDirectives,
+          GraphQLDisableErrorPropagationDirective,
+        ],
+      });
+      expect(validate(schemaWithDirective, parse(query))).to.deep.equal([]);
+
+      const result = await execute({
+        schema: schemaWithDirective,
+        document: parse(query),
+        rootValue: nullingData,
+      });
+      expectJSON(result).toDeepEqual(expected);
+    });
+
+    it('ignores the directive when the schema does not define it', async () => {
+      const result = await execute({
+        schema,
+        document: parse(query),
+        rootValue: nullingData,
+      });
+      expectJSON(result).toDeepEqual({
+        data: null,
+        errors: [expected.errors[0], expected.errors[1]],
+      });
+    });
+  });
+
   describe('Handles non-null argument', () => {
     const schemaWithNonNullArg = new GraphQLSchema({
       query: new GraphQLObjectType({
@@ -621,6 +716,10 @@ describe('Execute: handles non-nullable types', () => {
               'Argument "cannotBeNull" of required type "String!" was not provided.',
             locations: [{ line: 3, column: 13 }],
             path: ['withNonNullArg'],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              argumentName: 'cannotBeNull',
+            },
           },
         ],
       });
@@ -648,6 +747,10 @@ describe('Execute: handles non-nullable types', () => {
               'Argument "cannotBeNull" of non-null type "String!" must not be null.',
             locations: [{ line: 3, column: 42 }],
             path: ['withNonNullArg'],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              argumentName: 'cannotBeNull',
+            },
           },
         ],
       });
@@ -678,6 +781,11 @@ describe('Execute: handles non-nullable types', () => {
               'Argument "cannotBeNull" of required type "String!" was provided the variable "$testVar" which was not provided a runtime value.',
             locations: [{ line: 3, column: 42 }],
             path: ['withNonNullArg'],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              variableName: 'testVar',
+              argumentName: 'cannotBeNull',
+            },
           },
         ],
       });
@@ -706,6 +814,10 @@ describe('Execute: handles non-nullable types', () => {
               'Argument "cannotBeNull" of non-null type "String!" must not be null.',
             locations: [{ line: 3, column: 43 }],
             path: ['withNonNullArg'],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              argumentName: 'cannotBeNull',
+            },
           },
         ],
       });
@@ -0,0 +1,259 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import { parse } from '../../language/parser';
+
+import {
+  GraphQLList,
+  GraphQLObjectType,
+  GraphQLUnionType,
+} from '../../type/definition';
+import { GraphQLString } from '../../type/scalars';
+import type { GraphQLResolveTypeStrategy } from '../../type/schema';
+import { GraphQLSchema } from '../../type/schema';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { execute, executeSync } from '../execute';
+import {
+  resolveTypeByConstructor,
+  resolveTypeByDiscriminator,
+  resolveTypeByTypename,
+} from '../resolveTypeStrategies';
+
+const schema = buildSchema(`
+  type Query {
+    pets: [Pet]
+  }
+
+  union Pet = Dog | Cat
+
+  type Dog {
+    name: String
+  }
+
+  type Cat {
+    name: String
+  }
+`);
+
+function executeWithStrategies(
+  resolveTypeStrategies: ReadonlyArray<GraphQLResolveTypeStrategy>,
+  pets: ReadonlyArray<unknown>,
+) {
+  return executeSync({
+    schema: new GraphQLSchema({ ...schema.toConfig(), resolveTypeStrategies }),
+    document: parse('{ pets { __typename ... on Dog { name } } }'),
+    rootValue: { pets },
+  });
+}
+
+class Pet {
+  name: string;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+}
+
+class Dog extends Pet {}
+
+class Puppy extends Dog {}
+
+class Cat extends Pet {}
+
+describe('Execute: resolves abstract types with the strategies of the schema', () => {
+  it('resolves runtime types by the given typename field', () => {
+    const result = executeWithStrategies(
+      [resolveTypeByTypename('kind')],
+      [{ kind: 'Dog', name: 'Odie' }, { kind: 'Cat' }],
+    );
+
+    expect(result).to.deep.equal({
+      data: {
+        pets: [{ __typename: 'Dog', name: 'Odie' }, { __typename: 'Cat' }],
+      },
+    });
+  });
+
+  it('resolves runtime types by class constructor', () => {
+    const result = executeWithStrategies(
+      [
+        resolveTypeByConstructor(
+          new Map([
+            [Dog, 'Dog'],
+            [Cat, 'Cat'],
+          ]),
+        ),
+      ],
+      [new Dog('Odie'), new Puppy('Rex'), new Cat('Garfield')],
+    );
+
+    expect(result).to.deep.equal({
+      data: {
+        pets: [
+          { __typename: 'Dog', name: 'Odie' },
+          { __typename: 'Dog', name: 'Rex' },
+          { __typename: 'Cat' },
+        ],
+      },
+    });
+  });
+
+  it('resolves runtime types by discriminator field', () => {
+    const result = executeWithStrategies(
+      [resolveTypeByDiscriminator('species', { 1: 'Dog', 2: 'Cat' })],
+      [
+        { species: 1, name: 'Odie' },
+        { species: 2, name: 'Garfield' },
+      ],
+    );
+
+    expect(result).to.deep.equal({
+      data: {
+        pets: [{ __typename: 'Dog', name: 'Odie' }, { __typename: 'Cat' }],
+      },
+    });
+  });
+
+  it('tries the strategies in order', () => {
+    const result = executeWithStrategies(
+      [resolveTypeByDiscriminator('type'), resolveTypeByTypename()],
+      [
+        { type: 'Dog', name: 'Odie' },
+        { __typename: 'Cat', type: 'unknown' },
+        { __typename: 'Cat' },
+      ],
+    );
+
+    expectJSON(result).toDeepEqual({
+      data: {
+        pets: [
+          { __typename: 'Dog', name: 'Odie' },
+          null,
+          { __typename: 'Cat' },
+        ],
+      },
+      errors: [
+        {
+          message:
+            'Abstract type "Pet" was resolved to a type "unknown" that does not exist inside the schema.',
+          locations: [{ line: 1, column: 3 }],
+          path: ['pets', 1],
+          extensions: { code: 'INVALID_RUNTIME_TYPE' },
+        },
+      ],
+    });
+  });
+});
+
+describe('Execute: memoizes the runtime types of values', () => {
+  const document = parse(`{
+    pets { ... on Dog { name } }
+    pet: pets { __typename }
+  }`);
+
+  it('resolves the runtime type of a value once per request', async () => {
+    const resolvedValues: Array<unknown> = [];
+    const countingStrategy: GraphQLResolveTypeStrategy = (value) => {
+      resolvedValues.push(value);
+      return (value as { type: string }).type;
+    };
+    const countingSchema = new GraphQLSchema({
+      ...schema.toConfig(),
+      resolveTypeStrategies: [countingStrategy],
+    });
+
+    const odie = { type: 'Dog', name: 'Odie' };
+    const garfield = { type: 'Cat', name: 'Garfield' };
+    const rootValue = { pets: () => [odie, garfield, odie] };
+
+    const result = await execute({
+      schema: countingSchema,
+      document,
+      rootValue,
+    });
+
+    expect(result).to.deep.equal({
+      data: {
+        pets: [{ name: 'Odie' }, {}, { name: 'Odie' }],
+        pet: [
+          { __typename: 'Dog' },
+          { __typename: 'Cat' },
+          { __typename: 'Dog' },
+        ],
+      },
+    });
+    expect(resolvedValues).to.deep.equal([odie, garfield]);
+
+    await execute({ schema: countingSchema, document, rootValue });
+    expect(resolvedValues).to.have.lengthOf(4);
+  });
+
+  it('memoizes the pending isTypeOf checks of values', async () => {
+    const isTypeOfCalls: Array<string> = [];
+    function createObjectType(name: string) {
+      return new GraphQLObjectType({
+        name,
+        fields: { name: { type: GraphQLString } },
+        isTypeOf(value: { type: string }) {
+          isTypeOfCalls.push(name);
+          return resolveOnNextTick().then(() => value.type === name);
+        },
+      });
+    }
+
+    const odie = { type: 'Dog', name: 'Odie' };
+    const result = await execute({
+      schema: new GraphQLSchema({
+        query: new GraphQLObjectType({
+          name: 'Query',
+          fields: {
+            pets: {
+              type: new GraphQLList(
+                new GraphQLUnionType({
+                  name: 'Pet',
+                  types: [createObjectType('Dog'), createObjectType('Cat')],
+                }),
+              ),
+            },
+          },
+        }),
+      }),
+      document: parse('{ pets { ... on Dog { name } } }'),
+      rootValue: { pets: [odie, odie] },
+    });
+
+    expect(result).to.deep.equal({
+      data: { pets: [{ name: 'Odie' }, { name: 'Odie' }] },
+    });
+    // The resolved type also checks each value before completing it.
+    expect(isTypeOfCalls).to.deep.equal(['Dog', 'Cat', 'Dog', 'Dog']);
+  });
+
+  it('does not memoize the runtime types resolved by a type resolver', () => {
+    const resolvedValues: Array<unknown> = [];
+    const odie = { name: 'Odie' };
+
+    const result = executeSync({
+      schema,
+      document,
+      rootValue: { pets: [odie, odie] },
+      typeResolver: (value) => {
+        resolvedValues.push(value);
+        return 'Dog';
+      },
+    });
+
+    expect(result).to.deep.equal({
+      data: {
+        pets: [{ name: 'Odie' }, { name: 'Odie' }],
+        pet: [{ __typename: 'Dog' }, { __typename: 'Dog' }],
+      },
+    });
+    expect(resolvedValues).to.have.lengthOf(4);
+  });
+});
@@ -0,0 +1,181 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import { invariant } from '../../jsutils/invariant';
+import { isAsyncIterable } from '../../jsutils/isAsyncIterable';
+
+import { parse } from '../../language/parser';
+
+import type { GraphQLResolveInfo } from '../../type/definition';
+import {
+  GraphQLDeferDirective,
+  specifiedDirectives,
+} from '../../type/directives';
+import { GraphQLSchema } from '../../type/schema';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import {
+  execute,
+  executeSync,
+  experimentalExecuteIncrementally,
+} from '../execute';
+import { subscribe } from '../subscribe';
+
+const schema = buildSchema(`
+  type Query {
+    first: String
+    second: String
+    items: [Item]
+  }
+
+  type Item {
+    name: String
+  }
+
+  type Subscription {
+    counter: Int
+  }
+`);
+
+function addExtension(key: string, value: unknown, result: unknown = key) {
+  return (_args: unknown, _context: unknown, info: GraphQLResolveInfo) => {
+    info.addExtension(key, value);
+    return result;
+  };
+}
+
+describe('Execute: response extensions', () => {
+  it('adds the extensions of resolvers to the response', () => {
+    const result = executeSync({
+      schema,
+      document: parse('{ first second }'),
+      rootValue: {
+        first: addExtension('first', { value: 1 }),
+        second: addExtension('second', 'value'),
+      },
+    });
+
+    expect(result).to.deep.equal({
+      data: { first: 'first', second: 'second' },
+      extensions: { first: { value: 1 }, second: 'value' },
+    });
+  });
+
+  it('does not add extensions to the response when none were added', () => {
+    const result = executeSync({
+      schema,
+      document: parse('{ first }'),
+      rootValue: { first: 'first' },
+    });
+
+    expect(result).to.deep.equal({ data: { first: 'first' } });
+  });
+
+  it('merges the values of the same key in the order of their paths', async () => {
+    const rootValue = {
+      async first(_args: unknown, _context: unknown, info: GraphQLResolveInfo) {
+        // Resolves after the other fields.
+        await resolveOnNextTick();
+        await resolveOnNextTick();
+        info.addExtension('warnings', ['first']);
+        info.addExtension('stats', { fields: 1, last: 'first' });
+        return 'first';
+      },
+      second: addExtension('warnings', ['second'], 'second'),
+      items: () => [
+        { name: addExtension('stats', { items: { count: 1 }, last: 'item' }) },
+        { name: addExtension('stats', { items: { names: true } }) },
+      ],
+    };
+
+    const result = await execute({
+      schema,
+      document: parse('{ second items { name } first }'),
+      rootValue,
+    });
+
+    expectJSON(result).toDeepEqual({
+      data: {
+        second: 'second',
+        items: [{ name: 'stats' }, { name: 'stats' }],
+        first: 'first',
+      },
+      extensions: {
+        warnings: ['first', 'second'],
+        stats: {
+          fields: 1,
+          last: 'item',
+          items: { count: 1, names: true },
+        },
+      },
+    });
+  });
+
+  it('reports the extensions of deferred fields in their payload', async () => {
+    const result = await experimentalExecuteIncrementally({
+      schema: new GraphQLSchema({
+        ...schema.toConfig(),
+        directives: [...specifiedDirectives, GraphQLDeferDirective],
+      }),
+      document: parse('{ first ... @defer { second } }'),
+      rootValue: {
+        first: addExtension('first', 1),
+        async second(
+          _args: unknown,
+          _context: unknown,
+          info: GraphQLResolveInfo,
+        ) {
+          await resolveOnNextTick();
+          info.addExtension('second', 2);
+          return 'second';
+        },
+      },
+    });
+    invariant('initialResult' in result);
+
+    const payloads = [];
+    for await (const payload of result.subsequentResults) {
+      payloads.push(payload);
+    }
+
+    expectJSON(result.initialResult).toDeepEqual({
+      data: { first: 'first' },
+      hasNext: true,
+      extensions: { first: 1 },
+    });
+    expectJSON(payloads).toDeepEqual([
+      {
+        incremental: [{ data: { second: 'second' }, path: [] }],
+        hasNext: false,
+        extensions: { second: 2 },
+      },
+    ]);
+  });
+
+  it('adds the extensions of every subscription event to its payload', async () => {
+    async function* counter() {
+      yield await Promise.resolve({ counter: addExtension('event', 1, 1) });
+      yield await Promise.resolve({ counter: addExtension('event', 2, 2) });
+    }
+
+    const subscription = await subscribe({
+      schema,
+      document: parse('subscription { counter }'),
+      rootValue: { counter },
+    });
+    invariant(isAsyncIterable(subscription));
+
+    expect(await subscription.next()).to.deep.equal({
+      done: false,
+      value: { data: { counter: 1 }, extensions: { event: 1 } },
+    });
+    expect(await subscription.next()).to.deep.equal({
+      done: false,
+      value: { data: { counter: 2 }, extensions: { event: 2 } },
+    });
+  });
+});
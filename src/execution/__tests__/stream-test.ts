@@ -0,0 +1,543 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+
+import type { AbortSignalLike } from '../../jsutils/AbortSignalLike';
+import { invariant } from '../../jsutils/invariant';
+
+import { parse } from '../../language/parser';
+
+import {
+  GraphQLID,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLString,
+} from '../../type/index';
+import {
+  GraphQLDeferDirective,
+  GraphQLStreamDirective,
+  specifiedDirectives,
+} from '../../type/directives';
+import { GraphQLSchema } from '../../type/schema';
+
+import { execute, experimentalExecuteIncrementally } from '../execute';
+
+const friendType = new GraphQLObjectType({
+  fields: {
+    id: { type: GraphQLID },
+    name: { type: GraphQLString },
+    nonNullName: { type: new GraphQLNonNull(GraphQLString) },
+  },
+  name: 'Friend',
+});
+
+const friends = [
+  { name: 'Luke', id: 1 },
+  { name: 'Han', id: 2 },
+  { name: 'Leia', id: 3 },
+];
+
+const query = new GraphQLObjectType({
+  fields: {
+    scalarList: {
+      type: new GraphQLList(GraphQLString),
+    },
+    scalarListList: {
+      type: new GraphQLList(new GraphQLList(GraphQLString)),
+    },
+    friendList: {
+      type: new GraphQLList(friendType),
+    },
+    nonNullFriendList: {
+      type: new GraphQLList(new GraphQLNonNull(friendType)),
+    },
+  },
+  name: 'Query',
+});
+
+const schema = new GraphQLSchema({
+  query,
+  directives: [
+    ...specifiedDirectives,
+    GraphQLDeferDirective,
+    GraphQLStreamDirective,
+  ],
+});
+
+async function complete(document: string, rootValue: unknown = {}) {
+  const result = await experimentalExecuteIncrementally({
+    schema,
+    document: parse(document),
+    rootValue,
+  });
+
+  if ('initialResult' in result) {
+    const results: Array<unknown> = [result.initialResult];
+    for await (const patch of result.subsequentResults) {
+      results.push(patch);
+    }
+    return results;
+  }
+  return result;
+}
+
+describe('Execute: stream directive', () => {
+  it('Can stream a list field', async () => {
+    const document = '{ scalarList @stream(initialCount: 1) }';
+    const result = await complete(document, {
+      scalarList: () => ['apple', 'banana', 'coconut'],
+    });
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { scalarList: ['apple'] },
+        hasNext: true,
+      },
+      {
+        incremental: [{ items: ['banana'], path: ['scalarList', 1] }],
+        hasNext: true,
+      },
+      {
+        incremental: [{ items: ['coconut'], path: ['scalarList', 2] }],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Can use default value of initialCount', async () => {
+    const document = '{ scalarList @stream }';
+    const result = await complete(document, {
+      scalarList: () => ['apple', 'banana'],
+    });
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { scalarList: [] },
+        hasNext: true,
+      },
+      {
+        incremental: [{ items: ['apple'], path: ['scalarList', 0] }],
+        hasNext: true,
+      },
+      {
+        incremental: [{ items: ['banana'], path: ['scalarList', 1] }],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Returns label from stream directive', async () => {
+    const document =
+      '{ scalarList @stream(initialCount: 2, label: "scalar-stream") }';
+    const result = await complete(document, {
+      scalarList: () => ['apple', 'banana', 'coconut'],
+    });
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { scalarList: ['apple', 'banana'] },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            items: ['coconut'],
+            path: ['scalarList', 2],
+            label: 'scalar-stream',
+          },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Can disable stream using if argument', async () => {
+    const document = '{ scalarList @stream(initialCount: 0, if: false) }';
+    const result = await complete(document, {
+      scalarList: () => ['apple', 'banana'],
+    });
+
+    expectJSON(result).toDeepEqual({
+      data: { scalarList: ['apple', 'banana'] },
+    });
+  });
+
+  it('Rejects a negative initialCount', async () => {
+    const document = '{ scalarList @stream(initialCount: -2) }';
+    const result = await complete(document, {
+      scalarList: () => ['apple'],
+    });
+
+    expectJSON(result).toDeepEqual({
+      data: { scalarList: null },
+      errors: [
+        {
+          message: 'initialCount must be a non-negative integer',
+          locations: [{ line: 1, column: 3 }],
+          path: ['scalarList'],
+          extensions: { code: 'BAD_USER_INPUT', argumentName: 'initialCount' },
+        },
+      ],
+    });
+  });
+
+  it('Does not stream inner lists of multi-dimensional lists', async () => {
+    const document = '{ scalarListList @stream(initialCount: 1) }';
+    const result = await complete(document, {
+      scalarListList: () => [
+        ['apple', 'apple'],
+        ['banana', 'banana'],
+      ],
+    });
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { scalarListList: [['apple', 'apple']] },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          { items: [['banana', 'banana']], path: ['scalarListList', 1] },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Can stream a field that returns a list of promises', async () => {
+    const document = `
+      query {
+        friendList @stream(initialCount: 2) {
+          name
+          id
+        }
+      }
+    `;
+    const result = await complete(document, {
+      friendList: () => friends.map((f) => Promise.resolve(f)),
+    });
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: {
+          friendList: [
+            { name: 'Luke', id: '1' },
+            { name: 'Han', id: '2' },
+          ],
+        },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            items: [{ name: 'Leia', id: '3' }],
+            path: ['friendList', 2],
+          },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Handles rejections in a field that returns a list of promises', async () => {
+    const document = `
+      query {
+        friendList @stream(initialCount: 1) {
+          name
+        }
+      }
+    `;
+    const result = await complete(document, {
+      friendList: () => [
+        Promise.resolve(friends[0]),
+        Promise.reject(new Error('bad')),
+        Promise.resolve(friends[2]),
+      ],
+    });
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { friendList: [{ name: 'Luke' }] },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            items: [null],
+            path: ['friendList', 1],
+            errors: [
+              {
+                message: 'bad',
+                locations: [{ line: 3, column: 9 }],
+                path: ['friendList', 1],
+              },
+            ],
+          },
+        ],
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            items: [{ name: 'Leia' }],
+            path: ['friendList', 2],
+          },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Handles null returned in non-null list items after initialCount is reached', async () => {
+    const document = `
+      query {
+        nonNullFriendList @stream(initialCount: 1) {
+          name
+        }
+      }
+    `;
+    const result = await complete(document, {
+      nonNullFriendList: () => [friends[0], null],
+    });
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { nonNullFriendList: [{ name: 'Luke' }] },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            items: null,
+            path: ['nonNullFriendList', 1],
+            errors: [
+              {
+                message:
+                  'Cannot return null for non-nullable field Query.nonNullFriendList.',
+                locations: [{ line: 3, column: 9 }],
+                path: ['nonNullFriendList', 1],
+                extensions: { code: 'NON_NULL_VIOLATION' },
+              },
+            ],
+          },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Delivers streamed items of a deferred list after the deferred fragment', async () => {
+    const document = `
+      query {
+        ... @defer {
+          scalarList @stream(initialCount: 1)
+        }
+      }
+    `;
+    const result = await complete(document, {
+      scalarList: () => ['apple', 'banana'],
+    });
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: {},
+        hasNext: true,
+      },
+      {
+        incremental: [{ data: { scalarList: ['apple'] }, path: [] }],
+        hasNext: true,
+      },
+      {
+        incremental: [{ items: ['banana'], path: ['scalarList', 1] }],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Can stream a field that returns an async iterable', async () => {
+    const document = `
+      query {
+        friendList @stream(initialCount: 1) {
+          name
+          id
+        }
+      }
+    `;
+    const result = await complete(document, {
+      async *friendList() {
+        yield await Promise.resolve(friends[0]);
+        yield await Promise.resolve(friends[1]);
+        yield await Promise.resolve(friends[2]);
+      },
+    });
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { friendList: [{ name: 'Luke', id: '1' }] },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          { items: [{ name: 'Han', id: '2' }], path: ['friendList', 1] },
+        ],
+        hasNext: true,
+      },
+      {
+        incremental: [
+          { items: [{ name: 'Leia', id: '3' }], path: ['friendList', 2] },
+        ],
+        hasNext: true,
+      },
+      {
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Handles error thrown in async iterable after initialCount is reached', async () => {
+    const document = `
+      query {
+        friendList @stream(initialCount: 1) {
+          name
+        }
+      }
+    `;
+    const result = await complete(document, {
+      async *friendList() {
+        yield await Promise.resolve(friends[0]);
+        throw new Error('bad');
+      },
+    });
+
+    expectJSON(result).toDeepEqual([
+      {
+        data: { friendList: [{ name: 'Luke' }] },
+        hasNext: true,
+      },
+      {
+        incremental: [
+          {
+            items: [null],
+            path: ['friendList', 1],
+            errors: [
+              {
+                message: 'bad',
+                locations: [{ line: 3, column: 9 }],
+                path: ['friendList', 1],
+              },
+            ],
+          },
+        ],
+        hasNext: false,
+      },
+    ]);
+  });
+
+  it('Returns the async iterable when the subsequent results are returned early', async () => {
+    let didReturn = false;
+    const result = await experimentalExecuteIncrementally({
+      schema,
+      document: parse('{ scalarList @stream(initialCount: 1) }'),
+      rootValue: {
+        scalarList: {
+          [Symbol.asyncIterator]() {
+            let index = 0;
+            return {
+              next: () =>
+                index < 2
+                  ? Promise.resolve({ value: `${index++}`, done: false })
+                  : new Promise(() => {
+                      // never resolves
+                    }),
+              return: () => {
+                didReturn = true;
+                return Promise.resolve({ value: undefined, done: true });
+              },
+            };
+          },
+        },
+      },
+    });
+    invariant('initialResult' in result);
+
+    expectJSON(result.initialResult).toDeepEqual({
+      data: { scalarList: ['0'] },
+      hasNext: true,
+    });
+    expectJSON(await result.subsequentResults.next()).toDeepEqual({
+      value: {
+        incremental: [{ items: ['1'], path: ['scalarList', 1] }],
+        hasNext: true,
+      },
+      done: false,
+    });
+    expect(await result.subsequentResults.return()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+    expect(didReturn).to.equal(true);
+  });
+
+  it('Stops streaming once execute returns an error for multiple payloads', async () => {
+    let pullCount = 0;
+    let didReturn = false;
+    const listeners = new Set<() => void>();
+    const abortSignal: AbortSignalLike = {
+      aborted: false,
+      addEventListener: (_type, listener) => listeners.add(listener),
+      removeEventListener: (_type, listener) => listeners.delete(listener),
+    };
+
+    const result = await execute({
+      schema,
+      document: parse('{ scalarList @stream(initialCount: 1) }'),
+      rootValue: {
+        scalarList: {
+          [Symbol.asyncIterator]() {
+            return {
+              next: () => {
+                pullCount++;
+                return Promise.resolve({ value: `${pullCount}`, done: false });
+              },
+              return: () => {
+                didReturn = true;
+                return Promise.resolve({ value: undefined, done: true });
+              },
+            };
+          },
+        },
+      },
+      abortSignal,
+    });
+
+    expectJSON(result).toDeepEqual({
+      errors: [
+        {
+          message:
+            'Executing this GraphQL operation would unexpectedly produce multiple payloads (due to @defer or @stream directive)',
+          extensions: { code: 'INCREMENTAL_DELIVERY_NOT_SUPPORTED' },
+        },
+      ],
+    });
+    const pullCountOnReturn = pullCount;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(didReturn).to.equal(true);
+    expect(pullCount).to.be.at.most(pullCountOnReturn + 1);
+    expect(listeners.size).to.equal(0);
+  });
+
+  it('Ignores @stream when the schema does not declare it', async () => {
+    const result = await experimentalExecuteIncrementally({
+      schema: new GraphQLSchema({ query }),
+      document: parse('{ scalarList @stream(initialCount: 1) }'),
+      rootValue: { scalarList: ['apple', 'banana'] },
+    });
+
+    expect(result).to.deep.equal({
+      data: { scalarList: ['apple', 'banana'] },
+    });
+  });
+});
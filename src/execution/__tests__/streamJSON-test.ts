@@ -0,0 +1,147 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import { parse } from '../../language/parser';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import type { ExecutionArgs } from '../execute';
+import { execute, executeToJSONStream } from '../execute';
+
+const schema = buildSchema(`
+  type Query {
+    fast: String
+    slow: String
+    user(id: Int): User
+    users: [User]
+    requiredUsers: [User!]
+    required: String!
+  }
+
+  type User {
+    id: Int
+    name: String
+    friends: [User]
+    required: String!
+  }
+`);
+
+function createUser(id: number) {
+  return {
+    id,
+    async name() {
+      await resolveOnNextTick();
+      return `User ${id}`;
+    },
+    friends: () => [createUser(id + 1), createUser(id + 2)],
+    async required() {
+      await resolveOnNextTick();
+      if (id === 2) {
+        throw new Error(`User ${id} failed.`);
+      }
+      return 'required';
+    },
+  };
+}
+
+const rootValue = {
+  fast: 'fast',
+  slow: () => resolveOnNextTick().then(() => 'slow'),
+  user: ({ id }: { id: number }) => createUser(id),
+  users: () => [createUser(1), createUser(2), createUser(3)],
+  requiredUsers: () => [createUser(1), createUser(2)],
+  required: () => resolveOnNextTick().then(() => 'required'),
+};
+
+async function collectChunks(args: ExecutionArgs): Promise<Array<string>> {
+  const chunks = [];
+  for await (const chunk of executeToJSONStream(args)) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+async function expectSameResult(query: string): Promise<Array<string>> {
+  const args = { schema, document: parse(query), rootValue };
+  const chunks = await collectChunks(args);
+
+  const result = await execute(args);
+  expect(JSON.parse(chunks.join(''))).to.deep.equal(
+    JSON.parse(JSON.stringify(result)),
+  );
+  return chunks;
+}
+
+describe('Execute: serializes results to a JSON stream', () => {
+  it('yields a single chunk for synchronous results', async () => {
+    const chunks = await expectSameResult('{ fast user(id: 1) { id } }');
+
+    expect(chunks).to.deep.equal(['{"data":{"fast":"fast","user":{"id":1}}}']);
+  });
+
+  it('yields the serialized fields in response order as they complete', async () => {
+    const chunks = await expectSameResult('{ fast slow user(id: 1) { id } }');
+
+    expect(chunks).to.deep.equal([
+      '{"data":',
+      '{"fast":"fast","slow":',
+      '"slow","user":{"id":1}}}',
+    ]);
+  });
+
+  it('streams the items of lists', async () => {
+    const chunks = await expectSameResult(
+      '{ users { id name friends { id name } } }',
+    );
+
+    expect(chunks.slice(0, 5)).to.deep.equal([
+      '{"data":',
+      '{"users":',
+      '[',
+      '{"id":1,"name":',
+      '"User 1","friends":',
+    ]);
+  });
+
+  it('nulls the parents of failed non-null fields', async () => {
+    await expectSameResult(`{
+      fast
+      users { id required }
+      requiredUsers { id required }
+      user(id: 2) { friends { id } required }
+    }`);
+    await expectSameResult('{ slow required users { required } }');
+  });
+
+  it('appends the errors to the serialized result', async () => {
+    const chunks = await collectChunks({
+      schema,
+      document: parse('{ slow user(id: 2) { required } }'),
+      rootValue,
+    });
+
+    expect(JSON.parse(chunks.join(''))).to.deep.equal({
+      data: { slow: 'slow', user: null },
+      errors: [
+        {
+          message: 'User 2 failed.',
+          locations: [{ line: 1, column: 22 }],
+          path: ['user', 'required'],
+        },
+      ],
+    });
+  });
+
+  it('serializes request errors', async () => {
+    const chunks = await collectChunks({
+      schema,
+      document: parse('query ($id: Int) { user(id: $id) { id } }'),
+      variableValues: { id: 'one' },
+    });
+
+    expect(chunks).to.have.lengthOf(1);
+    expect(JSON.parse(chunks[0])).to.have.property('errors').with.lengthOf(1);
+  });
+});
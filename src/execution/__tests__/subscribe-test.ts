@@ -10,7 +10,11 @@ import { isAsyncIterable } from '../../jsutils/isAsyncIterable';
 import { parse } from '../../language/parser';
 
 import { GraphQLSchema } from '../../type/schema';
-import { GraphQLList, GraphQLObjectType } from '../../type/definition';
+import {
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+} from '../../type/definition';
 import { GraphQLInt, GraphQLString, GraphQLBoolean } from '../../type/scalars';
 
 import { createSourceEventStream, subscribe } from '../subscribe';
@@ -378,6 +382,7 @@ describe('Subscription Initialization Phase', () => {
           message:
             'Schema is not configured to execute subscription operation.',
           locations: [{ line: 1, column: 1 }],
+          extensions: { code: 'OPERATION_NOT_SUPPORTED' },
         },
       ],
     });
@@ -401,6 +406,7 @@ describe('Subscription Initialization Phase', () => {
         {
           message: 'The subscription field "unknownField" is not defined.',
           locations: [{ line: 1, column: 16 }],
+          extensions: { code: 'GRAPHQL_VALIDATION_FAILED' },
         },
       ],
     });
@@ -495,6 +501,48 @@ describe('Subscription Initialization Phase', () => {
     ).toDeepEqual(expectedResult);
   });
 
+  it('resolves to an error without subscribing to unauthorized fields', async () => {
+    async function* fooGenerator() {
+      yield { foo: 'FooValue' };
+    }
+
+    let called = false;
+    const schema = new GraphQLSchema({
+      query: DummyQueryType,
+      subscription: new GraphQLObjectType({
+        name: 'Subscription',
+        fields: {
+          foo: {
+            type: GraphQLString,
+            extensions: { auth: { requires: ['ADMIN'] } },
+            subscribe() {
+              called = true;
+              return fooGenerator();
+            },
+          },
+        },
+      }),
+      authPolicy: () => false,
+    });
+
+    const result = await subscribe({
+      schema,
+      document: parse('subscription { foo }'),
+    });
+
+    expectJSON(result).toDeepEqual({
+      errors: [
+        {
+          message: 'Not authorized to access "Subscription.foo".',
+          locations: [{ line: 1, column: 16 }],
+          path: ['foo'],
+          extensions: { code: 'FORBIDDEN' },
+        },
+      ],
+    });
+    expect(called).to.equal(false);
+  });
+
   it('resolves to an error if variables were wrong type', async () => {
     const schema = new GraphQLSchema({
       query: DummyQueryType,
@@ -525,6 +573,7 @@ describe('Subscription Initialization Phase', () => {
           message:
             'Variable "$arg" got invalid value "meow"; Int cannot represent non-integer value: "meow"',
           locations: [{ line: 2, column: 21 }],
+          extensions: { code: 'BAD_USER_INPUT', variableName: 'arg', path: [] },
         },
       ],
     });
@@ -1003,4 +1052,494 @@ describe('Subscription Publish Phase', () => {
       value: undefined,
     });
   });
+
+  it('should emit errors thrown in source event stream when requested', async () => {
+    let count = 0;
+    const schema = new GraphQLSchema({
+      query: DummyQueryType,
+      subscription: new GraphQLObjectType({
+        name: 'Subscription',
+        fields: {
+          newMessage: {
+            type: GraphQLString,
+            resolve: (message) => message,
+            subscribe: () => ({
+              [Symbol.asyncIterator]() {
+                return this;
+              },
+              next() {
+                count += 1;
+                return count === 2
+                  ? Promise.reject(new Error('Connection lost.'))
+                  : Promise.resolve({ value: `Message ${count}`, done: false });
+              },
+            }),
+          },
+        },
+      }),
+    });
+
+    const document = parse('subscription { newMessage }');
+    const subscription = await subscribe({
+      schema,
+      document,
+      emitSourceErrors: true,
+    });
+    invariant(isAsyncIterable(subscription));
+
+    expect(await subscription.next()).to.deep.equal({
+      done: false,
+      value: { data: { newMessage: 'Message 1' } },
+    });
+
+    expectJSON(await subscription.next()).toDeepEqual({
+      done: false,
+      value: { errors: [{ message: 'Connection lost.' }] },
+    });
+
+    // The stream recovers from the error.
+    expect(await subscription.next()).to.deep.equal({
+      done: false,
+      value: { data: { newMessage: 'Message 3' } },
+    });
+  });
+
+  it('should mask errors of events and source event stream when requested', async () => {
+    let count = 0;
+    const schema = new GraphQLSchema({
+      query: DummyQueryType,
+      subscription: new GraphQLObjectType({
+        name: 'Subscription',
+        fields: {
+          newMessage: {
+            type: GraphQLString,
+            resolve: () => {
+              throw new Error('Cannot read message.');
+            },
+            subscribe: () => ({
+              [Symbol.asyncIterator]() {
+                return this;
+              },
+              next() {
+                count += 1;
+                return count === 2
+                  ? Promise.reject(new Error('Connection lost.'))
+                  : Promise.resolve({ value: `Message ${count}`, done: false });
+              },
+            }),
+          },
+        },
+      }),
+    });
+
+    const reported: Array<{ message: string; errorId: string }> = [];
+    const document = parse('subscription { newMessage }');
+    const subscription = await subscribe({
+      schema,
+      document,
+      emitSourceErrors: true,
+      maskError: true,
+      onError: (error, errorId) =>
+        reported.push({ message: error.message, errorId }),
+    });
+    invariant(isAsyncIterable(subscription));
+
+    const eventResult = await subscription.next();
+    const sourceErrorResult = await subscription.next();
+
+    expect(reported.map(({ message }) => message)).to.deep.equal([
+      'Cannot read message.',
+      'Connection lost.',
+    ]);
+    expectJSON(eventResult).toDeepEqual({
+      done: false,
+      value: {
+        data: { newMessage: null },
+        errors: [
+          {
+            message: 'Unexpected error.',
+            locations: [{ line: 1, column: 16 }],
+            path: ['newMessage'],
+            extensions: {
+              code: 'INTERNAL_SERVER_ERROR',
+              errorId: reported[0].errorId,
+            },
+          },
+        ],
+      },
+    });
+    expectJSON(sourceErrorResult).toDeepEqual({
+      done: false,
+      value: {
+        errors: [
+          {
+            message: 'Unexpected error.',
+            extensions: {
+              code: 'INTERNAL_SERVER_ERROR',
+              errorId: reported[1].errorId,
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it('should mask errors of the subscribe resolver when requested', async () => {
+    const schema = new GraphQLSchema({
+      query: DummyQueryType,
+      subscription: new GraphQLObjectType({
+        name: 'Subscription',
+        fields: {
+          newMessage: {
+            type: GraphQLString,
+            subscribe: () => {
+              throw new Error('secret db password');
+            },
+          },
+        },
+      }),
+    });
+
+    const reported: Array<{ message: string; errorId: string }> = [];
+    const result = await subscribe({
+      schema,
+      document: parse('subscription { newMessage }'),
+      maskError: true,
+      onError: (error, errorId) =>
+        reported.push({ message: error.message, errorId }),
+    });
+
+    expect(reported.map(({ message }) => message)).to.deep.equal([
+      'secret db password',
+    ]);
+    expectJSON(result).toDeepEqual({
+      errors: [
+        {
+          message: 'Unexpected error.',
+          locations: [{ line: 1, column: 16 }],
+          path: ['newMessage'],
+          extensions: {
+            code: 'INTERNAL_SERVER_ERROR',
+            errorId: reported[0].errorId,
+          },
+        },
+      ],
+    });
+  });
+
+  it('should not propagate null errors of events when disabled', async () => {
+    const schema = new GraphQLSchema({
+      query: DummyQueryType,
+      subscription: new GraphQLObjectType({
+        name: 'Subscription',
+        fields: {
+          newMessage: {
+            type: new GraphQLNonNull(GraphQLString),
+            resolve: () => {
+              throw new Error('Cannot read message.');
+            },
+            async *subscribe() {
+              yield await Promise.resolve('Message');
+            },
+          },
+        },
+      }),
+    });
+
+    const subscription = await subscribe({
+      schema,
+      document: parse('subscription { newMessage }'),
+      errorPropagation: false,
+    });
+    invariant(isAsyncIterable(subscription));
+
+    expectJSON(await subscription.next()).toDeepEqual({
+      done: false,
+      value: {
+        data: { newMessage: null },
+        errors: [
+          {
+            message: 'Cannot read message.',
+            locations: [{ line: 1, column: 16 }],
+            path: ['newMessage'],
+          },
+        ],
+      },
+    });
+  });
+
+  it('should enforce the limits on the execution of every event', async () => {
+    const schema = new GraphQLSchema({
+      query: DummyQueryType,
+      subscription: new GraphQLObjectType({
+        name: 'Subscription',
+        fields: {
+          newMessages: {
+            type: new GraphQLList(GraphQLString),
+            async *subscribe() {
+              yield await Promise.resolve({ newMessages: ['a', 'b'] });
+              yield await Promise.resolve({ newMessages: ['a', 'b', 'c'] });
+            },
+          },
+        },
+      }),
+    });
+
+    const subscription = await subscribe({
+      schema,
+      document: parse('subscription { newMessages }'),
+      limits: { maxListItems: 2 },
+    });
+    invariant(isAsyncIterable(subscription));
+
+    expectJSON(await subscription.next()).toDeepEqual({
+      done: false,
+      value: { data: { newMessages: ['a', 'b'] } },
+    });
+    expectJSON(await subscription.next()).toDeepEqual({
+      done: false,
+      value: {
+        data: null,
+        errors: [
+          {
+            message: 'Execution exceeded the limit of 2 list items.',
+            extensions: { code: 'RESOURCE_LIMIT_EXCEEDED' },
+          },
+        ],
+      },
+    });
+  });
+
+  it('should time out the execution of every event', async () => {
+    const schema = new GraphQLSchema({
+      query: DummyQueryType,
+      subscription: new GraphQLObjectType({
+        name: 'Subscription',
+        fields: {
+          newMessage: {
+            type: GraphQLString,
+            resolve: () =>
+              new Promise(() => {
+                // Never resolves
+              }),
+            async *subscribe() {
+              yield await Promise.resolve({});
+            },
+          },
+        },
+      }),
+    });
+
+    const subscription = await subscribe({
+      schema,
+      document: parse('subscription { newMessage }'),
+      timeout: 1,
+    });
+    invariant(isAsyncIterable(subscription));
+
+    expectJSON(await subscription.next()).toDeepEqual({
+      done: false,
+      value: {
+        data: { newMessage: null },
+        errors: [
+          {
+            message: 'Operation timed out after 1ms.',
+            locations: [{ line: 1, column: 16 }],
+            path: ['newMessage'],
+            extensions: { code: 'TIMEOUT' },
+          },
+        ],
+      },
+    });
+  });
+
+  it('should buffer events for a slow consumer as configured', async () => {
+    const pubsub = new SimplePubSub<string>();
+    const schema = new GraphQLSchema({
+      query: DummyQueryType,
+      subscription: new GraphQLObjectType({
+        name: 'Subscription',
+        fields: {
+          newMessage: {
+            type: GraphQLString,
+            resolve: (message) => message,
+            subscribe: () => pubsub.getSubscriber((message) => message),
+          },
+        },
+      }),
+    });
+
+    const document = parse('subscription { newMessage }');
+    const subscription = await subscribe({
+      schema,
+      document,
+      eventStreamOptions: { maxBufferSize: 1, bufferOverflow: 'dropOldest' },
+    });
+    invariant(isAsyncIterable(subscription));
+
+    const payload = subscription.next();
+    pubsub.emit('Hello');
+    expect(await payload).to.deep.equal({
+      done: false,
+      value: { data: { newMessage: 'Hello' } },
+    });
+
+    pubsub.emit('Hi');
+    await resolveOnNextTick();
+    pubsub.emit('Bonjour');
+    await resolveOnNextTick();
+
+    // Only the latest event is kept for the slow consumer.
+    expect(await subscription.next()).to.deep.equal({
+      done: false,
+      value: { data: { newMessage: 'Bonjour' } },
+    });
+
+    expect(await subscription.return()).to.deep.equal({
+      done: true,
+      value: undefined,
+    });
+    expect(pubsub.emit('Goodbye')).to.equal(false);
+  });
+
+  it('should only execute the events passing the field filter', async () => {
+    async function* generateMessages() {
+      yield { to: 'Alice', text: 'Hello' };
+      yield { to: 'Bob', text: 'Hi' };
+      yield { to: 'Alice', text: 'Goodbye' };
+    }
+
+    const schema = new GraphQLSchema({
+      query: DummyQueryType,
+      subscription: new GraphQLObjectType({
+        name: 'Subscription',
+        fields: {
+          newMessage: {
+            type: GraphQLString,
+            args: { to: { type: GraphQLString } },
+            resolve: (message) => message.text,
+            subscribe: generateMessages,
+            filter: (message: any, args, context, info) =>
+              message.to === args.to &&
+              context.user === args.to &&
+              info.fieldName === 'newMessage',
+          },
+        },
+      }),
+    });
+
+    const document = parse('subscription { newMessage(to: "Alice") }');
+    const subscription = await subscribe({
+      schema,
+      document,
+      contextValue: { user: 'Alice' },
+    });
+    invariant(isAsyncIterable(subscription));
+
+    expect(await subscription.next()).to.deep.equal({
+      done: false,
+      value: { data: { newMessage: 'Hello' } },
+    });
+    expect(await subscription.next()).to.deep.equal({
+      done: false,
+      value: { data: { newMessage: 'Goodbye' } },
+    });
+    expect(await subscription.next()).to.deep.equal({
+      done: true,
+      value: undefined,
+    });
+  });
+
+  it('should locate errors thrown by the field filter', async () => {
+    async function* generateMessages() {
+      yield 'Hello';
+    }
+
+    const schema = new GraphQLSchema({
+      query: DummyQueryType,
+      subscription: new GraphQLObjectType({
+        name: 'Subscription',
+        fields: {
+          newMessage: {
+            type: GraphQLString,
+            subscribe: generateMessages,
+            filter() {
+              throw new Error('Cannot filter.');
+            },
+          },
+        },
+      }),
+    });
+
+    const document = parse('subscription { newMessage }');
+    const subscription = await subscribe({
+      schema,
+      document,
+      emitSourceErrors: true,
+    });
+    invariant(isAsyncIterable(subscription));
+
+    expectJSON(await subscription.next()).toDeepEqual({
+      done: false,
+      value: {
+        errors: [
+          {
+            message: 'Cannot filter.',
+            locations: [{ line: 1, column: 16 }],
+            path: ['newMessage'],
+          },
+        ],
+      },
+    });
+  });
+
+  it('should close the event stream when the field filter throws', async () => {
+    let didReturn = false;
+    async function* generateMessages() {
+      try {
+        yield 'Hello';
+        yield 'Goodbye';
+      } finally {
+        didReturn = true;
+      }
+    }
+
+    const schema = new GraphQLSchema({
+      query: DummyQueryType,
+      subscription: new GraphQLObjectType({
+        name: 'Subscription',
+        fields: {
+          newMessage: {
+            type: GraphQLString,
+            subscribe: generateMessages,
+            filter() {
+              throw new Error('Cannot filter.');
+            },
+          },
+        },
+      }),
+    });
+
+    const document = parse('subscription { newMessage }');
+    const subscription = await subscribe({
+      schema,
+      document,
+      emitSourceErrors: true,
+    });
+    invariant(isAsyncIterable(subscription));
+
+    expectJSON(await subscription.next()).toDeepEqual({
+      done: false,
+      value: {
+        errors: [
+          {
+            message: 'Cannot filter.',
+            locations: [{ line: 1, column: 16 }],
+            path: ['newMessage'],
+          },
+        ],
+      },
+    });
+    expect(didReturn).to.equal(true);
+  });
 });
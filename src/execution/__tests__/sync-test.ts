@@ -55,7 +55,12 @@ describe('Execute: synchronously when possible', () => {
       rootValue: 'rootValue',
     });
     expectJSON(result).toDeepEqual({
-      errors: [{ message: 'Must provide an operation.' }],
+      errors: [
+        {
+          message: 'Must provide an operation.',
+          extensions: { code: 'OPERATION_NOT_FOUND' },
+        },
+      ],
     });
   });
 
@@ -0,0 +1,203 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { expectJSON } from '../../__testUtils__/expectJSON';
+import { resolveOnNextTick } from '../../__testUtils__/resolveOnNextTick';
+
+import { parse } from '../../language/parser';
+
+import { GraphQLObjectType } from '../../type/definition';
+import { specifiedDirectives } from '../../type/directives';
+import { GraphQLString } from '../../type/scalars';
+import { GraphQLSchema } from '../../type/schema';
+
+import { buildSchema } from '../../utilities/buildASTSchema';
+
+import { execute } from '../execute';
+
+function never(): Promise<string> {
+  return new Promise(() => {
+    // never resolves
+  });
+}
+
+async function resolveAfterTicks(value: string): Promise<string> {
+  await resolveOnNextTick();
+  await resolveOnNextTick();
+  return value;
+}
+
+describe('Execute: timeouts', () => {
+  it('times out a field with a timeout extension', async () => {
+    const schema = new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: 'Query',
+        fields: {
+          slow: {
+            type: GraphQLString,
+            extensions: { timeout: 1 },
+            resolve: never,
+          },
+          fast: {
+            type: GraphQLString,
+            extensions: { timeout: 1000 },
+            resolve: () => resolveAfterTicks('fast'),
+          },
+        },
+      }),
+    });
+
+    const result = await execute({ schema, document: parse('{ slow fast }') });
+    expectJSON(result).toDeepEqual({
+      data: { slow: null, fast: 'fast' },
+      errors: [
+        {
+          message: 'Field "Query.slow" timed out after 1ms.',
+          locations: [{ line: 1, column: 3 }],
+          path: ['slow'],
+          extensions: { code: 'TIMEOUT' },
+        },
+      ],
+    });
+  });
+
+  it('times out a field with the @timeout directive', async () => {
+    const schema = buildSchema(`
+      directive @timeout(ms: Int!) on FIELD_DEFINITION
+
+      type Query {
+        slow: String @timeout(ms: 1)
+        other: String
+      }
+    `);
+
+    const result = await execute({
+      schema,
+      document: parse('{ slow other }'),
+      rootValue: { slow: never, other: () => resolveAfterTicks('other') },
+    });
+    expectJSON(result).toDeepEqual({
+      data: { slow: null, other: 'other' },
+      errors: [
+        {
+          message: 'Field "Query.slow" timed out after 1ms.',
+          locations: [{ line: 1, column: 3 }],
+          path: ['slow'],
+          extensions: { code: 'TIMEOUT' },
+        },
+      ],
+    });
+  });
+
+  it('ignores the @timeout directive when the schema does not define it', async () => {
+    const schema = new GraphQLSchema({
+      ...buildSchema(`
+        directive @timeout(ms: Int!) on FIELD_DEFINITION
+
+        type Query {
+          slow: String @timeout(ms: 0)
+        }
+      `).toConfig(),
+      directives: specifiedDirectives,
+    });
+
+    const result = await execute({
+      schema,
+      document: parse('{ slow }'),
+      rootValue: { slow: () => resolveAfterTicks('slow') },
+    });
+    expect(result).to.deep.equal({ data: { slow: 'slow' } });
+  });
+
+  it('times out pending fields once the operation deadline is exceeded', async () => {
+    const schema = buildSchema(`
+      type Query {
+        sync: String
+        slow: String
+        nested: Query
+      }
+    `);
+
+    const result = await execute({
+      schema,
+      document: parse('{ sync nested { sync slow } }'),
+      rootValue: {
+        sync: 'sync',
+        nested: () =>
+          resolveAfterTicks('nested').then(() => ({
+            sync: 'sync',
+            slow: never,
+          })),
+      },
+      timeout: 50,
+    });
+    expectJSON(result).toDeepEqual({
+      data: {
+        sync: 'sync',
+        nested: { sync: 'sync', slow: null },
+      },
+      errors: [
+        {
+          message: 'Operation timed out after 50ms.',
+          locations: [{ line: 1, column: 22 }],
+          path: ['nested', 'slow'],
+          extensions: { code: 'TIMEOUT' },
+        },
+      ],
+    });
+  });
+
+  it('does not resolve fields once the operation deadline is exceeded', () => {
+    const schema = buildSchema(`
+      type Query {
+        busy: String
+        value: String
+      }
+    `);
+    let resolvedValue = false;
+
+    const result = execute({
+      schema,
+      document: parse('{ busy value }'),
+      rootValue: {
+        busy() {
+          const start = Date.now();
+          while (Date.now() - start < 30) {
+            // blocks past the deadline
+          }
+          return 'busy';
+        },
+        value() {
+          resolvedValue = true;
+          return 'value';
+        },
+      },
+      timeout: 20,
+    });
+
+    expect(resolvedValue).to.equal(false);
+    expectJSON(result).toDeepEqual({
+      data: { busy: 'busy', value: null },
+      errors: [
+        {
+          message: 'Operation timed out after 20ms.',
+          locations: [{ line: 1, column: 8 }],
+          path: ['value'],
+          extensions: { code: 'TIMEOUT' },
+        },
+      ],
+    });
+  });
+
+  it('completes within the deadline without errors', async () => {
+    const schema = buildSchema('type Query { value: String }');
+
+    const result = await execute({
+      schema,
+      document: parse('{ value }'),
+      rootValue: { value: () => resolveAfterTicks('value') },
+      timeout: 1000,
+    });
+    expect(result).to.deep.equal({ data: { value: 'value' } });
+  });
+});
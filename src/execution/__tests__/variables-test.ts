@@ -208,6 +208,7 @@ describe('Execute: Handles inputs', () => {
                 'Argument "input" has invalid value ["foo", "bar", "baz"].',
               path: ['fieldWithObjectInput'],
               locations: [{ line: 3, column: 41 }],
+              extensions: { code: 'BAD_USER_INPUT', argumentName: 'input' },
             },
           ],
         });
@@ -377,6 +378,11 @@ describe('Execute: Handles inputs', () => {
               message:
                 'Variable "$input" got invalid value null at "input.c"; Expected non-nullable type "String!" not to be null.',
               locations: [{ line: 2, column: 16 }],
+              extensions: {
+                code: 'BAD_USER_INPUT',
+                variableName: 'input',
+                path: ['c'],
+              },
             },
           ],
         });
@@ -391,6 +397,11 @@ describe('Execute: Handles inputs', () => {
               message:
                 'Variable "$input" got invalid value "foo bar"; Expected type "TestInputObject" to be an object.',
               locations: [{ line: 2, column: 16 }],
+              extensions: {
+                code: 'BAD_USER_INPUT',
+                variableName: 'input',
+                path: [],
+              },
             },
           ],
         });
@@ -405,6 +416,11 @@ describe('Execute: Handles inputs', () => {
               message:
                 'Variable "$input" got invalid value { a: "foo", b: "bar" }; Field "c" of required type "String!" was not provided.',
               locations: [{ line: 2, column: 16 }],
+              extensions: {
+                code: 'BAD_USER_INPUT',
+                variableName: 'input',
+                path: [],
+              },
             },
           ],
         });
@@ -424,11 +440,21 @@ describe('Execute: Handles inputs', () => {
               message:
                 'Variable "$input" got invalid value { a: "foo" } at "input.na"; Field "c" of required type "String!" was not provided.',
               locations: [{ line: 2, column: 18 }],
+              extensions: {
+                code: 'BAD_USER_INPUT',
+                variableName: 'input',
+                path: ['na'],
+              },
             },
             {
               message:
                 'Variable "$input" got invalid value { na: { a: "foo" } }; Field "nb" of required type "String!" was not provided.',
               locations: [{ line: 2, column: 18 }],
+              extensions: {
+                code: 'BAD_USER_INPUT',
+                variableName: 'input',
+                path: [],
+              },
             },
           ],
         });
@@ -446,6 +472,11 @@ describe('Execute: Handles inputs', () => {
               message:
                 'Variable "$input" got invalid value { a: "foo", b: "bar", c: "baz", extra: "dog" }; Field "extra" is not defined by type "TestInputObject".',
               locations: [{ line: 2, column: 16 }],
+              extensions: {
+                code: 'BAD_USER_INPUT',
+                variableName: 'input',
+                path: [],
+              },
             },
           ],
         });
@@ -621,6 +652,11 @@ describe('Execute: Handles inputs', () => {
             message:
               'Variable "$value" of required type "String!" was not provided.',
             locations: [{ line: 2, column: 16 }],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              variableName: 'value',
+              path: [],
+            },
           },
         ],
       });
@@ -640,6 +676,11 @@ describe('Execute: Handles inputs', () => {
             message:
               'Variable "$value" of non-null type "String!" must not be null.',
             locations: [{ line: 2, column: 16 }],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              variableName: 'value',
+              path: [],
+            },
           },
         ],
       });
@@ -687,6 +728,7 @@ describe('Execute: Handles inputs', () => {
               'Argument "input" of required type "String!" was not provided.',
             locations: [{ line: 1, column: 3 }],
             path: ['fieldWithNonNullableStringInput'],
+            extensions: { code: 'BAD_USER_INPUT', argumentName: 'input' },
           },
         ],
       });
@@ -706,6 +748,11 @@ describe('Execute: Handles inputs', () => {
             message:
               'Variable "$value" got invalid value [1, 2, 3]; String cannot represent a non string value: [1, 2, 3]',
             locations: [{ line: 2, column: 16 }],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              variableName: 'value',
+              path: [],
+            },
           },
         ],
       });
@@ -735,6 +782,11 @@ describe('Execute: Handles inputs', () => {
               'Argument "input" of required type "String!" was provided the variable "$foo" which was not provided a runtime value.',
             locations: [{ line: 3, column: 50 }],
             path: ['fieldWithNonNullableStringInput'],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              variableName: 'foo',
+              argumentName: 'input',
+            },
           },
         ],
       });
@@ -789,6 +841,11 @@ describe('Execute: Handles inputs', () => {
             message:
               'Variable "$input" of non-null type "[String]!" must not be null.',
             locations: [{ line: 2, column: 16 }],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              variableName: 'input',
+              path: [],
+            },
           },
         ],
       });
@@ -852,6 +909,11 @@ describe('Execute: Handles inputs', () => {
             message:
               'Variable "$input" got invalid value null at "input[1]"; Expected non-nullable type "String!" not to be null.',
             locations: [{ line: 2, column: 16 }],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              variableName: 'input',
+              path: [1],
+            },
           },
         ],
       });
@@ -871,6 +933,11 @@ describe('Execute: Handles inputs', () => {
             message:
               'Variable "$input" of non-null type "[String!]!" must not be null.',
             locations: [{ line: 2, column: 16 }],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              variableName: 'input',
+              path: [],
+            },
           },
         ],
       });
@@ -901,6 +968,11 @@ describe('Execute: Handles inputs', () => {
             message:
               'Variable "$input" got invalid value null at "input[1]"; Expected non-nullable type "String!" not to be null.',
             locations: [{ line: 2, column: 16 }],
+            extensions: {
+              code: 'BAD_USER_INPUT',
+              variableName: 'input',
+              path: [1],
+            },
           },
         ],
       });
@@ -920,6 +992,10 @@ describe('Execute: Handles inputs', () => {
             message:
               'Variable "$input" expected value of type "TestType!" which cannot be used as an input type.',
             locations: [{ line: 2, column: 24 }],
+            extensions: {
+              code: 'GRAPHQL_VALIDATION_FAILED',
+              variableName: 'input',
+            },
           },
         ],
       });
@@ -939,6 +1015,10 @@ describe('Execute: Handles inputs', () => {
             message:
               'Variable "$input" expected value of type "UnknownType!" which cannot be used as an input type.',
             locations: [{ line: 2, column: 24 }],
+            extensions: {
+              code: 'GRAPHQL_VALIDATION_FAILED',
+              variableName: 'input',
+            },
           },
         ],
       });
@@ -986,6 +1066,7 @@ describe('Execute: Handles inputs', () => {
             message: 'Argument "input" has invalid value WRONG_TYPE.',
             locations: [{ line: 3, column: 48 }],
             path: ['fieldWithDefaultArgumentValue'],
+            extensions: { code: 'BAD_USER_INPUT', argumentName: 'input' },
           },
         ],
       });
@@ -1025,6 +1106,11 @@ describe('Execute: Handles inputs', () => {
       return {
         message: `Variable "$input" got invalid value ${value} at "input[${index}]"; String cannot represent a non string value: ${value}`,
         locations: [{ line: 2, column: 14 }],
+        extensions: {
+          code: 'BAD_USER_INPUT',
+          variableName: 'input',
+          path: [index],
+        },
       };
     }
 
@@ -1072,6 +1158,7 @@ describe('Execute: Handles inputs', () => {
           {
             message:
               'Too many errors processing variables, error limit reached. Execution aborted.',
+            extensions: { code: 'BAD_USER_INPUT' },
           },
         ],
       });
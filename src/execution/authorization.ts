@@ -0,0 +1,162 @@
+import type { ObjMap } from '../jsutils/ObjMap';
+import type { Path } from '../jsutils/Path';
+import { pathToArray } from '../jsutils/Path';
+import { isObjectLike } from '../jsutils/isObjectLike';
+import type { Maybe } from '../jsutils/Maybe';
+
+import { GraphQLError } from '../error/GraphQLError';
+
+import type { DirectiveNode, FieldNode } from '../language/ast';
+
+import type {
+  GraphQLField,
+  GraphQLObjectType,
+  GraphQLResolveInfo,
+} from '../type/definition';
+import { GraphQLAuthDirective } from '../type/directives';
+import type { GraphQLSchema } from '../type/schema';
+
+import { getDirectiveValues } from './values';
+
+// Schemas may share types, while the `@auth` directive only applies to the
+// schemas defining it.
+const schemaFieldRequirements = new WeakMap<
+  GraphQLSchema,
+  WeakMap<GraphQLField<unknown, unknown>, ReadonlyArray<string> | undefined>
+>();
+
+interface AnnotatedNode {
+  readonly directives?: ReadonlyArray<DirectiveNode>;
+}
+
+interface AuthSource {
+  extensions: Readonly<ObjMap<unknown>>;
+  astNode?: Maybe<AnnotatedNode>;
+  extensionASTNodes?: ReadonlyArray<AnnotatedNode>;
+}
+
+/**
+ * Returns the roles required to resolve a field, configured either as the
+ * `auth` extension, such as `{ auth: { requires: ['ADMIN'] } }`, or with the
+ * `@auth` directive, if the schema defines that directive.
+ *
+ * Requirements are collected from the field and its parent type, as well as
+ * from the interfaces implemented by the parent type and their field of the
+ * same name. Returns undefined if none of them requires authorization.
+ *
+ * @internal
+ */
+export function getFieldAuthRequirements(
+  schema: GraphQLSchema,
+  parentType: GraphQLObjectType,
+  fieldDef: GraphQLField<unknown, unknown>,
+): ReadonlyArray<string> | undefined {
+  let fieldRequirements = schemaFieldRequirements.get(schema);
+  if (fieldRequirements === undefined) {
+    fieldRequirements = new WeakMap();
+    schemaFieldRequirements.set(schema, fieldRequirements);
+  } else if (fieldRequirements.has(fieldDef)) {
+    return fieldRequirements.get(fieldDef);
+  }
+
+  // Meta fields such as `__schema` do not belong to the parent type.
+  const sources: Array<AuthSource> = [fieldDef];
+  if (parentType.getFields()[fieldDef.name] === fieldDef) {
+    sources.push(parentType);
+    for (const iface of parentType.getInterfaces()) {
+      sources.push(iface);
+      const ifaceField = iface.getFields()[fieldDef.name];
+      if (ifaceField !== undefined) {
+        sources.push(ifaceField);
+      }
+    }
+  }
+
+  let requires: Set<string> | undefined;
+  for (const source of sources) {
+    const roles = getAuthRoles(schema, source);
+    if (roles !== undefined) {
+      if (requires === undefined) {
+        requires = new Set();
+      }
+      for (const role of roles) {
+        requires.add(role);
+      }
+    }
+  }
+
+  const requirements = requires && Array.from(requires);
+  fieldRequirements.set(fieldDef, requirements);
+  return requirements;
+}
+
+function getAuthRoles(
+  schema: GraphQLSchema,
+  source: AuthSource,
+): ReadonlyArray<string> | undefined {
+  const { auth } = source.extensions;
+  if (isObjectLike(auth)) {
+    return Array.isArray(auth.requires) ? auth.requires : [];
+  }
+
+  if (schema.getDirective(GraphQLAuthDirective.name) == null) {
+    return undefined;
+  }
+
+  let roles: Array<string> | undefined;
+  for (const node of [source.astNode, ...(source.extensionASTNodes ?? [])]) {
+    const directive =
+      node != null ? getDirectiveValues(GraphQLAuthDirective, node) : undefined;
+    if (directive !== undefined) {
+      roles = (roles ?? []).concat(
+        Array.isArray(directive.requires) ? directive.requires : [],
+      );
+    }
+  }
+  return roles;
+}
+
+/**
+ * Returns whether the auth policy of the schema allows resolving a field.
+ * Fields requiring authorization are never allowed if the schema has no auth
+ * policy.
+ *
+ * @internal
+ */
+export function isFieldAuthorized(
+  schema: GraphQLSchema,
+  parentType: GraphQLObjectType,
+  fieldDef: GraphQLField<unknown, unknown>,
+  contextValue: unknown,
+  info: GraphQLResolveInfo,
+): boolean {
+  const requires = getFieldAuthRequirements(schema, parentType, fieldDef);
+  if (requires === undefined) {
+    return true;
+  }
+
+  return schema.authPolicy?.(contextValue, info, requires) === true;
+}
+
+/**
+ * Creates the error of a field which may not be resolved for the request,
+ * identified by the `FORBIDDEN` code of its extensions.
+ *
+ * @internal
+ */
+export function createForbiddenError(
+  parentType: GraphQLObjectType,
+  fieldDef: GraphQLField<unknown, unknown>,
+  fieldNodes: ReadonlyArray<FieldNode>,
+  path: Path,
+): GraphQLError {
+  return new GraphQLError(
+    `Not authorized to access "${parentType.name}.${fieldDef.name}".`,
+    fieldNodes,
+    undefined,
+    undefined,
+    pathToArray(path),
+    undefined,
+    { code: 'FORBIDDEN' },
+  );
+}
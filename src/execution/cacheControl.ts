@@ -0,0 +1,186 @@
+import type { ObjMap } from '../jsutils/ObjMap';
+import type { Maybe } from '../jsutils/Maybe';
+import { isObjectLike } from '../jsutils/isObjectLike';
+
+import type { DirectiveNode } from '../language/ast';
+
+import type { GraphQLField, GraphQLObjectType } from '../type/definition';
+import { getNamedType, isCompositeType } from '../type/definition';
+import { GraphQLCacheControlDirective } from '../type/directives';
+import type { GraphQLSchema } from '../type/schema';
+
+import { getDirectiveValues } from './values';
+import { getFieldAuthRequirements } from './authorization';
+
+export type CacheScope = 'PUBLIC' | 'PRIVATE';
+
+/**
+ * The cache policy of a response: the maximum age in seconds for which it may
+ * be cached, and whether it may be returned to other users than the one it
+ * was executed for.
+ */
+export interface CachePolicy {
+  maxAge: number;
+  scope: CacheScope;
+}
+
+interface CacheHint {
+  maxAge?: number;
+  scope?: CacheScope;
+}
+
+interface AnnotatedNode {
+  readonly directives?: ReadonlyArray<DirectiveNode>;
+}
+
+interface CacheHintSource {
+  extensions: Readonly<ObjMap<unknown>>;
+  astNode?: Maybe<AnnotatedNode>;
+  extensionASTNodes?: ReadonlyArray<AnnotatedNode>;
+}
+
+const schemaFieldCacheHints = new WeakMap<
+  GraphQLSchema,
+  WeakMap<GraphQLField<unknown, unknown>, CacheHint>
+>();
+
+/**
+ * Returns the cache hint of a field, configured either as the `cacheControl`
+ * extension, such as `{ cacheControl: { maxAge: 60, scope: 'PRIVATE' } }`,
+ * or with the `@cacheControl` directive. The maximum age of the type returned
+ * by the field applies unless the field sets its own, while either of them
+ * may restrict the scope to `PRIVATE`.
+ */
+function getFieldCacheHint(
+  schema: GraphQLSchema,
+  fieldDef: GraphQLField<unknown, unknown>,
+): CacheHint {
+  let fieldCacheHints = schemaFieldCacheHints.get(schema);
+  if (fieldCacheHints === undefined) {
+    fieldCacheHints = new WeakMap();
+    schemaFieldCacheHints.set(schema, fieldCacheHints);
+  }
+
+  let cacheHint = fieldCacheHints.get(fieldDef);
+  if (cacheHint === undefined) {
+    const namedType = getNamedType(fieldDef.type);
+    const fieldHint = getCacheHint(schema, fieldDef);
+    const typeHint = isCompositeType(namedType)
+      ? getCacheHint(schema, namedType)
+      : {};
+
+    cacheHint = {
+      maxAge: fieldHint.maxAge ?? typeHint.maxAge,
+      scope:
+        fieldHint.scope === 'PRIVATE' || typeHint.scope === 'PRIVATE'
+          ? 'PRIVATE'
+          : undefined,
+    };
+    fieldCacheHints.set(fieldDef, cacheHint);
+  }
+  return cacheHint;
+}
+
+function getCacheHint(
+  schema: GraphQLSchema,
+  source: CacheHintSource,
+): CacheHint {
+  const { cacheControl } = source.extensions;
+  if (isObjectLike(cacheControl)) {
+    return toCacheHint(cacheControl);
+  }
+
+  const cacheHint: CacheHint = {};
+  if (schema.getDirective(GraphQLCacheControlDirective.name) == null) {
+    return cacheHint;
+  }
+
+  for (const node of [source.astNode, ...(source.extensionASTNodes ?? [])]) {
+    const directive =
+      node != null
+        ? getDirectiveValues(GraphQLCacheControlDirective, node)
+        : undefined;
+    if (directive !== undefined) {
+      const { maxAge, scope } = toCacheHint(directive);
+      cacheHint.maxAge = maxAge ?? cacheHint.maxAge;
+      cacheHint.scope = scope ?? cacheHint.scope;
+    }
+  }
+  return cacheHint;
+}
+
+function toCacheHint(config: { [key: string]: unknown }): CacheHint {
+  const { maxAge, scope } = config;
+  return {
+    maxAge: typeof maxAge === 'number' ? maxAge : undefined,
+    scope: scope === 'PUBLIC' || scope === 'PRIVATE' ? scope : undefined,
+  };
+}
+
+/**
+ * Returns the initial cache policy of an execution, or undefined if the
+ * schema does not define the `@cacheControl` directive, in which case no
+ * cache policy is computed.
+ *
+ * @internal
+ */
+export function createCachePolicy(
+  schema: GraphQLSchema,
+): CachePolicy | undefined {
+  return schema.getDirective(GraphQLCacheControlDirective.name) != null
+    ? { maxAge: Infinity, scope: 'PUBLIC' }
+    : undefined;
+}
+
+/**
+ * Restricts the cache policy of an execution by the cache hint of a resolved
+ * field. Root fields and fields returning composite types without a maximum
+ * age restrict the policy to the default maximum age, while other fields
+ * leave it unchanged. Fields requiring authorization restrict the scope to
+ * `PRIVATE`, as other users may not be allowed to see them.
+ *
+ * @internal
+ */
+export function restrictCachePolicy(
+  cachePolicy: CachePolicy,
+  schema: GraphQLSchema,
+  parentType: GraphQLObjectType,
+  fieldDef: GraphQLField<unknown, unknown>,
+  isRootField: boolean,
+  defaultMaxAge: number,
+): void {
+  const { maxAge, scope } = getFieldCacheHint(schema, fieldDef);
+
+  const fieldMaxAge =
+    maxAge ??
+    (isRootField || isCompositeType(getNamedType(fieldDef.type))
+      ? defaultMaxAge
+      : undefined);
+  if (fieldMaxAge !== undefined && fieldMaxAge < cachePolicy.maxAge) {
+    cachePolicy.maxAge = fieldMaxAge;
+  }
+
+  if (
+    scope === 'PRIVATE' ||
+    getFieldAuthRequirements(schema, parentType, fieldDef) !== undefined
+  ) {
+    cachePolicy.scope = 'PRIVATE';
+  }
+}
+
+/**
+ * Returns the cache policy of a completed execution.
+ *
+ * @internal
+ */
+export function completeCachePolicy(
+  cachePolicy: CachePolicy,
+  defaultMaxAge: number,
+): CachePolicy {
+  return {
+    maxAge: Number.isFinite(cachePolicy.maxAge)
+      ? cachePolicy.maxAge
+      : defaultMaxAge,
+    scope: cachePolicy.scope,
+  };
+}
@@ -0,0 +1,126 @@
+import type { Maybe } from '../jsutils/Maybe';
+import type { PromiseOrValue } from '../jsutils/PromiseOrValue';
+
+import type {
+  ASTNode,
+  DocumentNode,
+  FieldNode,
+  SelectionSetNode,
+} from '../language/ast';
+import { BREAK, visit } from '../language/visitor';
+
+import type { GraphQLSchema } from '../type/schema';
+
+import type { ExecutionArgs, ExecutionPlan, ExecutionResult } from './execute';
+import {
+  assertValidExecutionArguments,
+  execute,
+  executeWithPlan,
+  selectOperation,
+} from './execute';
+
+/**
+ * The arguments of a compiled operation, i.e. those of `execute` except the
+ * ones fixed at compile time.
+ */
+export type CompiledOperationArgs = Omit<
+  ExecutionArgs,
+  'schema' | 'document' | 'operationName'
+>;
+
+/**
+ * Executes a compiled operation, with the same result as `execute`.
+ */
+export type CompiledOperation = (
+  args?: CompiledOperationArgs,
+) => PromiseOrValue<ExecutionResult>;
+
+/**
+ * Compiles an operation of a document ahead of time, for operations which are
+ * executed many times such as persisted operations.
+ *
+ * The operation and its fragments are selected once, and the field plans,
+ * the argument values and the possible types of abstract types are computed
+ * at most once and shared by every execution, as long as they do not depend
+ * on variables. Each resolver still receives its own copy of the argument
+ * values, so mutating them does not affect later executions.
+ *
+ * The returned function executes the operation with the same result as
+ * `execute`.
+ */
+export function compileOperation(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operationName?: Maybe<string>,
+): CompiledOperation {
+  // If arguments are missing or incorrect, throw an error.
+  assertValidExecutionArguments(schema, document, undefined);
+
+  const selectedOperation = selectOperation(document, operationName);
+  if (!('operation' in selectedOperation)) {
+    // Executing reports the errors of the selection, as `execute` would.
+    return (args) => execute({ ...args, schema, document, operationName });
+  }
+
+  const { operation, fragments } = selectedOperation;
+  const selectionSets = [
+    operation.selectionSet,
+    ...Object.values(fragments).map((fragment) => fragment.selectionSet),
+  ];
+
+  const plan: ExecutionPlan = {
+    schema,
+    fragments,
+    operation,
+    hasStaticFieldCollection: selectionSets.every(
+      (selectionSet) => !hasVariableInDirectives(selectionSet),
+    ),
+    staticArgumentFieldNodes: collectStaticArgumentFieldNodes(selectionSets),
+    possibleTypeMaps: new Map(),
+  };
+
+  return (args) =>
+    executeWithPlan({ ...args, schema, document, operationName }, plan);
+}
+
+function hasVariableInDirectives(selectionSet: SelectionSetNode): boolean {
+  let hasVariable = false;
+  visit(selectionSet, {
+    Directive(node) {
+      if (hasVariableReference(node)) {
+        hasVariable = true;
+        return BREAK;
+      }
+    },
+  });
+  return hasVariable;
+}
+
+function collectStaticArgumentFieldNodes(
+  selectionSets: ReadonlyArray<SelectionSetNode>,
+): Set<FieldNode> {
+  const fieldNodes = new Set<FieldNode>();
+  for (const selectionSet of selectionSets) {
+    visit(selectionSet, {
+      Field(node) {
+        if (
+          !node.arguments?.some((argument) => hasVariableReference(argument))
+        ) {
+          fieldNodes.add(node);
+        }
+      },
+    });
+  }
+  return fieldNodes;
+}
+
+function hasVariableReference(node: ASTNode): boolean {
+  let hasVariable = false;
+  visit(node, {
+    Variable() {
+      hasVariable = true;
+      return BREAK;
+    },
+  });
+  return hasVariable;
+}
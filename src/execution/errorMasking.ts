@@ -0,0 +1,56 @@
+import { GraphQLError } from '../error/GraphQLError';
+import { isErrorSafe } from '../error/safeError';
+
+/**
+ * Called with every error replaced in the response by a generic error when
+ * errors are masked, along with the id reported to the client, so that the
+ * original error may be logged.
+ */
+export type ExecutionErrorCallback = (
+  error: GraphQLError,
+  errorId: string,
+) => void;
+
+/**
+ * Replaces a field error caused by an unexpected exception with a generic
+ * error, identified by the `INTERNAL_SERVER_ERROR` code and an error id.
+ *
+ * Errors originating from a `GraphQLError`, such as the errors produced by
+ * the executor, and errors marked safe with `markErrorSafe` are returned
+ * unchanged.
+ *
+ * @internal
+ */
+export function maskFieldError(
+  error: GraphQLError,
+  onError: ExecutionErrorCallback | undefined,
+): GraphQLError {
+  const { originalError } = error;
+  if (
+    originalError == null ||
+    originalError instanceof GraphQLError ||
+    isErrorSafe(originalError)
+  ) {
+    return error;
+  }
+
+  const errorId = createErrorId();
+  onError?.(error, errorId);
+  return new GraphQLError(
+    'Unexpected error.',
+    error.nodes,
+    error.source,
+    error.positions,
+    error.path,
+    undefined,
+    { code: 'INTERNAL_SERVER_ERROR', errorId },
+  );
+}
+
+function createErrorId(): string {
+  let errorId = '';
+  while (errorId.length < 16) {
+    errorId += Math.floor(Math.random() * 16).toString(16);
+  }
+  return errorId;
+}
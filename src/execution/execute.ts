@@ -2,7 +2,9 @@ import type { Path } from '../jsutils/Path';
 import type { ObjMap } from '../jsutils/ObjMap';
 import type { PromiseOrValue } from '../jsutils/PromiseOrValue';
 import type { Maybe } from '../jsutils/Maybe';
+import type { AbortSignalLike } from '../jsutils/AbortSignalLike';
 import { inspect } from '../jsutils/inspect';
+import { keyMap } from '../jsutils/keyMap';
 import { memoize3 } from '../jsutils/memoize3';
 import { invariant } from '../jsutils/invariant';
 import { devAssert } from '../jsutils/devAssert';
@@ -12,16 +14,24 @@ import { promiseReduce } from '../jsutils/promiseReduce';
 import { promiseForObject } from '../jsutils/promiseForObject';
 import { addPath, pathToArray } from '../jsutils/Path';
 import { isIterableObject } from '../jsutils/isIterableObject';
+import { isAsyncIterable } from '../jsutils/isAsyncIterable';
 
 import type { GraphQLFormattedError } from '../error/GraphQLError';
 import { GraphQLError } from '../error/GraphQLError';
 import { locatedError } from '../error/locatedError';
 
+import type {
+  ExecuteDiagnosticsMessage,
+  ResolveDiagnosticsMessage,
+} from '../diagnostics';
+import { getDiagnosticsChannels, shouldTrace, traceCall } from '../diagnostics';
+
 import type {
   DocumentNode,
   OperationDefinitionNode,
   FieldNode,
   FragmentDefinitionNode,
+  SelectionSetNode,
 } from '../language/ast';
 import { OperationTypeNode } from '../language/ast';
 import { Kind } from '../language/kinds';
@@ -38,6 +48,10 @@ import type {
   GraphQLTypeResolver,
   GraphQLList,
 } from '../type/definition';
+import {
+  GraphQLDisableErrorPropagationDirective,
+  GraphQLStreamDirective,
+} from '../type/directives';
 import { assertValidSchema } from '../type/validate';
 import {
   SchemaMetaFieldDef,
@@ -52,11 +66,32 @@ import {
   isNonNullType,
 } from '../type/definition';
 
-import { getVariableValues, getArgumentValues } from './values';
+import {
+  getVariableValues,
+  getArgumentValues,
+  getDirectiveValues,
+} from './values';
+import type { FieldsAndPatches } from './collectFields';
 import {
   collectFields,
   collectSubfields as _collectSubfields,
 } from './collectFields';
+import { PromiseCanceller, getAbortReason } from './PromiseCanceller';
+import { BatchLoaderRegistry } from './BatchLoader';
+import type { EventStreamOptions } from './mapAsyncIterator';
+import { createTimeoutError, getFieldTimeout, withTimeout } from './timeouts';
+import { createForbiddenError, isFieldAuthorized } from './authorization';
+import type { CachePolicy } from './cacheControl';
+import {
+  completeCachePolicy,
+  createCachePolicy,
+  restrictCachePolicy,
+} from './cacheControl';
+import type { ExecutionErrorCallback } from './errorMasking';
+import { maskFieldError } from './errorMasking';
+import { ResponseExtensionsCollector } from './responseExtensions';
+import { resolveTypeByTypename } from './resolveTypeStrategies';
+import { PendingResultRegistry, streamJSONValue } from './streamJSON';
 
 /**
  * A memoized collection of relevant subfields with regard to the return
@@ -68,7 +103,7 @@ const collectSubfields = memoize3(
     exeContext: ExecutionContext,
     returnType: GraphQLObjectType,
     fieldNodes: ReadonlyArray<FieldNode>,
-  ) =>
+  ): FieldsAndPatches =>
     _collectSubfields(
       exeContext.schema,
       exeContext.fragments,
@@ -78,6 +113,40 @@ const collectSubfields = memoize3(
     ),
 );
 
+/**
+ * The fields collected for a compiled operation whose directives do not
+ * reference variables, memoized across every execution of that operation.
+ */
+const collectPlannedFields = memoize3(
+  (
+    plan: ExecutionPlan,
+    rootType: GraphQLObjectType,
+    selectionSet: SelectionSetNode,
+  ): FieldsAndPatches =>
+    collectFields(plan.schema, plan.fragments, {}, rootType, selectionSet),
+);
+
+const collectPlannedSubfields = memoize3(
+  (
+    plan: ExecutionPlan,
+    returnType: GraphQLObjectType,
+    fieldNodes: ReadonlyArray<FieldNode>,
+  ): FieldsAndPatches =>
+    _collectSubfields(plan.schema, plan.fragments, {}, returnType, fieldNodes),
+);
+
+/**
+ * The argument values of a field of a compiled operation which does not
+ * reference variables, memoized across every execution of that operation.
+ */
+const getPlannedArgumentValues = memoize3(
+  (
+    _plan: ExecutionPlan,
+    fieldDef: GraphQLField<unknown, unknown>,
+    fieldNode: FieldNode,
+  ): { [argument: string]: unknown } => getArgumentValues(fieldDef, fieldNode),
+);
+
 /**
  * Terminology
  *
@@ -114,7 +183,83 @@ export interface ExecutionContext {
   fieldResolver: GraphQLFieldResolver<any, any>;
   typeResolver: GraphQLTypeResolver<any, any>;
   subscribeFieldResolver: GraphQLFieldResolver<any, any>;
+  abortSignal: Maybe<AbortSignalLike>;
+  promiseCanceller: PromiseCanceller | undefined;
+  hooks: ReadonlyArray<ExecutionHooks>;
+  batchLoaders: BatchLoaderRegistry;
+  errorPropagation: boolean;
+  timeout: Maybe<number>;
+  deadline: number | undefined;
+  limits: Maybe<ExecutionLimits>;
+  invalidationKeys: Maybe<Set<string>>;
+  cachePolicy: CachePolicy | undefined;
+  defaultMaxAge: number;
+  responseExtensions: ResponseExtensionsCollector;
+  maskError: boolean;
+  onError: Maybe<ExecutionErrorCallback>;
+  stopOnFirstMutationError: boolean;
+  resolverScheduler: ResolverScheduler | undefined;
+  pendingResults: PendingResultRegistry | undefined;
+  runtimeTypeNames: Map<
+    GraphQLAbstractType,
+    WeakMap<object, PromiseOrValue<unknown>>
+  >;
+  resourceUsage: ResourceUsage;
+  resourceLimitError: GraphQLError | undefined;
+  plan: ExecutionPlan | undefined;
   errors: Array<GraphQLError>;
+  subsequentPayloads: Set<AsyncPayloadRecord>;
+}
+
+/**
+ * Limits on the resources used by a single execution. Once a limit is
+ * exceeded, the whole operation fails with an error.
+ */
+export interface ExecutionLimits {
+  /** The maximum number of fields resolved during the execution. */
+  maxResolvedFields?: Maybe<number>;
+  /** The maximum number of list items completed, across every list. */
+  maxListItems?: Maybe<number>;
+  /**
+   * The maximum size of the response data, in characters of its JSON
+   * serialization. The size is estimated from the response keys and the
+   * leaf values, ignoring punctuation.
+   */
+  maxResponseSize?: Maybe<number>;
+}
+
+interface ResourceUsage {
+  resolvedFields: number;
+  listItems: number;
+  responseSize: number;
+}
+
+const resourceLimitDescriptions = {
+  resolvedFields: ['maxResolvedFields', 'resolved fields'],
+  listItems: ['maxListItems', 'list items'],
+  responseSize: ['maxResponseSize', 'characters of response data'],
+} as const;
+
+/**
+ * The parts of an execution which only depend on the schema, the document and
+ * the operation name, computed once by `compileOperation` and shared by every
+ * execution of the compiled operation.
+ *
+ * @internal
+ */
+export interface ExecutionPlan {
+  schema: GraphQLSchema;
+  fragments: ObjMap<FragmentDefinitionNode>;
+  operation: OperationDefinitionNode;
+  /**
+   * Whether the fields collected from the selection sets are the same for
+   * every variable values, i.e. no directive of a selection uses a variable.
+   */
+  hasStaticFieldCollection: boolean;
+  /** The field nodes whose arguments do not use variables. */
+  staticArgumentFieldNodes: ReadonlySet<FieldNode>;
+  /** The possible types of abstract types, by type name. */
+  possibleTypeMaps: Map<GraphQLAbstractType, ObjMap<GraphQLObjectType>>;
 }
 
 /**
@@ -142,6 +287,113 @@ export interface FormattedExecutionResult<
   extensions?: TExtensions;
 }
 
+/**
+ * The result of an execution that uses `@defer` or `@stream`.
+ *
+ *   - `initialResult` is the ExecutionResult computed without the deferred
+ *     fragments and streamed list items.
+ *   - `subsequentResults` yields the remaining payloads as they complete.
+ */
+export interface ExperimentalIncrementalExecutionResults<
+  TData = ObjMap<unknown>,
+  TExtensions = ObjMap<unknown>,
+> {
+  initialResult: InitialIncrementalExecutionResult<TData, TExtensions>;
+  subsequentResults: AsyncGenerator<
+    SubsequentIncrementalExecutionResult<TData, TExtensions>,
+    void,
+    void
+  >;
+}
+
+export interface InitialIncrementalExecutionResult<
+  TData = ObjMap<unknown>,
+  TExtensions = ObjMap<unknown>,
+> extends ExecutionResult<TData, TExtensions> {
+  hasNext: boolean;
+  incremental?: ReadonlyArray<IncrementalResult<TData, TExtensions>>;
+  extensions?: TExtensions;
+}
+
+export interface FormattedInitialIncrementalExecutionResult<
+  TData = ObjMap<unknown>,
+  TExtensions = ObjMap<unknown>,
+> extends FormattedExecutionResult<TData, TExtensions> {
+  hasNext: boolean;
+  incremental?: ReadonlyArray<FormattedIncrementalResult<TData, TExtensions>>;
+  extensions?: TExtensions;
+}
+
+export interface SubsequentIncrementalExecutionResult<
+  TData = ObjMap<unknown>,
+  TExtensions = ObjMap<unknown>,
+> {
+  hasNext: boolean;
+  incremental?: ReadonlyArray<IncrementalResult<TData, TExtensions>>;
+  extensions?: TExtensions;
+}
+
+export interface FormattedSubsequentIncrementalExecutionResult<
+  TData = ObjMap<unknown>,
+  TExtensions = ObjMap<unknown>,
+> {
+  hasNext: boolean;
+  incremental?: ReadonlyArray<FormattedIncrementalResult<TData, TExtensions>>;
+  extensions?: TExtensions;
+}
+
+export interface IncrementalDeferResult<
+  TData = ObjMap<unknown>,
+  TExtensions = ObjMap<unknown>,
+> extends ExecutionResult<TData, TExtensions> {
+  path?: ReadonlyArray<string | number>;
+  label?: string;
+}
+
+export interface FormattedIncrementalDeferResult<
+  TData = ObjMap<unknown>,
+  TExtensions = ObjMap<unknown>,
+> extends FormattedExecutionResult<TData, TExtensions> {
+  path?: ReadonlyArray<string | number>;
+  label?: string;
+}
+
+export interface IncrementalStreamResult<
+  TData = Array<unknown>,
+  TExtensions = ObjMap<unknown>,
+> {
+  errors?: ReadonlyArray<GraphQLError>;
+  items?: TData | null;
+  path?: ReadonlyArray<string | number>;
+  label?: string;
+  extensions?: TExtensions;
+}
+
+export interface FormattedIncrementalStreamResult<
+  TData = Array<unknown>,
+  TExtensions = ObjMap<unknown>,
+> {
+  errors?: ReadonlyArray<GraphQLFormattedError>;
+  items?: TData | null;
+  path?: ReadonlyArray<string | number>;
+  label?: string;
+  extensions?: TExtensions;
+}
+
+export type IncrementalResult<
+  TData = ObjMap<unknown>,
+  TExtensions = ObjMap<unknown>,
+> =
+  | IncrementalDeferResult<TData, TExtensions>
+  | IncrementalStreamResult<TData, TExtensions>;
+
+export type FormattedIncrementalResult<
+  TData = ObjMap<unknown>,
+  TExtensions = ObjMap<unknown>,
+> =
+  | FormattedIncrementalDeferResult<TData, TExtensions>
+  | FormattedIncrementalStreamResult<TData, TExtensions>;
+
 export interface ExecutionArgs {
   schema: GraphQLSchema;
   document: DocumentNode;
@@ -152,8 +404,93 @@ export interface ExecutionArgs {
   fieldResolver?: Maybe<GraphQLFieldResolver<any, any>>;
   typeResolver?: Maybe<GraphQLTypeResolver<any, any>>;
   subscribeFieldResolver?: Maybe<GraphQLFieldResolver<any, any>>;
+  abortSignal?: Maybe<AbortSignalLike>;
+  hooks?: Maybe<ReadonlyArray<ExecutionHooks>>;
+  maxBatchSize?: Maybe<number>;
+  errorPropagation?: Maybe<boolean>;
+  timeout?: Maybe<number>;
+  limits?: Maybe<ExecutionLimits>;
+  batchLoaders?: Maybe<BatchLoaderRegistry>;
+  invalidationKeys?: Maybe<Set<string>>;
+  emitSourceErrors?: Maybe<boolean>;
+  eventStreamOptions?: Maybe<EventStreamOptions>;
+  defaultMaxAge?: Maybe<number>;
+  maskError?: Maybe<boolean>;
+  onError?: Maybe<ExecutionErrorCallback>;
+  stopOnFirstMutationError?: Maybe<boolean>;
+  maxConcurrentResolvers?: Maybe<number>;
+}
+
+/**
+ * Callbacks invoked at the different stages of an execution, allowing
+ * tracing, authorization or logging to be composed per request without
+ * modifying the schema. Every callback is optional.
+ *
+ * When several hooks are provided they are invoked in order, except for the
+ * callbacks returned from `onResolve`, which are invoked in reverse order.
+ */
+export interface ExecutionHooks {
+  /**
+   * Called before the execution context is built.
+   */
+  onExecute?: (args: ExecutionArgs) => void;
+  /**
+   * Called once the operation to execute is selected and its variables are
+   * coerced.
+   */
+  onOperation?: (
+    operation: OperationDefinitionNode,
+    variableValues: { [variable: string]: unknown },
+  ) => void;
+  /**
+   * Called before each field resolver. May return a callback which is invoked
+   * once the resolver returned or threw, or its promise settled.
+   */
+  onResolve?: (
+    field: GraphQLField<unknown, unknown>,
+    info: GraphQLResolveInfo,
+  ) => ExecutionResolveDoneHook | undefined;
+  /**
+   * Called with the result of the execution, or with the initial result if
+   * the execution delivers its result incrementally.
+   */
+  onExecuteDone?: (result: ExecutionResult) => void;
+  /**
+   * Called before the root fields of a mutation are executed, for example to
+   * begin a database transaction. The execution waits for a returned promise.
+   */
+  onMutationStart?: (
+    operation: OperationDefinitionNode,
+  ) => PromiseOrValue<void>;
+  /**
+   * Called once each root field of a mutation is executed, with the errors
+   * raised while executing it. The next field is executed once a returned
+   * promise resolved.
+   */
+  onMutationFieldSettled?: (
+    path: Path,
+    errors: ReadonlyArray<GraphQLError>,
+  ) => PromiseOrValue<void>;
+  /**
+   * Called once the root fields of a mutation are executed, with the errors
+   * raised while executing them, for example to commit a database transaction
+   * or to roll it back on failure. The result is returned once a returned
+   * promise resolved.
+   */
+  onMutationEnd?: (errors: ReadonlyArray<GraphQLError>) => PromiseOrValue<void>;
 }
 
+/**
+ * Called with either the error raised by a resolver or its resolved value.
+ */
+export type ExecutionResolveDoneHook = (
+  error: unknown,
+  result: unknown,
+) => void;
+
+const UNEXPECTED_MULTIPLE_PAYLOADS =
+  'Executing this GraphQL operation would unexpectedly produce multiple payloads (due to @defer or @stream directive)';
+
 /**
  * Implements the "Executing requests" section of the GraphQL specification.
  *
@@ -163,6 +500,12 @@ export interface ExecutionArgs {
  *
  * If the arguments to this function do not result in a legal execution context,
  * a GraphQLError will be thrown immediately explaining the invalid input.
+ *
+ * This function does not support incremental delivery (`@defer` and `@stream`).
+ * If an operation which would defer or stream data is executed with this
+ * function, it returns a result with an error and no data instead.
+ * Use `experimentalExecuteIncrementally` if you want to support incremental
+ * delivery.
  */
 export function execute(args: ExecutionArgs): PromiseOrValue<ExecutionResult> {
   // Temporary for v15 to v16 migration. Remove in v17
@@ -171,20 +514,139 @@ export function execute(args: ExecutionArgs): PromiseOrValue<ExecutionResult> {
     'graphql@16 dropped long-deprecated support for positional arguments, please pass an object instead.',
   );
 
-  const { schema, document, variableValues, rootValue } = args;
+  return assertSingleResult(experimentalExecuteIncrementally(args));
+}
+
+/**
+ * Executes an operation using the parts of the execution computed ahead of
+ * time by `compileOperation`.
+ *
+ * @internal
+ */
+export function executeWithPlan(
+  args: ExecutionArgs,
+  plan: ExecutionPlan,
+): PromiseOrValue<ExecutionResult> {
+  return assertSingleResult(executeIncrementallyImpl(args, plan));
+}
+
+function assertSingleResult(
+  result: PromiseOrValue<
+    ExecutionResult | ExperimentalIncrementalExecutionResults
+  >,
+): PromiseOrValue<ExecutionResult> {
+  if (isPromise(result)) {
+    return result.then(toSingleResult);
+  }
+  return toSingleResult(result);
+}
+
+function toSingleResult(
+  result: ExecutionResult | ExperimentalIncrementalExecutionResults,
+): ExecutionResult {
+  if ('initialResult' in result) {
+    // Returning the subsequent results stops the streams which would keep
+    // pulling items and releases the abort signal.
+    result.subsequentResults.return().then(undefined, () => {
+      /* ignore error */
+    });
+    return { errors: [createMultiplePayloadsError()] };
+  }
+  return result;
+}
+
+function createMultiplePayloadsError(): GraphQLError {
+  return new GraphQLError(
+    UNEXPECTED_MULTIPLE_PAYLOADS,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    { code: 'INCREMENTAL_DELIVERY_NOT_SUPPORTED' },
+  );
+}
+
+/**
+ * Implements the "Executing requests" section of the GraphQL specification,
+ * including `@defer` and `@stream` as proposed in
+ * https://github.com/graphql/graphql-spec/pull/742
+ *
+ * This function returns a Promise of an ExperimentalIncrementalExecutionResults
+ * object. This object either consists of a single ExecutionResult, or an
+ * object containing an `initialResult` and a stream of `subsequentResults`.
+ *
+ * If the arguments to this function do not result in a legal execution context,
+ * a GraphQLError will be thrown immediately explaining the invalid input.
+ */
+export function experimentalExecuteIncrementally(
+  args: ExecutionArgs,
+): PromiseOrValue<ExecutionResult | ExperimentalIncrementalExecutionResults> {
+  return executeIncrementallyImpl(args, undefined);
+}
+
+function executeIncrementallyImpl(
+  args: ExecutionArgs,
+  plan: ExecutionPlan | undefined,
+): PromiseOrValue<ExecutionResult | ExperimentalIncrementalExecutionResults> {
+  const channels = getDiagnosticsChannels()?.execute;
+  if (shouldTrace(channels)) {
+    const message: ExecuteDiagnosticsMessage = { args };
+    return traceCall(channels, message, () => executeArgs(args, plan));
+  }
+  return executeArgs(args, plan);
+}
+
+function executeArgs(
+  args: ExecutionArgs,
+  plan: ExecutionPlan | undefined,
+): PromiseOrValue<ExecutionResult | ExperimentalIncrementalExecutionResults> {
+  const { schema, document, variableValues, hooks } = args;
 
   // If arguments are missing or incorrect, throw an error.
   assertValidExecutionArguments(schema, document, variableValues);
 
+  if (hooks) {
+    for (const hook of hooks) {
+      hook.onExecute?.(args);
+    }
+  }
+
   // If a valid execution context cannot be created due to incorrect arguments,
   // a "Response" with only errors is returned.
-  const exeContext = buildExecutionContext(args);
+  const exeContext = buildExecutionContext(args, plan);
 
   // Return early errors if execution context failed.
   if (!('schema' in exeContext)) {
-    return { errors: exeContext };
+    const errorResult = { errors: exeContext };
+    if (hooks) {
+      invokeExecuteDoneHooks(hooks, errorResult);
+    }
+    return errorResult;
   }
 
+  for (const hook of exeContext.hooks) {
+    hook.onOperation?.(exeContext.operation, exeContext.variableValues);
+  }
+
+  const result = executeImpl(exeContext);
+  if (exeContext.hooks.length === 0) {
+    return result;
+  }
+
+  if (isPromise(result)) {
+    return result.then((resolved) => {
+      invokeExecuteDoneHooks(exeContext.hooks, resolved);
+      return resolved;
+    });
+  }
+  invokeExecuteDoneHooks(exeContext.hooks, result);
+  return result;
+}
+
+function executeImpl(
+  exeContext: ExecutionContext,
+): PromiseOrValue<ExecutionResult | ExperimentalIncrementalExecutionResults> {
   // Return a Promise that will eventually resolve to the data described by
   // The "Response" section of the GraphQL specification.
   //
@@ -197,21 +659,23 @@ export function execute(args: ExecutionArgs): PromiseOrValue<ExecutionResult> {
   // at which point we still log the error and null the parent field, which
   // in this case is the entire response.
   try {
-    const { operation } = exeContext;
+    const { operation, rootValue } = exeContext;
     const result = executeOperation(exeContext, operation, rootValue);
     if (isPromise(result)) {
       return result.then(
-        (data) => buildResponse(data, exeContext.errors),
+        (data) => buildIncrementalResponse(data, exeContext),
         (error) => {
           exeContext.errors.push(error);
-          return buildResponse(null, exeContext.errors);
+          exeContext.promiseCanceller?.disconnect();
+          return buildResponse(null, exeContext);
         },
       );
     }
-    return buildResponse(result, exeContext.errors);
+    return buildIncrementalResponse(result, exeContext);
   } catch (error) {
     exeContext.errors.push(error);
-    return buildResponse(null, exeContext.errors);
+    exeContext.promiseCanceller?.disconnect();
+    return buildResponse(null, exeContext);
   }
 }
 
@@ -231,15 +695,148 @@ export function executeSync(args: ExecutionArgs): ExecutionResult {
   return result;
 }
 
+/**
+ * Executes an operation as `execute` does, yielding the JSON serialization of
+ * its result in chunks, so that large responses may be written as their data
+ * is completed.
+ *
+ * The data is serialized in response order, each part being serialized once
+ * it is completed and it is known that no error of a non-null field nulls it.
+ * The errors and extensions are serialized after the data, once the execution
+ * completed. An error failing the whole operation after some data was
+ * serialized, such as an exceeded resource limit, is only reported among the
+ * errors.
+ */
+export async function* executeToJSONStream(
+  args: ExecutionArgs,
+): AsyncGenerator<string, void, void> {
+  const { schema, document, variableValues, hooks } = args;
+
+  // If arguments are missing or incorrect, throw an error.
+  assertValidExecutionArguments(schema, document, variableValues);
+
+  if (hooks) {
+    for (const hook of hooks) {
+      hook.onExecute?.(args);
+    }
+  }
+
+  const exeContext = buildExecutionContext(args);
+  if (!('schema' in exeContext)) {
+    const errorResult = { errors: exeContext };
+    if (hooks) {
+      invokeExecuteDoneHooks(hooks, errorResult);
+    }
+    yield JSON.stringify(errorResult);
+    return;
+  }
+
+  for (const hook of exeContext.hooks) {
+    hook.onOperation?.(exeContext.operation, exeContext.variableValues);
+  }
+
+  const pendingResults = new PendingResultRegistry();
+  exeContext.pendingResults = pendingResults;
+
+  let data: PromiseOrValue<ObjMap<unknown> | null>;
+  try {
+    const { operation, rootValue } = exeContext;
+    data = executeOperation(exeContext, operation, rootValue);
+  } catch (error) {
+    exeContext.errors.push(error);
+    data = null;
+  }
+
+  let chunk = '{"data":';
+  for await (const part of streamJSONValue(data, pendingResults)) {
+    if (part !== undefined) {
+      chunk += part;
+    } else if (chunk !== '') {
+      yield chunk;
+      chunk = '';
+    }
+  }
+
+  let completedData;
+  try {
+    completedData = await data;
+  } catch (error) {
+    exeContext.errors.push(error);
+    completedData = null;
+  }
+  if (exeContext.subsequentPayloads.size > 0) {
+    returnStreamIterators(exeContext);
+    exeContext.errors.push(createMultiplePayloadsError());
+  }
+  exeContext.promiseCanceller?.disconnect();
+
+  const result = buildResponse(completedData, exeContext);
+  invokeExecuteDoneHooks(exeContext.hooks, result);
+  if (result.errors) {
+    chunk += `,"errors":${JSON.stringify(result.errors)}`;
+  }
+  if (result.extensions) {
+    chunk += `,"extensions":${JSON.stringify(result.extensions)}`;
+  }
+  yield chunk + '}';
+}
+
 /**
  * Given a completed execution context and data, build the `{ errors, data }`
  * response defined by the "Response" section of the GraphQL specification.
+ *
+ * The extensions added by resolvers are reported under `extensions`, along
+ * with the cache policy of the response, if computed, under
+ * `extensions.cacheControl`.
  */
 function buildResponse(
   data: ObjMap<unknown> | null,
-  errors: ReadonlyArray<GraphQLError>,
+  exeContext: ExecutionContext,
 ): ExecutionResult {
-  return errors.length === 0 ? { data } : { errors, data };
+  const { errors, cachePolicy } = exeContext;
+  const result: ExecutionResult =
+    errors.length === 0 ? { data } : { errors, data };
+  const extensions = exeContext.responseExtensions.flush();
+  if (cachePolicy) {
+    result.extensions = {
+      ...extensions,
+      cacheControl: completeCachePolicy(cachePolicy, exeContext.defaultMaxAge),
+    };
+  } else if (extensions) {
+    result.extensions = extensions;
+  }
+  return result;
+}
+
+function invokeExecuteDoneHooks(
+  hooks: ReadonlyArray<ExecutionHooks>,
+  result: ExecutionResult | ExperimentalIncrementalExecutionResults,
+): void {
+  const executionResult =
+    'initialResult' in result ? result.initialResult : result;
+  for (const hook of hooks) {
+    hook.onExecuteDone?.(executionResult);
+  }
+}
+
+/**
+ * Builds the response as `buildResponse` does, splitting it into an initial
+ * result and a stream of subsequent results if any payloads were deferred or
+ * streamed during execution.
+ */
+function buildIncrementalResponse(
+  data: ObjMap<unknown> | null,
+  exeContext: ExecutionContext,
+): ExecutionResult | ExperimentalIncrementalExecutionResults {
+  const initialResult = buildResponse(data, exeContext);
+  if (exeContext.subsequentPayloads.size === 0) {
+    exeContext.promiseCanceller?.disconnect();
+    return initialResult;
+  }
+  return {
+    initialResult: { ...initialResult, hasNext: true },
+    subsequentResults: yieldSubsequentPayloads(exeContext),
+  };
 }
 
 /**
@@ -275,6 +872,7 @@ export function assertValidExecutionArguments(
  */
 export function buildExecutionContext(
   args: ExecutionArgs,
+  plan?: ExecutionPlan,
 ): ReadonlyArray<GraphQLError> | ExecutionContext {
   const {
     schema,
@@ -286,38 +884,26 @@ export function buildExecutionContext(
     fieldResolver,
     typeResolver,
     subscribeFieldResolver,
+    abortSignal,
+    hooks,
+    maxBatchSize,
+    errorPropagation,
+    timeout,
+    limits,
+    batchLoaders,
+    invalidationKeys,
+    defaultMaxAge,
+    maskError,
+    onError,
+    stopOnFirstMutationError,
+    maxConcurrentResolvers,
   } = args;
 
-  let operation: OperationDefinitionNode | undefined;
-  const fragments: ObjMap<FragmentDefinitionNode> = Object.create(null);
-  for (const definition of document.definitions) {
-    switch (definition.kind) {
-      case Kind.OPERATION_DEFINITION:
-        if (operationName == null) {
-          if (operation !== undefined) {
-            return [
-              new GraphQLError(
-                'Must provide operation name if query contains multiple operations.',
-              ),
-            ];
-          }
-          operation = definition;
-        } else if (definition.name?.value === operationName) {
-          operation = definition;
-        }
-        break;
-      case Kind.FRAGMENT_DEFINITION:
-        fragments[definition.name.value] = definition;
-        break;
-    }
-  }
-
-  if (!operation) {
-    if (operationName != null) {
-      return [new GraphQLError(`Unknown operation named "${operationName}".`)];
-    }
-    return [new GraphQLError('Must provide an operation.')];
+  const selectedOperation = plan ?? selectOperation(document, operationName);
+  if (!('operation' in selectedOperation)) {
+    return selectedOperation;
   }
+  const { operation, fragments } = selectedOperation;
 
   // istanbul ignore next (See: 'https://github.com/graphql/graphql-js/issues/2203')
   const variableDefinitions = operation.variableDefinitions ?? [];
@@ -343,56 +929,205 @@ export function buildExecutionContext(
     fieldResolver: fieldResolver ?? defaultFieldResolver,
     typeResolver: typeResolver ?? defaultTypeResolver,
     subscribeFieldResolver: subscribeFieldResolver ?? defaultFieldResolver,
+    abortSignal,
+    promiseCanceller: abortSignal
+      ? new PromiseCanceller(abortSignal)
+      : undefined,
+    hooks: hooks ?? [],
+    batchLoaders: batchLoaders ?? new BatchLoaderRegistry(maxBatchSize),
+    errorPropagation:
+      errorPropagation !== false &&
+      !hasDisableErrorPropagationDirective(schema, operation),
+    timeout,
+    deadline: timeout != null ? Date.now() + timeout : undefined,
+    limits,
+    invalidationKeys,
+    cachePolicy: createCachePolicy(schema),
+    defaultMaxAge: defaultMaxAge ?? 0,
+    responseExtensions: new ResponseExtensionsCollector(),
+    maskError: maskError === true,
+    onError,
+    stopOnFirstMutationError: stopOnFirstMutationError === true,
+    resolverScheduler:
+      maxConcurrentResolvers != null
+        ? new ResolverScheduler(maxConcurrentResolvers)
+        : undefined,
+    pendingResults: undefined,
+    runtimeTypeNames: new Map(),
+    resourceUsage: { resolvedFields: 0, listItems: 0, responseSize: 0 },
+    resourceLimitError: undefined,
+    plan,
     errors: [],
+    subsequentPayloads: new Set(),
   };
 }
 
 /**
- * Implements the "Executing operations" section of the spec.
+ * Selects the operation to execute from the document, along with the
+ * fragments it may spread.
+ *
+ * @internal
  */
-function executeOperation(
-  exeContext: ExecutionContext,
-  operation: OperationDefinitionNode,
-  rootValue: unknown,
-): PromiseOrValue<ObjMap<unknown> | null> {
-  const rootType = exeContext.schema.getRootType(operation.operation);
-  if (rootType == null) {
-    throw new GraphQLError(
-      `Schema is not configured to execute ${operation.operation} operation.`,
-      operation,
-    );
-  }
-
-  const rootFields = collectFields(
-    exeContext.schema,
-    exeContext.fragments,
-    exeContext.variableValues,
-    rootType,
-    operation.selectionSet,
-  );
-  const path = undefined;
-
+export function selectOperation(
+  document: DocumentNode,
+  operationName: Maybe<string>,
+):
+  | ReadonlyArray<GraphQLError>
+  | {
+      operation: OperationDefinitionNode;
+      fragments: ObjMap<FragmentDefinitionNode>;
+    } {
+  let operation: OperationDefinitionNode | undefined;
+  const fragments: ObjMap<FragmentDefinitionNode> = Object.create(null);
+  for (const definition of document.definitions) {
+    switch (definition.kind) {
+      case Kind.OPERATION_DEFINITION:
+        if (operationName == null) {
+          if (operation !== undefined) {
+            return [
+              new GraphQLError(
+                'Must provide operation name if query contains multiple operations.',
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                { code: 'OPERATION_NAME_REQUIRED' },
+              ),
+            ];
+          }
+          operation = definition;
+        } else if (definition.name?.value === operationName) {
+          operation = definition;
+        }
+        break;
+      case Kind.FRAGMENT_DEFINITION:
+        fragments[definition.name.value] = definition;
+        break;
+    }
+  }
+
+  if (!operation) {
+    if (operationName != null) {
+      return [
+        new GraphQLError(
+          `Unknown operation named "${operationName}".`,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { code: 'OPERATION_NOT_FOUND', operationName },
+        ),
+      ];
+    }
+    return [
+      new GraphQLError(
+        'Must provide an operation.',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { code: 'OPERATION_NOT_FOUND' },
+      ),
+    ];
+  }
+
+  return { operation, fragments };
+}
+
+function hasDisableErrorPropagationDirective(
+  schema: GraphQLSchema,
+  operation: OperationDefinitionNode,
+): boolean {
+  if (
+    schema.getDirective(GraphQLDisableErrorPropagationDirective.name) == null
+  ) {
+    return false;
+  }
+
+  return (
+    getDirectiveValues(GraphQLDisableErrorPropagationDirective, operation) !==
+    undefined
+  );
+}
+
+/**
+ * Implements the "Executing operations" section of the spec.
+ */
+function executeOperation(
+  exeContext: ExecutionContext,
+  operation: OperationDefinitionNode,
+  rootValue: unknown,
+): PromiseOrValue<ObjMap<unknown> | null> {
+  const rootType = exeContext.schema.getRootType(operation.operation);
+  if (rootType == null) {
+    throw new GraphQLError(
+      `Schema is not configured to execute ${operation.operation} operation.`,
+      operation,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'OPERATION_NOT_SUPPORTED' },
+    );
+  }
+
+  const { plan } = exeContext;
+  const { fields: rootFields, patches } = plan?.hasStaticFieldCollection
+    ? collectPlannedFields(plan, rootType, operation.selectionSet)
+    : collectFields(
+        exeContext.schema,
+        exeContext.fragments,
+        exeContext.variableValues,
+        rootType,
+        operation.selectionSet,
+      );
+  const path = undefined;
+  let result;
+
   switch (operation.operation) {
     case OperationTypeNode.QUERY:
-      return executeFields(exeContext, rootType, rootValue, path, rootFields);
+      result = executeFields(exeContext, rootType, rootValue, path, rootFields);
+      break;
     case OperationTypeNode.MUTATION:
-      return executeFieldsSerially(
+      result = executeFieldsSerially(
         exeContext,
         rootType,
         rootValue,
         path,
         rootFields,
       );
+      break;
     case OperationTypeNode.SUBSCRIPTION:
       // TODO: deprecate `subscribe` and move all logic here
       // Temporary solution until we finish merging execute and subscribe together
-      return executeFields(exeContext, rootType, rootValue, path, rootFields);
+      result = executeFields(exeContext, rootType, rootValue, path, rootFields);
+  }
+
+  for (const patch of patches) {
+    const { label, fields: patchFields } = patch;
+    executeDeferredFragment(
+      exeContext,
+      rootType,
+      rootValue,
+      patchFields,
+      label,
+      path,
+    );
   }
+
+  return result;
 }
 
 /**
  * Implements the "Executing selection sets" section of the spec
  * for fields that must be executed serially.
+ *
+ * The fields are surrounded by the mutation hooks of the execution. Once a
+ * field raised an error, the remaining fields are not executed and resolve to
+ * null with an error if `stopOnFirstMutationError` is set.
  */
 function executeFieldsSerially(
   exeContext: ExecutionContext,
@@ -401,31 +1136,139 @@ function executeFieldsSerially(
   path: Path | undefined,
   fields: Map<string, ReadonlyArray<FieldNode>>,
 ): PromiseOrValue<ObjMap<unknown>> {
-  return promiseReduce(
-    fields.entries(),
-    (results, [responseName, fieldNodes]) => {
-      const fieldPath = addPath(path, responseName, parentType.name);
-      const result = executeField(
-        exeContext,
-        parentType,
-        sourceValue,
-        fieldNodes,
-        fieldPath,
-      );
-      if (result === undefined) {
-        return results;
-      }
-      if (isPromise(result)) {
-        return result.then((resolvedResult) => {
-          results[responseName] = resolvedResult;
-          return results;
-        });
-      }
-      results[responseName] = result;
-      return results;
-    },
-    Object.create(null),
+  const { hooks, errors, operation } = exeContext;
+  const initialErrorCount = errors.length;
+  const getErrors = (fromIndex: number, error: unknown) =>
+    error === undefined
+      ? errors.slice(fromIndex)
+      : [...errors.slice(fromIndex), error as GraphQLError];
+  let hasFailed = false;
+
+  const executeMutationFields = () =>
+    withSettledCallback(
+      () =>
+        promiseReduce(
+          fields.entries(),
+          (results, [responseName, fieldNodes]) => {
+            const fieldPath = addPath(path, responseName, parentType.name);
+            if (hasFailed) {
+              const fieldDef = getFieldDef(
+                exeContext.schema,
+                parentType,
+                fieldNodes[0],
+              );
+              if (fieldDef) {
+                results[responseName] = handleFieldError(
+                  new GraphQLError(
+                    `Field "${parentType.name}.${fieldDef.name}" was not executed because a previous field raised an error.`,
+                    fieldNodes,
+                    undefined,
+                    undefined,
+                    pathToArray(fieldPath),
+                    undefined,
+                    { code: 'MUTATION_FIELD_SKIPPED' },
+                  ),
+                  exeContext,
+                  fieldDef.type,
+                  errors,
+                );
+              }
+              return results;
+            }
+            const fieldErrorCount = errors.length;
+            return withSettledCallback(
+              () => {
+                const result = executeField(
+                  exeContext,
+                  parentType,
+                  sourceValue,
+                  fieldNodes,
+                  fieldPath,
+                );
+                if (result === undefined) {
+                  return results;
+                }
+                if (isPromise(result)) {
+                  return result.then((resolvedResult) => {
+                    results[responseName] = resolvedResult;
+                    return results;
+                  });
+                }
+                results[responseName] = result;
+                return results;
+              },
+              (error) => {
+                const fieldErrors = getErrors(fieldErrorCount, error);
+                hasFailed =
+                  exeContext.stopOnFirstMutationError && fieldErrors.length > 0;
+                return invokeMutationHooks(hooks, (hook) =>
+                  hook.onMutationFieldSettled?.(fieldPath, fieldErrors),
+                );
+              },
+            );
+          },
+          Object.create(null),
+        ),
+      (error) =>
+        invokeMutationHooks(hooks, (hook) =>
+          hook.onMutationEnd?.(getErrors(initialErrorCount, error)),
+        ),
+    );
+
+  const started = invokeMutationHooks(hooks, (hook) =>
+    hook.onMutationStart?.(operation),
   );
+  return isPromise(started)
+    ? started.then(executeMutationFields)
+    : executeMutationFields();
+}
+
+/**
+ * Invokes the mutation hooks one after another, waiting for the promises they
+ * return.
+ */
+function invokeMutationHooks(
+  hooks: ReadonlyArray<ExecutionHooks>,
+  invoke: (hook: ExecutionHooks) => PromiseOrValue<void>,
+): PromiseOrValue<void> {
+  let result;
+  for (const hook of hooks) {
+    result = isPromise(result) ? result.then(() => invoke(hook)) : invoke(hook);
+  }
+  return result;
+}
+
+/**
+ * Calls the callback once the value is computed, with the error if computing
+ * it failed, before returning the value or throwing the error.
+ */
+function withSettledCallback<T>(
+  getValue: () => PromiseOrValue<T>,
+  onSettled: (error: unknown) => PromiseOrValue<void>,
+): PromiseOrValue<T> {
+  const returnValue = (value: T): PromiseOrValue<T> => {
+    const settled = onSettled(undefined);
+    return isPromise(settled) ? settled.then(() => value) : value;
+  };
+  const throwError = (error: unknown): PromiseOrValue<T> => {
+    const settled = onSettled(error);
+    if (isPromise(settled)) {
+      return settled.then(() => {
+        throw error;
+      });
+    }
+    throw error;
+  };
+
+  let value;
+  try {
+    value = getValue();
+  } catch (error) {
+    return throwError(error);
+  }
+  return isPromise(value)
+    ? value.then(returnValue, throwError)
+    : returnValue(value);
 }
 
 /**
@@ -438,6 +1281,7 @@ function executeFields(
   sourceValue: unknown,
   path: Path | undefined,
   fields: Map<string, ReadonlyArray<FieldNode>>,
+  asyncPayloadRecord?: AsyncPayloadRecord,
 ): PromiseOrValue<ObjMap<unknown>> {
   const results = Object.create(null);
   let containsPromise = false;
@@ -450,6 +1294,7 @@ function executeFields(
       sourceValue,
       fieldNodes,
       fieldPath,
+      asyncPayloadRecord,
     );
 
     if (result !== undefined) {
@@ -465,12 +1310,46 @@ function executeFields(
     return results;
   }
 
+  // Streamed results are serialized before the object is completed.
+  if (exeContext.pendingResults && asyncPayloadRecord === undefined) {
+    exeContext.pendingResults.add(
+      path,
+      results,
+      getRequiredResponseNames(exeContext, parentType, fields),
+    );
+  }
+
   // Otherwise, results is a map from field name to the result of resolving that
   // field, which is possibly a promise. Return a promise that will return this
   // same map, but with any promises replaced with the values they resolved to.
   return promiseForObject(results);
 }
 
+/**
+ * Returns the response names of the non-null fields, whose error nulls their
+ * parent object.
+ */
+function getRequiredResponseNames(
+  exeContext: ExecutionContext,
+  parentType: GraphQLObjectType,
+  fields: Map<string, ReadonlyArray<FieldNode>>,
+): Array<string> {
+  const requiredResponseNames = [];
+  if (exeContext.errorPropagation) {
+    for (const [responseName, fieldNodes] of fields.entries()) {
+      const fieldDef = getFieldDef(
+        exeContext.schema,
+        parentType,
+        fieldNodes[0],
+      );
+      if (fieldDef && isNonNullType(fieldDef.type)) {
+        requiredResponseNames.push(responseName);
+      }
+    }
+  }
+  return requiredResponseNames;
+}
+
 /**
  * Implements the "Executing field" section of the spec
  * In particular, this function figures out the value that the field returns by
@@ -483,7 +1362,9 @@ function executeField(
   source: unknown,
   fieldNodes: ReadonlyArray<FieldNode>,
   path: Path,
+  asyncPayloadRecord?: AsyncPayloadRecord,
 ): PromiseOrValue<unknown> {
+  const errors = asyncPayloadRecord?.errors ?? exeContext.errors;
   const fieldDef = getFieldDef(exeContext.schema, parentType, fieldNodes[0]);
   if (!fieldDef) {
     return;
@@ -500,28 +1381,93 @@ function executeField(
     path,
   );
 
+  if (exeContext.cachePolicy) {
+    restrictCachePolicy(
+      exeContext.cachePolicy,
+      exeContext.schema,
+      parentType,
+      fieldDef,
+      path.prev === undefined,
+      exeContext.defaultMaxAge,
+    );
+  }
+
   // Get the resolve function, regardless of if its result is normal or abrupt (error).
   try {
     // Build a JS object of arguments from the field.arguments AST, using the
-    // variables scope to fulfill any variable references.
+    // variables scope to fulfill any variable references. Compiled operations
+    // memoize the arguments which do not reference variables.
     // TODO: find a way to memoize, in case this field is within a List type.
-    const args = getArgumentValues(
-      fieldDef,
-      fieldNodes[0],
-      exeContext.variableValues,
-    );
+    const { plan } = exeContext;
+    const args = plan?.staticArgumentFieldNodes.has(fieldNodes[0])
+      ? { ...getPlannedArgumentValues(plan, fieldDef, fieldNodes[0]) }
+      : getArgumentValues(fieldDef, fieldNodes[0], exeContext.variableValues);
 
     // The resolve function's optional third argument is a context value that
     // is provided to every resolve function within an execution. It is commonly
     // used to represent an authenticated user, or request-specific caches.
     const contextValue = exeContext.contextValue;
 
-    const result = resolveFn(source, args, contextValue, info);
+    // Stop scheduling new field resolutions once the operation is aborted
+    // or its deadline is exceeded.
+    throwIfAborted(exeContext);
+    throwIfTimedOut(exeContext, fieldNodes, path);
+
+    if (
+      !isFieldAuthorized(
+        exeContext.schema,
+        parentType,
+        fieldDef,
+        contextValue,
+        info,
+      )
+    ) {
+      throw createForbiddenError(parentType, fieldDef, fieldNodes, path);
+    }
+
+    if (exeContext.limits) {
+      trackResourceUsage(exeContext, 'resolvedFields', 1);
+      trackResourceUsage(exeContext, 'responseSize', String(path.key).length);
+    }
+
+    const { resolverScheduler } = exeContext;
+    const result =
+      resolverScheduler === undefined
+        ? invokeResolver(exeContext, fieldDef, resolveFn, source, args, info)
+        : resolverScheduler.schedule(() => {
+            // Queued resolvers are not invoked once the operation is aborted.
+            throwIfAborted(exeContext);
+            return invokeResolver(
+              exeContext,
+              fieldDef,
+              resolveFn,
+              source,
+              args,
+              info,
+            );
+          });
 
     let completed;
     if (isPromise(result)) {
-      completed = result.then((resolved) =>
-        completeValue(exeContext, returnType, fieldNodes, info, path, resolved),
+      const promisedResult = withFieldTimeout(
+        exeContext,
+        fieldDef,
+        info,
+        path,
+        exeContext.promiseCanceller
+          ? exeContext.promiseCanceller.withCancellation(result)
+          : result,
+      );
+      completed = promisedResult.then((resolved) =>
+        completeValue(
+          exeContext,
+          returnType,
+          fieldNodes,
+          info,
+          path,
+          resolved,
+          asyncPayloadRecord,
+        ),
       );
     } else {
       completed = completeValue(
@@ -531,6 +1477,7 @@ function executeField(
         info,
         path,
         result,
+        asyncPayloadRecord,
       );
     }
 
@@ -539,13 +1486,27 @@ function executeField(
       // to take a second callback for the error case.
       return completed.then(undefined, (rawError) => {
         const error = locatedError(rawError, fieldNodes, pathToArray(path));
-        return handleFieldError(error, returnType, exeContext);
+        const handledError = handleFieldError(
+          error,
+          exeContext,
+          returnType,
+          errors,
+        );
+        filterSubsequentPayloads(exeContext, path, asyncPayloadRecord);
+        return handledError;
       });
     }
     return completed;
   } catch (rawError) {
     const error = locatedError(rawError, fieldNodes, pathToArray(path));
-    return handleFieldError(error, returnType, exeContext);
+    const handledError = handleFieldError(
+      error,
+      exeContext,
+      returnType,
+      errors,
+    );
+    filterSubsequentPayloads(exeContext, path, asyncPayloadRecord);
+    return handledError;
   }
 }
 
@@ -572,100 +1533,360 @@ export function buildResolveInfo(
     rootValue: exeContext.rootValue,
     operation: exeContext.operation,
     variableValues: exeContext.variableValues,
+    abortSignal: exeContext.abortSignal,
+    loaders: exeContext.batchLoaders,
+    invalidationKeys: exeContext.invalidationKeys,
+    addExtension: (key, value) =>
+      exeContext.responseExtensions.add(path, key, value),
   };
 }
 
-function handleFieldError(
-  error: GraphQLError,
-  returnType: GraphQLOutputType,
+/**
+ * Calls the resolve function of a field, publishing its diagnostics events if
+ * they have subscribers.
+ */
+function invokeResolver(
   exeContext: ExecutionContext,
-): null {
-  // If the field type is non-nullable, then it is resolved without any
-  // protection from errors, however it still properly locates the error.
-  if (isNonNullType(returnType)) {
-    throw error;
-  }
+  fieldDef: GraphQLField<unknown, unknown>,
+  resolveFn: GraphQLFieldResolver<unknown, unknown>,
+  source: unknown,
+  args: ObjMap<unknown>,
+  info: GraphQLResolveInfo,
+): unknown {
+  const resolveChannels = getDiagnosticsChannels()?.resolve;
+  return shouldTrace(resolveChannels)
+    ? traceCall(
+        resolveChannels,
+        createResolveMessage(info.path, args, info),
+        () =>
+          resolveFieldValue(
+            exeContext,
+            fieldDef,
+            resolveFn,
+            source,
+            args,
+            info,
+          ),
+      )
+    : resolveFieldValue(exeContext, fieldDef, resolveFn, source, args, info);
+}
 
-  // Otherwise, error protection is applied, logging the error and resolving
-  // a null value for this field if one is encountered.
-  exeContext.errors.push(error);
-  return null;
+function createResolveMessage(
+  path: Path,
+  args: ObjMap<unknown>,
+  info: GraphQLResolveInfo,
+): ResolveDiagnosticsMessage {
+  return { path: pathToArray(path), args, info };
+}
+
+function resolveFieldValue(
+  exeContext: ExecutionContext,
+  fieldDef: GraphQLField<unknown, unknown>,
+  resolveFn: GraphQLFieldResolver<unknown, unknown>,
+  source: unknown,
+  args: ObjMap<unknown>,
+  info: GraphQLResolveInfo,
+): unknown {
+  return exeContext.hooks.length === 0
+    ? resolveFn(source, args, exeContext.contextValue, info)
+    : resolveFieldWithHooks(
+        exeContext,
+        fieldDef,
+        resolveFn,
+        source,
+        args,
+        info,
+      );
 }
 
 /**
- * Implements the instructions for completeValue as defined in the
- * "Field entries" section of the spec.
- *
- * If the field type is Non-Null, then this recursively completes the value
- * for the inner type. It throws a field error if that completion returns null,
- * as per the "Nullability" section of the spec.
- *
- * If the field type is a List, then this recursively completes the value
- * for the inner type on each item in the list.
- *
- * If the field type is a Scalar or Enum, ensures the completed value is a legal
- * value of the type by calling the `serialize` method of GraphQL type
- * definition.
- *
- * If the field is an abstract type, determine the runtime type of the value
- * and then complete based on that type
- *
- * Otherwise, the field type expects a sub-selection set, and will complete the
- * value by executing all sub-selections.
+ * Calls the resolve function of a field, surrounded by the `onResolve` hooks
+ * of the execution and the callbacks they return.
  */
-function completeValue(
+function resolveFieldWithHooks(
   exeContext: ExecutionContext,
-  returnType: GraphQLOutputType,
-  fieldNodes: ReadonlyArray<FieldNode>,
+  fieldDef: GraphQLField<unknown, unknown>,
+  resolveFn: GraphQLFieldResolver<unknown, unknown>,
+  source: unknown,
+  args: { [argument: string]: unknown },
   info: GraphQLResolveInfo,
-  path: Path,
-  result: unknown,
-): PromiseOrValue<unknown> {
-  // If result is an Error, throw a located error.
-  if (result instanceof Error) {
-    throw result;
+): unknown {
+  const doneHooks: Array<ExecutionResolveDoneHook> = [];
+  for (const hook of exeContext.hooks) {
+    const doneHook = hook.onResolve?.(fieldDef, info);
+    if (typeof doneHook === 'function') {
+      doneHooks.push(doneHook);
+    }
   }
 
-  // If field type is NonNull, complete for inner type, and throw field error
-  // if result is null.
-  if (isNonNullType(returnType)) {
-    const completed = completeValue(
-      exeContext,
-      returnType.ofType,
-      fieldNodes,
-      info,
-      path,
-      result,
-    );
-    if (completed === null) {
-      throw new Error(
-        `Cannot return null for non-nullable field ${info.parentType.name}.${info.fieldName}.`,
-      );
-    }
-    return completed;
+  const contextValue = exeContext.contextValue;
+  if (doneHooks.length === 0) {
+    return resolveFn(source, args, contextValue, info);
   }
 
-  // If result value is null or undefined then return null.
-  if (result == null) {
-    return null;
+  const invokeDoneHooks = (error: unknown, result: unknown) => {
+    for (let i = doneHooks.length - 1; i >= 0; i--) {
+      doneHooks[i](error, result);
+    }
+  };
+
+  let result;
+  try {
+    result = resolveFn(source, args, contextValue, info);
+  } catch (error) {
+    invokeDoneHooks(error, undefined);
+    throw error;
   }
 
-  // If field type is List, complete each item in the list with the inner type
-  if (isListType(returnType)) {
-    return completeListValue(
-      exeContext,
-      returnType,
-      fieldNodes,
-      info,
-      path,
-      result,
+  if (isPromise(result)) {
+    return result.then(
+      (resolved) => {
+        invokeDoneHooks(undefined, resolved);
+        return resolved;
+      },
+      (error) => {
+        invokeDoneHooks(error, undefined);
+        throw error;
+      },
     );
   }
 
-  // If field type is a leaf type, Scalar or Enum, serialize to a valid value,
-  // returning null if serialization is not possible.
-  if (isLeafType(returnType)) {
-    return completeLeafValue(returnType, result);
+  invokeDoneHooks(undefined, result);
+  return result;
+}
+
+/**
+ * Throws the abort reason as an error if the execution was aborted.
+ */
+function throwIfAborted(exeContext: ExecutionContext): void {
+  const { abortSignal } = exeContext;
+  if (abortSignal?.aborted) {
+    throw getAbortReason(abortSignal);
+  }
+}
+
+/**
+ * Throws a timeout error if the deadline of the operation is exceeded.
+ */
+function throwIfTimedOut(
+  exeContext: ExecutionContext,
+  fieldNodes: ReadonlyArray<FieldNode>,
+  path: Path,
+): void {
+  const { deadline } = exeContext;
+  if (deadline !== undefined && Date.now() >= deadline) {
+    throw createTimeoutError(
+      `Operation timed out after ${exeContext.timeout}ms.`,
+      fieldNodes,
+      path,
+    );
+  }
+}
+
+/**
+ * Rejects the promised result of a resolver with a timeout error once either
+ * the timeout of the field or the deadline of the operation is exceeded,
+ * whichever comes first.
+ */
+function withFieldTimeout<T>(
+  exeContext: ExecutionContext,
+  fieldDef: GraphQLField<unknown, unknown>,
+  info: GraphQLResolveInfo,
+  path: Path,
+  promise: Promise<T>,
+): Promise<T> {
+  const fieldTimeout = getFieldTimeout(exeContext.schema, fieldDef);
+  const { deadline } = exeContext;
+  const remainingTime =
+    deadline === undefined ? undefined : deadline - Date.now();
+
+  if (
+    remainingTime !== undefined &&
+    (fieldTimeout === undefined || remainingTime < fieldTimeout)
+  ) {
+    return withTimeout(promise, remainingTime, () =>
+      createTimeoutError(
+        `Operation timed out after ${exeContext.timeout}ms.`,
+        info.fieldNodes,
+        path,
+      ),
+    );
+  }
+
+  if (fieldTimeout !== undefined) {
+    return withTimeout(promise, fieldTimeout, () =>
+      createTimeoutError(
+        `Field "${info.parentType.name}.${info.fieldName}" timed out after ${fieldTimeout}ms.`,
+        info.fieldNodes,
+        path,
+      ),
+    );
+  }
+
+  return promise;
+}
+
+/**
+ * Adds to the usage of a resource, failing the whole operation once the usage
+ * exceeds the limit of the resource.
+ */
+function trackResourceUsage(
+  exeContext: ExecutionContext,
+  resource: keyof ResourceUsage,
+  amount: number,
+): void {
+  const [limitName, description] = resourceLimitDescriptions[resource];
+  const limit = exeContext.limits?.[limitName];
+  if (limit == null) {
+    return;
+  }
+
+  const { resourceUsage } = exeContext;
+  resourceUsage[resource] += amount;
+  if (resourceUsage[resource] > limit) {
+    if (exeContext.resourceLimitError === undefined) {
+      exeContext.resourceLimitError = new GraphQLError(
+        `Execution exceeded the limit of ${limit} ${description}.`,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { code: 'RESOURCE_LIMIT_EXCEEDED' },
+      );
+    }
+    throw exeContext.resourceLimitError;
+  }
+}
+
+function handleFieldError(
+  rawError: GraphQLError,
+  exeContext: ExecutionContext,
+  returnType: GraphQLOutputType,
+  errors: Array<GraphQLError>,
+): null {
+  // Exceeding a resource limit fails the whole operation.
+  const { resourceLimitError } = exeContext;
+  if (
+    resourceLimitError !== undefined &&
+    rawError.originalError === resourceLimitError
+  ) {
+    throw resourceLimitError;
+  }
+
+  // Unexpected exceptions do not expose their message once masked.
+  const error = exeContext.maskError
+    ? maskFieldError(rawError, exeContext.onError ?? undefined)
+    : rawError;
+
+  // If the field type is non-nullable, then it is resolved without any
+  // protection from errors, however it still properly locates the error.
+  // When error propagation is disabled, the null is instead kept at the
+  // position of the error.
+  if (exeContext.errorPropagation && isNonNullType(returnType)) {
+    throw error;
+  }
+
+  // Otherwise, error protection is applied, logging the error and resolving
+  // a null value for this field if one is encountered.
+  errors.push(error);
+  return null;
+}
+
+/**
+ * Implements the instructions for completeValue as defined in the
+ * "Field entries" section of the spec.
+ *
+ * If the field type is Non-Null, then this recursively completes the value
+ * for the inner type. It throws a field error if that completion returns null,
+ * as per the "Nullability" section of the spec.
+ *
+ * If the field type is a List, then this recursively completes the value
+ * for the inner type on each item in the list.
+ *
+ * If the field type is a Scalar or Enum, ensures the completed value is a legal
+ * value of the type by calling the `serialize` method of GraphQL type
+ * definition.
+ *
+ * If the field is an abstract type, determine the runtime type of the value
+ * and then complete based on that type
+ *
+ * Otherwise, the field type expects a sub-selection set, and will complete the
+ * value by executing all sub-selections.
+ */
+function completeValue(
+  exeContext: ExecutionContext,
+  returnType: GraphQLOutputType,
+  fieldNodes: ReadonlyArray<FieldNode>,
+  info: GraphQLResolveInfo,
+  path: Path,
+  result: unknown,
+  asyncPayloadRecord?: AsyncPayloadRecord,
+): PromiseOrValue<unknown> {
+  // If result is an Error, throw a located error.
+  if (result instanceof Error) {
+    throw result;
+  }
+
+  // Do not complete any further values once the operation is aborted.
+  throwIfAborted(exeContext);
+
+  // If field type is NonNull, complete for inner type, and throw field error
+  // if result is null.
+  if (isNonNullType(returnType)) {
+    const completed = completeValue(
+      exeContext,
+      returnType.ofType,
+      fieldNodes,
+      info,
+      path,
+      result,
+      asyncPayloadRecord,
+    );
+    if (completed === null) {
+      throw new GraphQLError(
+        `Cannot return null for non-nullable field ${info.parentType.name}.${info.fieldName}.`,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { code: 'NON_NULL_VIOLATION' },
+      );
+    }
+    return completed;
+  }
+
+  // If result value is null or undefined then return null.
+  if (result == null) {
+    return null;
+  }
+
+  // If field type is List, complete each item in the list with the inner type
+  if (isListType(returnType)) {
+    return completeListValue(
+      exeContext,
+      returnType,
+      fieldNodes,
+      info,
+      path,
+      result,
+      asyncPayloadRecord,
+    );
+  }
+
+  // If field type is a leaf type, Scalar or Enum, serialize to a valid value,
+  // returning null if serialization is not possible.
+  if (isLeafType(returnType)) {
+    const completed = completeLeafValue(returnType, result);
+    if (exeContext.limits?.maxResponseSize != null) {
+      trackResourceUsage(
+        exeContext,
+        'responseSize',
+        JSON.stringify(completed).length,
+      );
+    }
+    return completed;
   }
 
   // If field type is an abstract type, Interface or Union, determine the
@@ -678,6 +1899,7 @@ function completeValue(
       info,
       path,
       result,
+      asyncPayloadRecord,
     );
   }
 
@@ -691,6 +1913,7 @@ function completeValue(
       info,
       path,
       result,
+      asyncPayloadRecord,
     );
   }
 
@@ -701,6 +1924,62 @@ function completeValue(
   );
 }
 
+/**
+ * Returns an object containing the `@stream` arguments if a field should be
+ * streamed based on the stream directive present and not disabled by the
+ * "if" argument.
+ *
+ * Streaming is opt-in: it only applies when the schema declares `@stream`.
+ */
+function getStreamValues(
+  exeContext: ExecutionContext,
+  fieldNodes: ReadonlyArray<FieldNode>,
+  path: Path,
+): undefined | { initialCount: number; label: string | undefined } {
+  // do not stream inner lists of multi-dimensional lists
+  if (typeof path.key === 'number') {
+    return;
+  }
+
+  if (exeContext.schema.getDirective(GraphQLStreamDirective.name) == null) {
+    return;
+  }
+
+  // validation only allows equivalent streams on multiple fields, so it is
+  // safe to only check the first fieldNode for the stream directive
+  const stream = getDirectiveValues(
+    GraphQLStreamDirective,
+    fieldNodes[0],
+    exeContext.variableValues,
+  );
+
+  if (!stream) {
+    return;
+  }
+
+  if (stream.if === false) {
+    return;
+  }
+
+  const initialCount = stream.initialCount;
+  if (typeof initialCount !== 'number' || initialCount < 0) {
+    throw new GraphQLError(
+      'initialCount must be a non-negative integer',
+      fieldNodes,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'BAD_USER_INPUT', argumentName: 'initialCount' },
+    );
+  }
+
+  return {
+    initialCount,
+    label: typeof stream.label === 'string' ? stream.label : undefined,
+  };
+}
+
 /**
  * Complete a list value by completing each item in the list with the
  * inner type
@@ -712,66 +1991,292 @@ function completeListValue(
   info: GraphQLResolveInfo,
   path: Path,
   result: unknown,
+  asyncPayloadRecord?: AsyncPayloadRecord,
 ): PromiseOrValue<ReadonlyArray<unknown>> {
+  const itemType = returnType.ofType;
+
+  if (isAsyncIterable(result)) {
+    const iterator = result[Symbol.asyncIterator]();
+
+    return completeAsyncIteratorValue(
+      exeContext,
+      itemType,
+      fieldNodes,
+      info,
+      path,
+      iterator,
+      asyncPayloadRecord,
+    );
+  }
+
   if (!isIterableObject(result)) {
     throw new GraphQLError(
       `Expected Iterable, but did not find one for field "${info.parentType.name}.${info.fieldName}".`,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'INVALID_LIST_VALUE' },
     );
   }
 
+  const errors = asyncPayloadRecord?.errors ?? exeContext.errors;
+  const stream = getStreamValues(exeContext, fieldNodes, path);
+
   // This is specified as a simple map, however we're optimizing the path
   // where the list contains no Promises by avoiding creating another Promise.
-  const itemType = returnType.ofType;
   let containsPromise = false;
-  const completedResults = Array.from(result, (item, index) => {
+  let previousAsyncPayloadRecord = asyncPayloadRecord;
+  const completedResults: Array<unknown> = [];
+  let index = 0;
+  for (const item of result) {
+    if (exeContext.limits) {
+      trackResourceUsage(exeContext, 'listItems', 1);
+    }
+
     // No need to modify the info object containing the path,
     // since from here on it is not ever accessed by resolver functions.
     const itemPath = addPath(path, index, undefined);
+
+    if (stream && index >= stream.initialCount) {
+      previousAsyncPayloadRecord = executeStreamField(
+        path,
+        itemPath,
+        item,
+        exeContext,
+        fieldNodes,
+        info,
+        itemType,
+        stream.label,
+        previousAsyncPayloadRecord,
+      );
+      index++;
+      continue;
+    }
+
+    if (
+      completeListItemValue(
+        item,
+        completedResults,
+        errors,
+        exeContext,
+        itemType,
+        fieldNodes,
+        info,
+        itemPath,
+        asyncPayloadRecord,
+      )
+    ) {
+      containsPromise = true;
+    }
+
+    index++;
+  }
+
+  if (!containsPromise) {
+    return completedResults;
+  }
+
+  // Streamed results are serialized before the list is completed.
+  if (exeContext.pendingResults && asyncPayloadRecord === undefined) {
+    exeContext.pendingResults.add(
+      path,
+      completedResults,
+      exeContext.errorPropagation && isNonNullType(itemType)
+        ? completedResults.map((_item, itemIndex) => itemIndex)
+        : [],
+    );
+  }
+  return Promise.all(completedResults);
+}
+
+/**
+ * Complete an async iterator value by completing each item pulled from the
+ * iterator, one at a time, with the inner type.
+ */
+async function completeAsyncIteratorValue(
+  exeContext: ExecutionContext,
+  itemType: GraphQLOutputType,
+  fieldNodes: ReadonlyArray<FieldNode>,
+  info: GraphQLResolveInfo,
+  path: Path,
+  iterator: AsyncIterator<unknown>,
+  asyncPayloadRecord?: AsyncPayloadRecord,
+): Promise<ReadonlyArray<unknown>> {
+  const errors = asyncPayloadRecord?.errors ?? exeContext.errors;
+  const stream = getStreamValues(exeContext, fieldNodes, path);
+  let containsPromise = false;
+  const completedResults: Array<unknown> = [];
+
+  async function completeItems(index: number): Promise<void> {
+    if (stream && index >= stream.initialCount) {
+      executeStreamIterator(
+        index,
+        iterator,
+        exeContext,
+        fieldNodes,
+        info,
+        itemType,
+        path,
+        stream.label,
+        asyncPayloadRecord,
+      ).then(undefined, () => {
+        /* ignore error */
+      });
+      return;
+    }
+
+    const itemPath = addPath(path, index, undefined);
+    let iteration;
     try {
-      let completedItem;
-      if (isPromise(item)) {
-        completedItem = item.then((resolved) =>
-          completeValue(
-            exeContext,
-            itemType,
-            fieldNodes,
-            info,
-            itemPath,
-            resolved,
-          ),
-        );
-      } else {
-        completedItem = completeValue(
+      iteration = await nextIteration(exeContext, iterator);
+      if (iteration.done === true) {
+        return;
+      }
+    } catch (rawError) {
+      // The iterator may still be pulling the next item if it was aborted.
+      returnIterator(iterator);
+      const error = locatedError(rawError, fieldNodes, pathToArray(itemPath));
+      completedResults.push(
+        handleFieldError(error, exeContext, itemType, errors),
+      );
+      return;
+    }
+
+    try {
+      if (exeContext.limits) {
+        trackResourceUsage(exeContext, 'listItems', 1);
+      }
+
+      if (
+        completeListItemValue(
+          iteration.value,
+          completedResults,
+          errors,
           exeContext,
           itemType,
           fieldNodes,
           info,
           itemPath,
-          item,
-        );
+          asyncPayloadRecord,
+        )
+      ) {
+        containsPromise = true;
       }
+    } catch (error) {
+      // The list is not completed, so the remaining items are not needed.
+      returnIterator(iterator);
+      throw error;
+    }
 
-      if (isPromise(completedItem)) {
-        containsPromise = true;
-        // Note: we don't rely on a `catch` method, but we do expect "thenable"
-        // to take a second callback for the error case.
-        return completedItem.then(undefined, (rawError) => {
+    return completeItems(index + 1);
+  }
+
+  await completeItems(0);
+  return containsPromise ? Promise.all(completedResults) : completedResults;
+}
+
+/**
+ * Pulls the next item of an async iterator, which is rejected if the
+ * operation is aborted meanwhile.
+ */
+function nextIteration(
+  exeContext: ExecutionContext,
+  iterator: AsyncIterator<unknown>,
+): Promise<IteratorResult<unknown>> {
+  const iteration = iterator.next();
+  return exeContext.promiseCanceller
+    ? exeContext.promiseCanceller.withCancellation(iteration)
+    : iteration;
+}
+
+function returnIterator(iterator: AsyncIterator<unknown>): void {
+  if (typeof iterator.return === 'function') {
+    iterator.return().then(undefined, () => {
+      /* ignore error */
+    });
+  }
+}
+
+/**
+ * Complete a list item value by adding it to the completed results.
+ *
+ * Returns true if the value is a Promise.
+ */
+function completeListItemValue(
+  item: unknown,
+  completedResults: Array<unknown>,
+  errors: Array<GraphQLError>,
+  exeContext: ExecutionContext,
+  itemType: GraphQLOutputType,
+  fieldNodes: ReadonlyArray<FieldNode>,
+  info: GraphQLResolveInfo,
+  itemPath: Path,
+  asyncPayloadRecord?: AsyncPayloadRecord,
+): boolean {
+  try {
+    let completedItem;
+    if (isPromise(item)) {
+      const promisedItem = exeContext.promiseCanceller
+        ? exeContext.promiseCanceller.withCancellation(item)
+        : item;
+      completedItem = promisedItem.then((resolved) =>
+        completeValue(
+          exeContext,
+          itemType,
+          fieldNodes,
+          info,
+          itemPath,
+          resolved,
+          asyncPayloadRecord,
+        ),
+      );
+    } else {
+      completedItem = completeValue(
+        exeContext,
+        itemType,
+        fieldNodes,
+        info,
+        itemPath,
+        item,
+        asyncPayloadRecord,
+      );
+    }
+
+    if (isPromise(completedItem)) {
+      // Note: we don't rely on a `catch` method, but we do expect "thenable"
+      // to take a second callback for the error case.
+      completedResults.push(
+        completedItem.then(undefined, (rawError) => {
           const error = locatedError(
             rawError,
             fieldNodes,
             pathToArray(itemPath),
           );
-          return handleFieldError(error, itemType, exeContext);
-        });
-      }
-      return completedItem;
-    } catch (rawError) {
-      const error = locatedError(rawError, fieldNodes, pathToArray(itemPath));
-      return handleFieldError(error, itemType, exeContext);
+          const handledError = handleFieldError(
+            error,
+            exeContext,
+            itemType,
+            errors,
+          );
+          filterSubsequentPayloads(exeContext, itemPath, asyncPayloadRecord);
+          return handledError;
+        }),
+      );
+
+      return true;
     }
-  });
 
-  return containsPromise ? Promise.all(completedResults) : completedResults;
+    completedResults.push(completedItem);
+  } catch (rawError) {
+    const error = locatedError(rawError, fieldNodes, pathToArray(itemPath));
+    const handledError = handleFieldError(error, exeContext, itemType, errors);
+    filterSubsequentPayloads(exeContext, itemPath, asyncPayloadRecord);
+    completedResults.push(handledError);
+  }
+
+  return false;
 }
 
 /**
@@ -782,11 +2287,34 @@ function completeLeafValue(
   returnType: GraphQLLeafType,
   result: unknown,
 ): unknown {
-  const serializedResult = returnType.serialize(result);
+  let serializedResult;
+  try {
+    serializedResult = returnType.serialize(result);
+  } catch (error) {
+    // The specified scalars and enums report invalid values as GraphQLErrors.
+    if (error instanceof GraphQLError && error.extensions.code === undefined) {
+      throw new GraphQLError(
+        error.message,
+        error.nodes,
+        error.source,
+        error.positions,
+        error.path,
+        error,
+        { ...error.extensions, code: 'INVALID_LEAF_VALUE' },
+      );
+    }
+    throw error;
+  }
   if (serializedResult == null) {
-    throw new Error(
+    throw new GraphQLError(
       `Expected \`${inspect(returnType)}.serialize(${inspect(result)})\` to ` +
         `return non-nullable value, returned: ${inspect(serializedResult)}`,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'INVALID_LEAF_VALUE' },
     );
   }
   return serializedResult;
@@ -803,10 +2331,14 @@ function completeAbstractValue(
   info: GraphQLResolveInfo,
   path: Path,
   result: unknown,
+  asyncPayloadRecord?: AsyncPayloadRecord,
 ): PromiseOrValue<ObjMap<unknown>> {
-  const resolveTypeFn = returnType.resolveType ?? exeContext.typeResolver;
-  const contextValue = exeContext.contextValue;
-  const runtimeType = resolveTypeFn(result, contextValue, info, returnType);
+  const runtimeType = resolveRuntimeTypeName(
+    exeContext,
+    returnType,
+    info,
+    result,
+  );
 
   if (isPromise(runtimeType)) {
     return runtimeType.then((resolvedRuntimeType) =>
@@ -824,6 +2356,7 @@ function completeAbstractValue(
         info,
         path,
         result,
+        asyncPayloadRecord,
       ),
     );
   }
@@ -842,9 +2375,41 @@ function completeAbstractValue(
     info,
     path,
     result,
+    asyncPayloadRecord,
   );
 }
 
+/**
+ * Calls the type resolver of an abstract type. The runtime types resolved by
+ * the default type resolver only depend on the values, and are memoized for
+ * the values completed more than once during the execution.
+ */
+function resolveRuntimeTypeName(
+  exeContext: ExecutionContext,
+  returnType: GraphQLAbstractType,
+  info: GraphQLResolveInfo,
+  result: unknown,
+): PromiseOrValue<unknown> {
+  const resolveTypeFn = returnType.resolveType ?? exeContext.typeResolver;
+  const contextValue = exeContext.contextValue;
+  if (resolveTypeFn !== defaultTypeResolver || !isObjectLike(result)) {
+    return resolveTypeFn(result, contextValue, info, returnType);
+  }
+
+  let runtimeTypeNames = exeContext.runtimeTypeNames.get(returnType);
+  if (runtimeTypeNames === undefined) {
+    runtimeTypeNames = new WeakMap();
+    exeContext.runtimeTypeNames.set(returnType, runtimeTypeNames);
+  }
+
+  let runtimeTypeName = runtimeTypeNames.get(result);
+  if (runtimeTypeName === undefined) {
+    runtimeTypeName = resolveTypeFn(result, contextValue, info, returnType);
+    runtimeTypeNames.set(result, runtimeTypeName);
+  }
+  return runtimeTypeName;
+}
+
 function ensureValidRuntimeType(
   runtimeTypeName: unknown,
   exeContext: ExecutionContext,
@@ -853,10 +2418,23 @@ function ensureValidRuntimeType(
   info: GraphQLResolveInfo,
   result: unknown,
 ): GraphQLObjectType {
+  const { plan } = exeContext;
+  if (plan !== undefined && typeof runtimeTypeName === 'string') {
+    const possibleType = getPossibleTypeMap(plan, returnType)[runtimeTypeName];
+    if (possibleType !== undefined) {
+      return possibleType;
+    }
+  }
+
   if (runtimeTypeName == null) {
     throw new GraphQLError(
       `Abstract type "${returnType.name}" must resolve to an Object type at runtime for field "${info.parentType.name}.${info.fieldName}". Either the "${returnType.name}" type should provide a "resolveType" function or each possible type should provide an "isTypeOf" function.`,
       fieldNodes,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'INVALID_RUNTIME_TYPE' },
     );
   }
 
@@ -865,6 +2443,12 @@ function ensureValidRuntimeType(
   if (isObjectType(runtimeTypeName)) {
     throw new GraphQLError(
       'Support for returning GraphQLObjectType from resolveType was removed in graphql-js@16.0.0 please return type name instead.',
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'INVALID_RUNTIME_TYPE' },
     );
   }
 
@@ -872,6 +2456,12 @@ function ensureValidRuntimeType(
     throw new GraphQLError(
       `Abstract type "${returnType.name}" must resolve to an Object type at runtime for field "${info.parentType.name}.${info.fieldName}" with ` +
         `value ${inspect(result)}, received "${inspect(runtimeTypeName)}".`,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'INVALID_RUNTIME_TYPE' },
     );
   }
 
@@ -880,6 +2470,11 @@ function ensureValidRuntimeType(
     throw new GraphQLError(
       `Abstract type "${returnType.name}" was resolved to a type "${runtimeTypeName}" that does not exist inside the schema.`,
       fieldNodes,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'INVALID_RUNTIME_TYPE' },
     );
   }
 
@@ -887,6 +2482,11 @@ function ensureValidRuntimeType(
     throw new GraphQLError(
       `Abstract type "${returnType.name}" was resolved to a non-object type "${runtimeTypeName}".`,
       fieldNodes,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'INVALID_RUNTIME_TYPE' },
     );
   }
 
@@ -894,12 +2494,32 @@ function ensureValidRuntimeType(
     throw new GraphQLError(
       `Runtime Object type "${runtimeType.name}" is not a possible type for "${returnType.name}".`,
       fieldNodes,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'INVALID_RUNTIME_TYPE' },
     );
   }
 
   return runtimeType;
 }
 
+function getPossibleTypeMap(
+  plan: ExecutionPlan,
+  abstractType: GraphQLAbstractType,
+): ObjMap<GraphQLObjectType> {
+  let possibleTypeMap = plan.possibleTypeMaps.get(abstractType);
+  if (possibleTypeMap === undefined) {
+    possibleTypeMap = keyMap(
+      plan.schema.getPossibleTypes(abstractType),
+      (type) => type.name,
+    );
+    plan.possibleTypeMaps.set(abstractType, possibleTypeMap);
+  }
+  return possibleTypeMap;
+}
+
 /**
  * Complete an Object value by executing all sub-selections.
  */
@@ -910,10 +2530,8 @@ function completeObjectValue(
   info: GraphQLResolveInfo,
   path: Path,
   result: unknown,
+  asyncPayloadRecord?: AsyncPayloadRecord,
 ): PromiseOrValue<ObjMap<unknown>> {
-  // Collect sub-fields to execute to complete this value.
-  const subFieldNodes = collectSubfields(exeContext, returnType, fieldNodes);
-
   // If there is an isTypeOf predicate function, call it with the
   // current result. If isTypeOf returns false, then raise an error rather
   // than continuing execution.
@@ -925,12 +2543,13 @@ function completeObjectValue(
         if (!resolvedIsTypeOf) {
           throw invalidReturnTypeError(returnType, result, fieldNodes);
         }
-        return executeFields(
+        return collectAndExecuteSubfields(
           exeContext,
           returnType,
-          result,
+          fieldNodes,
           path,
-          subFieldNodes,
+          result,
+          asyncPayloadRecord,
         );
       });
     }
@@ -940,7 +2559,14 @@ function completeObjectValue(
     }
   }
 
-  return executeFields(exeContext, returnType, result, path, subFieldNodes);
+  return collectAndExecuteSubfields(
+    exeContext,
+    returnType,
+    fieldNodes,
+    path,
+    result,
+    asyncPayloadRecord,
+  );
 }
 
 function invalidReturnTypeError(
@@ -951,24 +2577,77 @@ function invalidReturnTypeError(
   return new GraphQLError(
     `Expected value of type "${returnType.name}" but got: ${inspect(result)}.`,
     fieldNodes,
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    { code: 'INVALID_RETURN_TYPE' },
+  );
+}
+
+function collectAndExecuteSubfields(
+  exeContext: ExecutionContext,
+  returnType: GraphQLObjectType,
+  fieldNodes: ReadonlyArray<FieldNode>,
+  path: Path,
+  result: unknown,
+  asyncPayloadRecord?: AsyncPayloadRecord,
+): PromiseOrValue<ObjMap<unknown>> {
+  // Collect sub-fields to execute to complete this value.
+  const { plan } = exeContext;
+  const { fields: subFieldNodes, patches: subPatches } =
+    plan?.hasStaticFieldCollection
+      ? collectPlannedSubfields(plan, returnType, fieldNodes)
+      : collectSubfields(exeContext, returnType, fieldNodes);
+
+  const subFields = executeFields(
+    exeContext,
+    returnType,
+    result,
+    path,
+    subFieldNodes,
+    asyncPayloadRecord,
   );
+
+  for (const subPatch of subPatches) {
+    const { label, fields: subPatchFieldNodes } = subPatch;
+    executeDeferredFragment(
+      exeContext,
+      returnType,
+      result,
+      subPatchFieldNodes,
+      label,
+      path,
+      asyncPayloadRecord,
+    );
+  }
+
+  return subFields;
 }
 
+const defaultResolveTypeStrategies = [resolveTypeByTypename()];
+
 /**
  * If a resolveType function is not given, then a default resolve behavior is
  * used which attempts two strategies:
  *
- * First, See if the provided value has a `__typename` field defined, if so, use
- * that value as name of the resolved type.
+ * First, try the `resolveTypeStrategies` of the schema in order, using the
+ * first resolved name as name of the resolved type. By default, see if the
+ * provided value has a `__typename` field defined.
  *
  * Otherwise, test each possible type for the abstract type by calling
  * isTypeOf for the object being coerced, returning the first type that matches.
  */
 export const defaultTypeResolver: GraphQLTypeResolver<unknown, unknown> =
   function (value, contextValue, info, abstractType) {
-    // First, look for `__typename`.
-    if (isObjectLike(value) && typeof value.__typename === 'string') {
-      return value.__typename;
+    // First, try the strategies of the schema.
+    const strategies =
+      info.schema.resolveTypeStrategies ?? defaultResolveTypeStrategies;
+    for (const strategy of strategies) {
+      const typeName = strategy(value, abstractType);
+      if (typeName != null) {
+        return typeName;
+      }
     }
 
     // Otherwise, test each possible type.
@@ -1051,3 +2730,617 @@ export function getFieldDef(
   }
   return parentType.getFields()[fieldName];
 }
+
+function executeDeferredFragment(
+  exeContext: ExecutionContext,
+  parentType: GraphQLObjectType,
+  sourceValue: unknown,
+  fields: Map<string, ReadonlyArray<FieldNode>>,
+  label?: string,
+  path?: Path,
+  parentContext?: AsyncPayloadRecord,
+): void {
+  const asyncPayloadRecord = new DeferredFragmentRecord({
+    label,
+    path,
+    parentContext,
+    exeContext,
+  });
+  let promiseOrData;
+  try {
+    promiseOrData = executeFields(
+      exeContext,
+      parentType,
+      sourceValue,
+      path,
+      fields,
+      asyncPayloadRecord,
+    );
+
+    if (isPromise(promiseOrData)) {
+      promiseOrData = promiseOrData.then(null, (e) => {
+        asyncPayloadRecord.errors.push(e);
+        return null;
+      });
+    }
+  } catch (e) {
+    asyncPayloadRecord.errors.push(e);
+    promiseOrData = null;
+  }
+  asyncPayloadRecord.addData(promiseOrData);
+}
+
+function executeStreamField(
+  path: Path,
+  itemPath: Path,
+  item: PromiseOrValue<unknown>,
+  exeContext: ExecutionContext,
+  fieldNodes: ReadonlyArray<FieldNode>,
+  info: GraphQLResolveInfo,
+  itemType: GraphQLOutputType,
+  label?: string,
+  parentContext?: AsyncPayloadRecord,
+): AsyncPayloadRecord {
+  const asyncPayloadRecord = new StreamRecord({
+    label,
+    path: itemPath,
+    parentContext,
+    exeContext,
+  });
+  let completedItem: PromiseOrValue<unknown>;
+  try {
+    try {
+      if (isPromise(item)) {
+        completedItem = item.then((resolved) =>
+          completeValue(
+            exeContext,
+            itemType,
+            fieldNodes,
+            info,
+            itemPath,
+            resolved,
+            asyncPayloadRecord,
+          ),
+        );
+      } else {
+        completedItem = completeValue(
+          exeContext,
+          itemType,
+          fieldNodes,
+          info,
+          itemPath,
+          item,
+          asyncPayloadRecord,
+        );
+      }
+
+      if (isPromise(completedItem)) {
+        // Note: we don't rely on a `catch` method, but we do expect "thenable"
+        // to take a second callback for the error case.
+        completedItem = completedItem.then(undefined, (rawError) => {
+          const error = locatedError(
+            rawError,
+            fieldNodes,
+            pathToArray(itemPath),
+          );
+          const handledError = handleFieldError(
+            error,
+            exeContext,
+            itemType,
+            asyncPayloadRecord.errors,
+          );
+          filterSubsequentPayloads(exeContext, itemPath, asyncPayloadRecord);
+          return handledError;
+        });
+      }
+    } catch (rawError) {
+      const error = locatedError(rawError, fieldNodes, pathToArray(itemPath));
+      completedItem = handleFieldError(
+        error,
+        exeContext,
+        itemType,
+        asyncPayloadRecord.errors,
+      );
+      filterSubsequentPayloads(exeContext, itemPath, asyncPayloadRecord);
+    }
+  } catch (error) {
+    asyncPayloadRecord.errors.push(error);
+    filterSubsequentPayloads(exeContext, path, asyncPayloadRecord);
+    asyncPayloadRecord.addItems(null);
+    return asyncPayloadRecord;
+  }
+
+  let completedItems: PromiseOrValue<Array<unknown> | null>;
+  if (isPromise(completedItem)) {
+    completedItems = completedItem.then(
+      (value) => [value],
+      (error) => {
+        asyncPayloadRecord.errors.push(error);
+        filterSubsequentPayloads(exeContext, path, asyncPayloadRecord);
+        return null;
+      },
+    );
+  } else {
+    completedItems = [completedItem];
+  }
+
+  asyncPayloadRecord.addItems(completedItems);
+  return asyncPayloadRecord;
+}
+
+async function executeStreamIteratorItem(
+  iterator: AsyncIterator<unknown>,
+  exeContext: ExecutionContext,
+  fieldNodes: ReadonlyArray<FieldNode>,
+  info: GraphQLResolveInfo,
+  itemType: GraphQLOutputType,
+  asyncPayloadRecord: StreamRecord,
+  itemPath: Path,
+): Promise<IteratorResult<unknown>> {
+  let item;
+  try {
+    const { value, done } = await nextIteration(exeContext, iterator);
+    if (done === true) {
+      asyncPayloadRecord.setIsCompletedIterator();
+      return { done, value: undefined };
+    }
+    item = value;
+  } catch (rawError) {
+    returnIterator(iterator);
+    const error = locatedError(rawError, fieldNodes, pathToArray(itemPath));
+    const value = handleFieldError(
+      error,
+      exeContext,
+      itemType,
+      asyncPayloadRecord.errors,
+    );
+    // don't continue if iterator throws
+    return { done: true, value };
+  }
+
+  if (exeContext.limits) {
+    trackResourceUsage(exeContext, 'listItems', 1);
+  }
+
+  let completedItem;
+  try {
+    completedItem = completeValue(
+      exeContext,
+      itemType,
+      fieldNodes,
+      info,
+      itemPath,
+      item,
+      asyncPayloadRecord,
+    );
+
+    if (isPromise(completedItem)) {
+      completedItem = completedItem.then(undefined, (rawError) => {
+        const error = locatedError(rawError, fieldNodes, pathToArray(itemPath));
+        const handledError = handleFieldError(
+          error,
+          exeContext,
+          itemType,
+          asyncPayloadRecord.errors,
+        );
+        filterSubsequentPayloads(exeContext, itemPath, asyncPayloadRecord);
+        return handledError;
+      });
+    }
+    return { done: false, value: completedItem };
+  } catch (rawError) {
+    const error = locatedError(rawError, fieldNodes, pathToArray(itemPath));
+    const value = handleFieldError(
+      error,
+      exeContext,
+      itemType,
+      asyncPayloadRecord.errors,
+    );
+    filterSubsequentPayloads(exeContext, itemPath, asyncPayloadRecord);
+    return { done: false, value };
+  }
+}
+
+async function executeStreamIterator(
+  index: number,
+  iterator: AsyncIterator<unknown>,
+  exeContext: ExecutionContext,
+  fieldNodes: ReadonlyArray<FieldNode>,
+  info: GraphQLResolveInfo,
+  itemType: GraphQLOutputType,
+  path: Path,
+  label?: string,
+  parentContext?: AsyncPayloadRecord,
+): Promise<void> {
+  const itemPath = addPath(path, index, undefined);
+  const asyncPayloadRecord = new StreamRecord({
+    label,
+    path: itemPath,
+    parentContext,
+    iterator,
+    exeContext,
+  });
+
+  let iteration;
+  try {
+    iteration = await executeStreamIteratorItem(
+      iterator,
+      exeContext,
+      fieldNodes,
+      info,
+      itemType,
+      asyncPayloadRecord,
+      itemPath,
+    );
+  } catch (error) {
+    asyncPayloadRecord.errors.push(error);
+    filterSubsequentPayloads(exeContext, path, asyncPayloadRecord);
+    asyncPayloadRecord.addItems(null);
+    // entire stream has errored and bubbled upwards
+    returnIterator(iterator);
+    return;
+  }
+
+  const { done, value: completedItem } = iteration;
+
+  let completedItems: PromiseOrValue<Array<unknown> | null>;
+  if (isPromise(completedItem)) {
+    completedItems = completedItem.then(
+      (value) => [value],
+      (error) => {
+        asyncPayloadRecord.errors.push(error);
+        filterSubsequentPayloads(exeContext, path, asyncPayloadRecord);
+        return null;
+      },
+    );
+  } else {
+    completedItems = [completedItem];
+  }
+
+  asyncPayloadRecord.addItems(completedItems);
+
+  // No more items are pulled once the iterator was returned.
+  if (done === true || asyncPayloadRecord.isReturnedIterator === true) {
+    return;
+  }
+  return executeStreamIterator(
+    index + 1,
+    iterator,
+    exeContext,
+    fieldNodes,
+    info,
+    itemType,
+    path,
+    label,
+    asyncPayloadRecord,
+  );
+}
+
+/**
+ * Drops every pending payload below the given path, since a `null` was
+ * returned there and the payloads would have nowhere to be applied.
+ */
+function filterSubsequentPayloads(
+  exeContext: ExecutionContext,
+  nullPath: Path,
+  currentAsyncRecord: AsyncPayloadRecord | undefined,
+): void {
+  const nullPathArray = pathToArray(nullPath);
+  exeContext.subsequentPayloads.forEach((asyncRecord) => {
+    if (asyncRecord === currentAsyncRecord) {
+      // don't remove payload from where error originates
+      return;
+    }
+    for (let i = 0; i < nullPathArray.length; i++) {
+      if (asyncRecord.path[i] !== nullPathArray[i]) {
+        // asyncRecord points to a path unaffected by this payload
+        return;
+      }
+    }
+    // asyncRecord path points to nulled error field
+    if (isStreamPayload(asyncRecord) && asyncRecord.iterator) {
+      asyncRecord.setIsReturnedIterator();
+      returnIterator(asyncRecord.iterator);
+    }
+    exeContext.subsequentPayloads.delete(asyncRecord);
+  });
+}
+
+function getCompletedIncrementalResults(
+  exeContext: ExecutionContext,
+): Array<IncrementalResult> {
+  const incrementalResults: Array<IncrementalResult> = [];
+  for (const asyncPayloadRecord of exeContext.subsequentPayloads) {
+    if (!asyncPayloadRecord.isCompleted) {
+      continue;
+    }
+    exeContext.subsequentPayloads.delete(asyncPayloadRecord);
+
+    const incrementalResult: IncrementalResult = {};
+    if (isStreamPayload(asyncPayloadRecord)) {
+      if (asyncPayloadRecord.isCompletedIterator) {
+        // async iterable resolver just finished but there may be pending payloads
+        continue;
+      }
+      (incrementalResult as IncrementalStreamResult).items =
+        asyncPayloadRecord.items;
+    } else {
+      (incrementalResult as IncrementalDeferResult).data =
+        asyncPayloadRecord.data;
+    }
+
+    incrementalResult.path = asyncPayloadRecord.path;
+    if (asyncPayloadRecord.label != null) {
+      incrementalResult.label = asyncPayloadRecord.label;
+    }
+    if (asyncPayloadRecord.errors.length > 0) {
+      incrementalResult.errors = asyncPayloadRecord.errors;
+    }
+    incrementalResults.push(incrementalResult);
+  }
+  return incrementalResults;
+}
+
+function yieldSubsequentPayloads(
+  exeContext: ExecutionContext,
+): AsyncGenerator<SubsequentIncrementalExecutionResult, void, void> {
+  let isDone = false;
+
+  async function next(): Promise<
+    IteratorResult<SubsequentIncrementalExecutionResult, void>
+  > {
+    if (isDone) {
+      return { value: undefined, done: true };
+    }
+
+    await Promise.race(
+      Array.from(exeContext.subsequentPayloads).map((p) => p.promise),
+    );
+
+    if (isDone) {
+      // a different call to next has exhausted all payloads
+      return { value: undefined, done: true };
+    }
+
+    const incremental = getCompletedIncrementalResults(exeContext);
+    const hasNext = exeContext.subsequentPayloads.size > 0;
+
+    if (!incremental.length && hasNext) {
+      return next();
+    }
+
+    if (!hasNext) {
+      isDone = true;
+      exeContext.promiseCanceller?.disconnect();
+    }
+
+    const value: SubsequentIncrementalExecutionResult = incremental.length
+      ? { incremental, hasNext }
+      : { hasNext };
+    // Extensions added by deferred and streamed fields are reported in the
+    // payload following their completion.
+    const extensions = exeContext.responseExtensions.flush();
+    if (extensions) {
+      value.extensions = extensions;
+    }
+    return { value, done: false };
+  }
+
+  return {
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+    next,
+    return(): Promise<
+      IteratorResult<SubsequentIncrementalExecutionResult, void>
+    > {
+      isDone = true;
+      returnStreamIterators(exeContext);
+      exeContext.promiseCanceller?.disconnect();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    throw(
+      error?: unknown,
+    ): Promise<IteratorResult<SubsequentIncrementalExecutionResult, void>> {
+      isDone = true;
+      returnStreamIterators(exeContext);
+      exeContext.promiseCanceller?.disconnect();
+      return Promise.reject(error);
+    },
+  };
+}
+
+function returnStreamIterators(exeContext: ExecutionContext): void {
+  exeContext.subsequentPayloads.forEach((asyncPayloadRecord) => {
+    if (isStreamPayload(asyncPayloadRecord) && asyncPayloadRecord.iterator) {
+      asyncPayloadRecord.setIsReturnedIterator();
+      returnIterator(asyncPayloadRecord.iterator);
+    }
+  });
+}
+
+/**
+ * Limits the number of resolvers whose returned promise is pending. Once the
+ * limit is reached, further resolvers are queued and invoked in order as the
+ * pending ones settle. Resolvers returning synchronously are not limited.
+ */
+class ResolverScheduler {
+  private _maxConcurrency: number;
+  private _pendingCount: number;
+  private _queue: Array<() => void>;
+  private _queueStart: number;
+
+  constructor(maxConcurrency: number) {
+    devAssert(
+      maxConcurrency >= 1,
+      `maxConcurrentResolvers must be a positive number: ${maxConcurrency}`,
+    );
+
+    this._maxConcurrency = maxConcurrency;
+    this._pendingCount = 0;
+    this._queue = [];
+    this._queueStart = 0;
+  }
+
+  /**
+   * Invokes the resolver right away if the limit is not reached, otherwise
+   * returns a promise of its result once it could be invoked.
+   */
+  schedule(invoke: () => unknown): unknown {
+    if (this._pendingCount < this._maxConcurrency) {
+      return this._invoke(invoke);
+    }
+
+    return new Promise((resolve, reject) => {
+      this._queue.push(() => {
+        try {
+          resolve(this._invoke(invoke));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+  }
+
+  private _invoke(invoke: () => unknown): unknown {
+    const result = invoke();
+    if (isPromise(result)) {
+      this._pendingCount++;
+      const release = () => {
+        this._pendingCount--;
+        this._invokeQueued();
+      };
+      result.then(release, release);
+    }
+    return result;
+  }
+
+  private _invokeQueued(): void {
+    // The queue is consumed from a start index rather than shifted, which
+    // would copy the remaining resolvers every time one is dequeued. The
+    // invoked resolvers are dropped once they make up half of the queue.
+    while (
+      this._pendingCount < this._maxConcurrency &&
+      this._queueStart < this._queue.length
+    ) {
+      this._queue[this._queueStart++]();
+    }
+    if (this._queueStart * 2 >= this._queue.length) {
+      this._queue = this._queue.slice(this._queueStart);
+      this._queueStart = 0;
+    }
+  }
+}
+
+class DeferredFragmentRecord {
+  type: 'defer';
+  errors: Array<GraphQLError>;
+  label: string | undefined;
+  path: Array<string | number>;
+  promise: Promise<void>;
+  data: ObjMap<unknown> | null;
+  parentContext: AsyncPayloadRecord | undefined;
+  isCompleted: boolean;
+  _exeContext: ExecutionContext;
+  _resolve?: (arg: PromiseOrValue<ObjMap<unknown> | null>) => void;
+  constructor(opts: {
+    label: string | undefined;
+    path: Path | undefined;
+    parentContext: AsyncPayloadRecord | undefined;
+    exeContext: ExecutionContext;
+  }) {
+    this.type = 'defer';
+    this.label = opts.label;
+    this.path = pathToArray(opts.path);
+    this.parentContext = opts.parentContext;
+    this.errors = [];
+    this._exeContext = opts.exeContext;
+    this._exeContext.subsequentPayloads.add(this);
+    this.isCompleted = false;
+    this.data = null;
+    this.promise = new Promise<ObjMap<unknown> | null>((resolve) => {
+      this._resolve = (promiseOrValue) => {
+        resolve(promiseOrValue);
+      };
+    }).then((data) => {
+      this.data = data;
+      this.isCompleted = true;
+    });
+  }
+
+  addData(data: PromiseOrValue<ObjMap<unknown> | null>) {
+    const parentData = this.parentContext?.promise;
+    if (parentData) {
+      this._resolve?.(parentData.then(() => data));
+      return;
+    }
+    this._resolve?.(data);
+  }
+}
+
+class StreamRecord {
+  type: 'stream';
+  errors: Array<GraphQLError>;
+  label: string | undefined;
+  path: Array<string | number>;
+  items: Array<unknown> | null;
+  promise: Promise<void>;
+  parentContext: AsyncPayloadRecord | undefined;
+  iterator: AsyncIterator<unknown> | undefined;
+  isCompletedIterator?: boolean;
+  isReturnedIterator?: boolean;
+  isCompleted: boolean;
+  _exeContext: ExecutionContext;
+  _resolve?: (arg: PromiseOrValue<Array<unknown> | null>) => void;
+  constructor(opts: {
+    label: string | undefined;
+    path: Path | undefined;
+    iterator?: AsyncIterator<unknown>;
+    parentContext: AsyncPayloadRecord | undefined;
+    exeContext: ExecutionContext;
+  }) {
+    this.type = 'stream';
+    this.items = null;
+    this.label = opts.label;
+    this.path = pathToArray(opts.path);
+    this.parentContext = opts.parentContext;
+    this.iterator = opts.iterator;
+    this.errors = [];
+    this._exeContext = opts.exeContext;
+    this._exeContext.subsequentPayloads.add(this);
+    this.isCompleted = false;
+    this.promise = new Promise<Array<unknown> | null>((resolve) => {
+      this._resolve = (promiseOrValue) => {
+        resolve(promiseOrValue);
+      };
+    }).then((items) => {
+      this.items = items;
+      this.isCompleted = true;
+    });
+  }
+
+  addItems(items: PromiseOrValue<Array<unknown> | null>) {
+    const parentData = this.parentContext?.promise;
+    if (parentData) {
+      this._resolve?.(parentData.then(() => items));
+      return;
+    }
+    this._resolve?.(items);
+  }
+
+  setIsCompletedIterator() {
+    this.isCompletedIterator = true;
+  }
+
+  setIsReturnedIterator() {
+    this.isReturnedIterator = true;
+  }
+}
+
+type AsyncPayloadRecord = DeferredFragmentRecord | StreamRecord;
+
+function isStreamPayload(
+  asyncPayload: AsyncPayloadRecord,
+): asyncPayload is StreamRecord {
+  return asyncPayload.type === 'stream';
+}
@@ -0,0 +1,71 @@
+import type { Maybe } from '../jsutils/Maybe';
+import type { PromiseOrValue } from '../jsutils/PromiseOrValue';
+import { isPromise } from '../jsutils/isPromise';
+
+import { locatedError } from '../error/locatedError';
+
+import type { DocumentNode } from '../language/ast';
+
+import type { ExecutionArgs, ExecutionResult } from './execute';
+import { execute } from './execute';
+import { BatchLoaderRegistry } from './BatchLoader';
+
+export interface ExecutionBatchOperation {
+  document: DocumentNode;
+  variableValues?: Maybe<{ readonly [variable: string]: unknown }>;
+  operationName?: Maybe<string>;
+}
+
+export interface ExecutionBatchArgs
+  extends Omit<ExecutionArgs, 'document' | 'variableValues' | 'operationName'> {
+  operations: ReadonlyArray<ExecutionBatchOperation>;
+}
+
+/**
+ * Executes a batch of operations, each as by `execute`, using the arguments
+ * shared by the batch, such as the context value.
+ *
+ * The operations are executed concurrently and share the loaders available to
+ * resolvers as `info.loaders`, so that their loads are batched together.
+ *
+ * Returns the results of the operations in the order of the operations, or a
+ * Promise of them if any operation completes asynchronously. An operation
+ * which fails to execute, for example because of invalid arguments, is
+ * reported as a result with that error, without failing the other operations.
+ */
+export function executeBatch(
+  args: ExecutionBatchArgs,
+): PromiseOrValue<Array<ExecutionResult>> {
+  const { operations, ...sharedArgs } = args;
+  const batchLoaders =
+    sharedArgs.batchLoaders ?? new BatchLoaderRegistry(sharedArgs.maxBatchSize);
+
+  let containsPromise = false;
+  const results = operations.map((operation) => {
+    let result;
+    try {
+      result = execute({ ...sharedArgs, ...operation, batchLoaders });
+    } catch (error) {
+      return createFailedResult(error);
+    }
+    if (isPromise(result)) {
+      containsPromise = true;
+      return result.then(undefined, createFailedResult);
+    }
+    return result;
+  });
+
+  return containsPromise
+    ? Promise.all(results)
+    : (results as Array<ExecutionResult>);
+}
+
+/**
+ * Reports an error thrown by the execution of a batched operation as the
+ * result of that operation.
+ *
+ * @internal
+ */
+export function createFailedResult(error: unknown): ExecutionResult {
+  return { errors: [locatedError(error, undefined)] };
+}
@@ -2,17 +2,94 @@ export { pathToArray as responsePathAsArray } from '../jsutils/Path';
 
 export {
   execute,
+  experimentalExecuteIncrementally,
   executeSync,
+  executeToJSONStream,
   defaultFieldResolver,
   defaultTypeResolver,
 } from './execute';
 
 export type {
   ExecutionArgs,
+  ExecutionHooks,
+  ExecutionResolveDoneHook,
+  ExecutionLimits,
   ExecutionResult,
   FormattedExecutionResult,
+  ExperimentalIncrementalExecutionResults,
+  InitialIncrementalExecutionResult,
+  SubsequentIncrementalExecutionResult,
+  IncrementalDeferResult,
+  IncrementalStreamResult,
+  IncrementalResult,
+  FormattedInitialIncrementalExecutionResult,
+  FormattedSubsequentIncrementalExecutionResult,
+  FormattedIncrementalDeferResult,
+  FormattedIncrementalStreamResult,
+  FormattedIncrementalResult,
 } from './execute';
 
-export { subscribe, createSourceEventStream } from './subscribe';
+export { TracingCollector } from './TracingCollector';
+
+export type {
+  Tracing,
+  TracingPhase,
+  TracingPhaseName,
+  ResolverTracing,
+} from './TracingCollector';
+
+export { executeBatch } from './executeBatch';
+
+export type {
+  ExecutionBatchArgs,
+  ExecutionBatchOperation,
+} from './executeBatch';
+
+export { compileOperation } from './compileOperation';
+
+export type {
+  CompiledOperation,
+  CompiledOperationArgs,
+} from './compileOperation';
+
+export { BatchLoader, BatchLoaderRegistry } from './BatchLoader';
+
+export type { BatchLoadFn, BatchLoaderOptions } from './BatchLoader';
+
+export {
+  subscribe,
+  createSourceEventStream,
+  executeLiveQuery,
+} from './subscribe';
+
+export type {
+  LiveQueryArgs,
+  LiveQueryPatch,
+  LiveQueryPatchResult,
+} from './subscribe';
+
+export { InvalidationStore } from './InvalidationStore';
+
+export { InMemoryResponseCache } from './ResponseCache';
+
+export type {
+  ResponseCache,
+  InMemoryResponseCacheOptions,
+} from './ResponseCache';
+
+export type { CachePolicy, CacheScope } from './cacheControl';
+
+export type { ExecutionErrorCallback } from './errorMasking';
+
+export type {
+  EventStreamOptions,
+  EventStreamBufferOverflow,
+} from './mapAsyncIterator';
+
+export {
+  resolveTypeByTypename,
+  resolveTypeByConstructor,
+  resolveTypeByDiscriminator,
+} from './resolveTypeStrategies';
 
 export { getDirectiveValues } from './values';
@@ -1,25 +1,116 @@
+import { devAssert } from '../jsutils/devAssert';
+import type { Maybe } from '../jsutils/Maybe';
 import type { PromiseOrValue } from '../jsutils/PromiseOrValue';
+import type { AbortSignalLike } from '../jsutils/AbortSignalLike';
+
+import { GraphQLError } from '../error/GraphQLError';
+
+/**
+ * What happens to an event arriving while the buffer of an event stream is
+ * full: either the oldest buffered event or the arriving event is dropped, or
+ * the stream fails with an error.
+ */
+export type EventStreamBufferOverflow = 'dropOldest' | 'dropNewest' | 'error';
+
+export interface EventStreamOptions {
+  /**
+   * Maximum number of events buffered for a slow consumer. When set, events
+   * are pulled from the source as soon as they are available instead of when
+   * the consumer asks for them. Defaults to no buffering.
+   */
+  maxBufferSize?: Maybe<number>;
+  /**
+   * What happens once the buffer is full. Defaults to `dropOldest`.
+   */
+  bufferOverflow?: Maybe<EventStreamBufferOverflow>;
+  /**
+   * Maximum number of events mapped ahead of the consumer at the same time.
+   * Defaults to 1.
+   */
+  maxConcurrency?: Maybe<number>;
+}
+
+export interface MapAsyncIteratorOptions<U> extends EventStreamOptions {
+  abortSignal?: Maybe<AbortSignalLike>;
+  errorCallback?: Maybe<(error: unknown) => PromiseOrValue<U>>;
+}
 
 /**
  * Given an AsyncIterable and a callback function, return an AsyncIterator
  * which produces values mapped via calling the callback function.
+ *
+ * If an abort signal is provided, the source iterator is closed as soon as the
+ * signal fires, and pending as well as further calls to `next` complete.
+ *
+ * If an error callback is provided, errors of the source iterator are mapped
+ * to produced values via calling it, instead of rejecting the call to `next`.
+ *
+ * By default, a value is pulled from the source iterator and mapped only once
+ * the consumer asks for it. With a buffer or a concurrency greater than 1, see
+ * `EventStreamOptions`, values are pulled and mapped ahead of the consumer.
  */
 export function mapAsyncIterator<T, U, R = undefined>(
   iterable: AsyncGenerator<T, R, void> | AsyncIterable<T>,
   callback: (value: T) => PromiseOrValue<U>,
+  options: MapAsyncIteratorOptions<U> = {},
 ): AsyncGenerator<U, R, void> {
+  const { abortSignal, errorCallback, maxBufferSize, maxConcurrency } = options;
+  devAssert(
+    maxBufferSize == null || maxBufferSize >= 1,
+    'maxBufferSize must be a positive number.',
+  );
+  devAssert(
+    maxConcurrency == null || maxConcurrency >= 1,
+    'maxConcurrency must be a positive number.',
+  );
+
   const iterator = iterable[Symbol.asyncIterator]();
+  if (maxBufferSize != null || (maxConcurrency ?? 1) > 1) {
+    return mapAsyncIteratorAhead(iterator, callback, options);
+  }
+
+  let isAborted = false;
+  let abortPromise: Promise<IteratorResult<T, R>> | undefined;
+  let removeAbortListener = () => {
+    /* noop */
+  };
+
+  if (abortSignal) {
+    abortPromise = new Promise((resolve) => {
+      const onAbort = () => {
+        isAborted = true;
+        removeAbortListener();
+        resolve(createDoneResult<R>());
+        if (typeof iterator.return === 'function') {
+          iterator.return().then(undefined, () => {
+            /* ignore error */
+          });
+        }
+      };
+
+      if (abortSignal.aborted) {
+        onAbort();
+        return;
+      }
+
+      abortSignal.addEventListener('abort', onAbort);
+      removeAbortListener = () =>
+        abortSignal.removeEventListener('abort', onAbort);
+    });
+  }
 
   async function mapResult(
     result: IteratorResult<T, R>,
   ): Promise<IteratorResult<U, R>> {
     if (result.done) {
+      removeAbortListener();
       return result;
     }
 
     try {
       return { value: await callback(result.value), done: false };
     } catch (error) {
+      removeAbortListener();
       // istanbul ignore else (FIXME: add test case)
       if (typeof iterator.return === 'function') {
         try {
@@ -34,9 +125,25 @@ export function mapAsyncIterator<T, U, R = undefined>(
 
   return {
     async next() {
-      return mapResult(await iterator.next());
+      if (isAborted) {
+        return createDoneResult<R>();
+      }
+      const nextResult = iterator.next();
+      let result;
+      try {
+        result = await (abortPromise
+          ? Promise.race([abortPromise, nextResult])
+          : nextResult);
+      } catch (error) {
+        if (errorCallback == null) {
+          throw error;
+        }
+        return { value: await errorCallback(error), done: false };
+      }
+      return mapResult(result);
     },
     async return(): Promise<IteratorResult<U, R>> {
+      removeAbortListener();
       // If iterator.return() does not exist, then type R must be undefined.
       return typeof iterator.return === 'function'
         ? mapResult(await iterator.return())
@@ -53,3 +160,232 @@ export function mapAsyncIterator<T, U, R = undefined>(
     },
   };
 }
+
+/**
+ * The result of an iterator completed early, without a return value. An early
+ * completion is only expected if the return value type `R` allows undefined.
+ */
+function createDoneResult<R>(): IteratorReturnResult<R> {
+  return { value: undefined as unknown as R, done: true };
+}
+
+interface AheadEvent<U> {
+  map: () => PromiseOrValue<U>;
+  result: Promise<U> | undefined;
+}
+
+/**
+ * Maps the values of the source iterator ahead of the consumer, buffering
+ * the events which the consumer has not asked for yet.
+ */
+function mapAsyncIteratorAhead<T, U, R>(
+  iterator: AsyncIterator<T, R, void>,
+  callback: (value: T) => PromiseOrValue<U>,
+  options: MapAsyncIteratorOptions<U>,
+): AsyncGenerator<U, R, void> {
+  const { abortSignal, errorCallback, maxBufferSize, bufferOverflow } = options;
+  const maxConcurrency = options.maxConcurrency ?? 1;
+
+  const events: Array<AheadEvent<U>> = [];
+  let waitingConsumers: Array<() => void> = [];
+  let mappingCount = 0;
+  let isPulling = false;
+  let isSourceDone = false;
+
+  const onAbort = () => {
+    finish();
+    closeSource();
+  };
+  if (abortSignal) {
+    if (abortSignal.aborted) {
+      onAbort();
+    } else {
+      abortSignal.addEventListener('abort', onAbort);
+    }
+  }
+
+  function notifyConsumers(): void {
+    const consumers = waitingConsumers;
+    waitingConsumers = [];
+    for (const consumer of consumers) {
+      consumer();
+    }
+  }
+
+  function endSource(): void {
+    isSourceDone = true;
+    abortSignal?.removeEventListener('abort', onAbort);
+  }
+
+  function finish(): void {
+    endSource();
+    events.length = 0;
+    notifyConsumers();
+  }
+
+  function closeSource(): void {
+    if (typeof iterator.return === 'function') {
+      iterator.return().then(undefined, () => {
+        /* ignore error */
+      });
+    }
+  }
+
+  function mapEvent(event: AheadEvent<U>): Promise<U> {
+    if (event.result === undefined) {
+      mappingCount++;
+      const onSettled = () => {
+        mappingCount--;
+        startMapping();
+      };
+      event.result = new Promise<U>((resolve) => resolve(event.map()));
+      // Rejections are reported once the consumer asks for the event.
+      event.result.then(onSettled, onSettled);
+    }
+    return event.result;
+  }
+
+  function startMapping(): void {
+    for (const event of events) {
+      if (mappingCount >= maxConcurrency) {
+        return;
+      }
+      mapEvent(event).then(undefined, () => {
+        /* ignore error */
+      });
+    }
+  }
+
+  function overflowBuffer(isTerminal: boolean): void {
+    // The event ending the stream is never dropped, a buffered event is
+    // dropped instead.
+    if (isTerminal) {
+      events.splice(bufferOverflow === 'dropNewest' ? -2 : 0, 1);
+      return;
+    }
+
+    switch (bufferOverflow ?? 'dropOldest') {
+      case 'dropOldest':
+        events.shift();
+        break;
+      case 'dropNewest':
+        events.pop();
+        break;
+      case 'error': {
+        events.pop();
+        endSource();
+        closeSource();
+        const error = new GraphQLError(
+          `Event stream buffer exceeded the limit of ${maxBufferSize} events.`,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { code: 'RESOURCE_LIMIT_EXCEEDED' },
+        );
+        events.push({
+          map: () => {
+            if (errorCallback == null) {
+              throw error;
+            }
+            return errorCallback(error);
+          },
+          result: undefined,
+        });
+      }
+    }
+  }
+
+  function pushEvent(map: () => PromiseOrValue<U>, isTerminal: boolean): void {
+    events.push({ map, result: undefined });
+
+    if (maxBufferSize != null && events.length > maxBufferSize) {
+      overflowBuffer(isTerminal);
+    }
+
+    startMapping();
+    notifyConsumers();
+  }
+
+  function pull(): void {
+    if (
+      isPulling ||
+      isSourceDone ||
+      (maxBufferSize == null && events.length >= maxConcurrency)
+    ) {
+      return;
+    }
+
+    isPulling = true;
+    iterator.next().then(
+      (result) => {
+        isPulling = false;
+        if (isSourceDone) {
+          return;
+        }
+        if (result.done === true) {
+          endSource();
+          notifyConsumers();
+          return;
+        }
+        pushEvent(() => callback(result.value), false);
+        pull();
+      },
+      (error: unknown) => {
+        isPulling = false;
+        if (isSourceDone) {
+          return;
+        }
+        if (errorCallback == null) {
+          endSource();
+          pushEvent(() => {
+            throw error;
+          }, true);
+          return;
+        }
+        pushEvent(() => errorCallback(error), false);
+        pull();
+      },
+    );
+  }
+
+  async function next(): Promise<IteratorResult<U, R>> {
+    const event = events.shift();
+    if (event === undefined) {
+      if (isSourceDone) {
+        return createDoneResult<R>();
+      }
+      pull();
+      await new Promise<void>((resolve) => waitingConsumers.push(resolve));
+      return next();
+    }
+
+    pull();
+
+    try {
+      return { value: await mapEvent(event), done: false };
+    } catch (error) {
+      finish();
+      closeSource();
+      throw error;
+    }
+  }
+
+  return {
+    next,
+    return(): Promise<IteratorResult<U, R>> {
+      finish();
+      closeSource();
+      return Promise.resolve(createDoneResult<R>());
+    },
+    throw(error?: unknown): Promise<IteratorResult<U, R>> {
+      finish();
+      closeSource();
+      return Promise.reject(error);
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
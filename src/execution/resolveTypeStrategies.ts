@@ -0,0 +1,70 @@
+import type { ObjMap } from '../jsutils/ObjMap';
+import { isObjectLike } from '../jsutils/isObjectLike';
+
+import type { GraphQLResolveTypeStrategy } from '../type/schema';
+
+/**
+ * Resolves the runtime type of a value as the name in its `__typename` field,
+ * or in the given field.
+ */
+export function resolveTypeByTypename(
+  fieldName: string = '__typename',
+): GraphQLResolveTypeStrategy {
+  return (value) => {
+    if (isObjectLike(value) && typeof value[fieldName] === 'string') {
+      return value[fieldName] as string;
+    }
+  };
+}
+
+/**
+ * Resolves the runtime type of a value from its class, mapping constructors to
+ * the names of types. Instances of a subclass resolve to the type of their
+ * closest mapped class.
+ */
+export function resolveTypeByConstructor(
+  typeNames: ReadonlyMap<new (...args: any) => unknown, string>,
+): GraphQLResolveTypeStrategy {
+  return (value) => {
+    if (!isObjectLike(value)) {
+      return undefined;
+    }
+
+    let prototype = Object.getPrototypeOf(value);
+    while (prototype != null) {
+      const typeName = typeNames.get(prototype.constructor);
+      if (typeName !== undefined) {
+        return typeName;
+      }
+      prototype = Object.getPrototypeOf(prototype);
+    }
+  };
+}
+
+/**
+ * Resolves the runtime type of a value from the value of a discriminator
+ * field, mapped to the name of a type. Without a mapping, the discriminator
+ * value is the name of the type.
+ */
+export function resolveTypeByDiscriminator(
+  fieldName: string,
+  typeNames?: ObjMap<string>,
+): GraphQLResolveTypeStrategy {
+  return (value) => {
+    if (!isObjectLike(value)) {
+      return undefined;
+    }
+
+    const discriminator = value[fieldName];
+    if (typeNames === undefined) {
+      return typeof discriminator === 'string' ? discriminator : undefined;
+    }
+    if (
+      (typeof discriminator === 'string' ||
+        typeof discriminator === 'number') &&
+      Object.prototype.hasOwnProperty.call(typeNames, discriminator)
+    ) {
+      return typeNames[discriminator];
+    }
+  };
+}
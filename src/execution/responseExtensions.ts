@@ -0,0 +1,84 @@
+import type { ObjMap } from '../jsutils/ObjMap';
+import type { Path } from '../jsutils/Path';
+import { isObjectLike } from '../jsutils/isObjectLike';
+import { pathToArray } from '../jsutils/Path';
+
+interface ExtensionEntry {
+  path: ReadonlyArray<string | number>;
+  key: string;
+  value: unknown;
+}
+
+/**
+ * Collects the response extensions added by the resolvers of an execution,
+ * until they are reported in the next response or payload.
+ *
+ * The values added under the same key are merged in the order of the paths of
+ * the fields that added them, regardless of when their resolvers ran: objects
+ * are merged recursively, arrays are concatenated and other values replace the
+ * previous ones.
+ *
+ * @internal
+ */
+export class ResponseExtensionsCollector {
+  private _entries: Array<ExtensionEntry>;
+
+  constructor() {
+    this._entries = [];
+  }
+
+  add(path: Path | undefined, key: string, value: unknown): void {
+    this._entries.push({ path: pathToArray(path), key, value });
+  }
+
+  /**
+   * Returns the extensions added since the previous call, if any.
+   */
+  flush(): ObjMap<unknown> | undefined {
+    if (this._entries.length === 0) {
+      return undefined;
+    }
+
+    // The sort is stable, keeping the order of values added by the same field.
+    const entries = this._entries.sort((a, b) => comparePaths(a.path, b.path));
+    this._entries = [];
+
+    const extensions = Object.create(null);
+    for (const { key, value } of entries) {
+      extensions[key] = mergeExtensionValues(extensions[key], value);
+    }
+    return extensions;
+  }
+}
+
+function comparePaths(
+  a: ReadonlyArray<string | number>,
+  b: ReadonlyArray<string | number>,
+): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+  return a.length - b.length;
+}
+
+function mergeExtensionValues(previous: unknown, value: unknown): unknown {
+  if (Array.isArray(previous) && Array.isArray(value)) {
+    return [...previous, ...value];
+  }
+  if (
+    isObjectLike(previous) &&
+    isObjectLike(value) &&
+    !Array.isArray(previous) &&
+    !Array.isArray(value)
+  ) {
+    const merged: ObjMap<unknown> = { ...previous };
+    for (const [key, fieldValue] of Object.entries(value)) {
+      merged[key] = mergeExtensionValues(merged[key], fieldValue);
+    }
+    return merged;
+  }
+  return value;
+}
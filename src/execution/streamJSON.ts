@@ -0,0 +1,184 @@
+import type { ObjMap } from '../jsutils/ObjMap';
+import type { Path } from '../jsutils/Path';
+import { isPromise } from '../jsutils/isPromise';
+import { pathToArray } from '../jsutils/Path';
+
+/**
+ * An object or a list being completed, some of whose entries are promises.
+ */
+interface PendingResult {
+  value: ObjMap<unknown> | ReadonlyArray<unknown>;
+  /** The keys of the entries whose null value nulls the whole value. */
+  requiredKeys: ReadonlyArray<string | number>;
+}
+
+type SettledResult = { value: unknown } | { pending: PendingResult };
+
+/**
+ * The objects and lists being completed during an execution, by the path of
+ * their response value.
+ *
+ * @internal
+ */
+export class PendingResultRegistry {
+  private _results: Map<string, PendingResult>;
+  private _listeners: Map<string, Array<(result: PendingResult) => void>>;
+
+  constructor() {
+    this._results = new Map();
+    this._listeners = new Map();
+  }
+
+  add(
+    path: Path | undefined,
+    value: ObjMap<unknown> | ReadonlyArray<unknown>,
+    requiredKeys: ReadonlyArray<string | number>,
+  ): void {
+    const key = pathToArray(path).join('.');
+    const result = { value, requiredKeys };
+    this._results.set(key, result);
+
+    const listeners = this._listeners.get(key);
+    if (listeners !== undefined) {
+      this._listeners.delete(key);
+      for (const listener of listeners) {
+        listener(result);
+      }
+    }
+  }
+
+  get(key: string): PendingResult | undefined {
+    return this._results.get(key);
+  }
+
+  /**
+   * Returns a promise resolved once a result is added at the given path.
+   */
+  whenAdded(key: string): Promise<PendingResult> {
+    return new Promise((resolve) => {
+      const listeners = this._listeners.get(key);
+      if (listeners === undefined) {
+        this._listeners.set(key, [resolve]);
+      } else {
+        listeners.push(resolve);
+      }
+    });
+  }
+}
+
+/**
+ * Serializes a value being completed to JSON in response order, yielding the
+ * serialized parts of the value as soon as its entries are completed. A
+ * pending object or list is serialized once none of its entries can null it.
+ *
+ * An `undefined` part is yielded before waiting for an entry, so that the
+ * parts yielded so far may be written meanwhile.
+ *
+ * @internal
+ */
+export function streamJSONValue(
+  value: unknown,
+  registry: PendingResultRegistry,
+): AsyncGenerator<string | undefined, void, void> {
+  const settledResults = new Map<string, Promise<SettledResult>>();
+
+  function settle(entry: unknown, key: string): Promise<SettledResult> {
+    let settled = settledResults.get(key);
+    if (settled === undefined) {
+      settled = settleResult(entry, key);
+      settledResults.set(key, settled);
+    }
+    return settled;
+  }
+
+  async function settleResult(
+    entry: unknown,
+    key: string,
+  ): Promise<SettledResult> {
+    if (!isPromise(entry)) {
+      return { value: entry };
+    }
+
+    // The completed value is awaited unless its completion is pending.
+    const pending = registry.get(key);
+    const settled: SettledResult =
+      pending !== undefined
+        ? { pending }
+        : await Promise.race([
+            entry.then(
+              (resolved) => ({ value: resolved }),
+              () => ({ value: null }),
+            ),
+            registry.whenAdded(key).then((added) => ({ pending: added })),
+          ]);
+    if ('value' in settled) {
+      return settled;
+    }
+
+    const { value: pendingValue, requiredKeys } = settled.pending;
+    const requiredResults = await Promise.all(
+      requiredKeys.map((requiredKey) =>
+        settle(
+          getEntry(pendingValue, requiredKey),
+          getChildKey(key, requiredKey),
+        ),
+      ),
+    );
+    for (const requiredResult of requiredResults) {
+      if ('value' in requiredResult && requiredResult.value == null) {
+        return { value: null };
+      }
+    }
+    return settled;
+  }
+
+  async function* serializeEntry(
+    entry: unknown,
+    key: string,
+  ): AsyncGenerator<string | undefined, void, void> {
+    if (isPromise(entry)) {
+      yield undefined;
+    }
+    const settled = await settle(entry, key);
+    settledResults.delete(key);
+
+    if ('value' in settled) {
+      yield JSON.stringify(settled.value) ?? 'null';
+      return;
+    }
+
+    const pendingValue = settled.pending.value;
+    if (Array.isArray(pendingValue)) {
+      yield '[';
+      for (let index = 0; index < pendingValue.length; index++) {
+        if (index > 0) {
+          yield ',';
+        }
+        yield* serializeEntry(pendingValue[index], getChildKey(key, index));
+      }
+      yield ']';
+      return;
+    }
+
+    let separator = '{';
+    for (const [responseName, fieldValue] of Object.entries(pendingValue)) {
+      yield `${separator}${JSON.stringify(responseName)}:`;
+      yield* serializeEntry(fieldValue, getChildKey(key, responseName));
+      separator = ',';
+    }
+    yield separator === '{' ? '{}' : '}';
+  }
+
+  return serializeEntry(value, '');
+}
+
+function getEntry(
+  value: ObjMap<unknown> | ReadonlyArray<unknown>,
+  key: string | number,
+): unknown {
+  return (value as ObjMap<unknown>)[key];
+}
+
+function getChildKey(key: string, childKey: string | number): string {
+  return key === '' ? String(childKey) : `${key}.${childKey}`;
+}
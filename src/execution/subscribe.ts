@@ -2,7 +2,12 @@ import { inspect } from '../jsutils/inspect';
 import { devAssert } from '../jsutils/devAssert';
 import { isAsyncIterable } from '../jsutils/isAsyncIterable';
 import { addPath, pathToArray } from '../jsutils/Path';
+import { isPromise } from '../jsutils/isPromise';
+import { isObjectLike } from '../jsutils/isObjectLike';
 import type { Maybe } from '../jsutils/Maybe';
+import type { ObjMap } from '../jsutils/ObjMap';
+import type { PromiseOrValue } from '../jsutils/PromiseOrValue';
+import type { AbortSignalLike } from '../jsutils/AbortSignalLike';
 
 import { GraphQLError } from '../error/GraphQLError';
 import { locatedError } from '../error/locatedError';
@@ -11,6 +16,7 @@ import type { DocumentNode } from '../language/ast';
 
 import type { GraphQLSchema } from '../type/schema';
 import type { GraphQLFieldResolver } from '../type/definition';
+import { GraphQLLiveDirective } from '../type/directives';
 
 import type {
   ExecutionArgs,
@@ -18,7 +24,7 @@ import type {
   ExecutionContext,
 } from './execute';
 import { collectFields } from './collectFields';
-import { getArgumentValues } from './values';
+import { getArgumentValues, getDirectiveValues } from './values';
 import {
   assertValidExecutionArguments,
   buildExecutionContext,
@@ -27,6 +33,10 @@ import {
   getFieldDef,
 } from './execute';
 import { mapAsyncIterator } from './mapAsyncIterator';
+import type { InvalidationStore } from './InvalidationStore';
+import type { ExecutionErrorCallback } from './errorMasking';
+import { maskFieldError } from './errorMasking';
+import { createForbiddenError, isFieldAuthorized } from './authorization';
 
 /**
  * Implements the "Subscribe" algorithm described in the GraphQL specification.
@@ -47,6 +57,14 @@ import { mapAsyncIterator } from './mapAsyncIterator';
  * If the operation succeeded, the promise resolves to an AsyncIterator, which
  * yields a stream of ExecutionResults representing the response stream.
  *
+ * An error thrown by the source event stream ends the response stream, unless
+ * `emitSourceErrors` is true, in which case it is yielded as an
+ * ExecutionResult containing only that error.
+ *
+ * The `eventStreamOptions` configure how events are buffered for a slow
+ * consumer and how many events are executed ahead of it, see
+ * `EventStreamOptions`.
+ *
  * Accepts either an object with named arguments, or individual arguments.
  */
 export async function subscribe(
@@ -65,8 +83,12 @@ export async function subscribe(
     contextValue,
     variableValues,
     operationName,
-    fieldResolver,
     subscribeFieldResolver,
+    abortSignal,
+    emitSourceErrors,
+    eventStreamOptions,
+    maskError,
+    onError,
   } = args;
 
   const resultOrStream = await createSourceEventStream(
@@ -77,6 +99,9 @@ export async function subscribe(
     variableValues,
     operationName,
     subscribeFieldResolver,
+    abortSignal,
+    maskError,
+    onError,
   );
 
   if (!isAsyncIterable(resultOrStream)) {
@@ -89,19 +114,31 @@ export async function subscribe(
   // the GraphQL specification. The `execute` function provides the
   // "ExecuteSubscriptionEvent" algorithm, as it is nearly identical to the
   // "ExecuteQuery" algorithm, for which `execute` is also used.
+  // Every event is executed with the options of the subscription.
   const mapSourceToResponse = (payload: unknown) =>
-    execute({
-      schema,
-      document,
-      rootValue: payload,
-      contextValue,
-      variableValues,
-      operationName,
-      fieldResolver,
-    });
+    execute({ ...args, rootValue: payload });
+
+  const mapSourceErrorToResponse =
+    emitSourceErrors === true
+      ? (error: unknown): ExecutionResult => {
+          const sourceError = locatedError(error, undefined);
+          return {
+            errors: [
+              maskError === true
+                ? maskFieldError(sourceError, onError ?? undefined)
+                : sourceError,
+            ],
+          };
+        }
+      : undefined;
 
   // Map every source value to a ExecutionResult value as described above.
-  return mapAsyncIterator(resultOrStream, mapSourceToResponse);
+  // Aborting the operation closes the source stream.
+  return mapAsyncIterator(resultOrStream, mapSourceToResponse, {
+    ...eventStreamOptions,
+    abortSignal,
+    errorCallback: mapSourceErrorToResponse,
+  });
 }
 
 /**
@@ -119,7 +156,8 @@ export async function subscribe(
  *
  * If the the source stream could not be created due to faulty subscription
  * resolver logic or underlying systems, the promise will resolve to a single
- * ExecutionResult containing `errors` and no `data`.
+ * ExecutionResult containing `errors` and no `data`. These errors are masked
+ * as field errors are if `maskError` is true.
  *
  * If the operation succeeded, the promise resolves to the AsyncIterable for the
  * event stream returned by the resolver.
@@ -140,6 +178,9 @@ export async function createSourceEventStream(
   variableValues?: Maybe<{ readonly [variable: string]: unknown }>,
   operationName?: Maybe<string>,
   subscribeFieldResolver?: Maybe<GraphQLFieldResolver<any, any>>,
+  abortSignal?: Maybe<AbortSignalLike>,
+  maskError?: Maybe<boolean>,
+  onError?: Maybe<ExecutionErrorCallback>,
 ): Promise<AsyncIterable<unknown> | ExecutionResult> {
   // If arguments are missing or incorrectly typed, this is an internal
   // developer mistake which should throw an early error.
@@ -155,6 +196,9 @@ export async function createSourceEventStream(
     variableValues,
     operationName,
     subscribeFieldResolver,
+    abortSignal,
+    maskError,
+    onError,
   });
 
   // Return early errors if execution context failed.
@@ -181,6 +225,8 @@ export async function createSourceEventStream(
       return { errors: [error] };
     }
     throw error;
+  } finally {
+    exeContext.promiseCanceller?.disconnect();
   }
 }
 
@@ -195,10 +241,15 @@ async function executeSubscription(
     throw new GraphQLError(
       'Schema is not configured to execute subscription operation.',
       operation,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'OPERATION_NOT_SUPPORTED' },
     );
   }
 
-  const rootFields = collectFields(
+  const { fields: rootFields } = collectFields(
     schema,
     fragments,
     variableValues,
@@ -213,6 +264,11 @@ async function executeSubscription(
     throw new GraphQLError(
       `The subscription field "${fieldName}" is not defined.`,
       fieldNodes,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { code: 'GRAPHQL_VALIDATION_FAILED' },
     );
   }
 
@@ -238,16 +294,325 @@ async function executeSubscription(
     // used to represent an authenticated user, or request-specific caches.
     const contextValue = exeContext.contextValue;
 
+    // The event stream of an unauthorized field is never created.
+    if (!isFieldAuthorized(schema, rootType, fieldDef, contextValue, info)) {
+      throw createForbiddenError(rootType, fieldDef, fieldNodes, path);
+    }
+
     // Call the `subscribe()` resolver or the default resolver to produce an
     // AsyncIterable yielding raw payloads.
     const resolveFn = fieldDef.subscribe ?? exeContext.subscribeFieldResolver;
-    const eventStream = await resolveFn(rootValue, args, contextValue, info);
+    const result = resolveFn(rootValue, args, contextValue, info);
+
+    // A pending event stream is rejected if the operation is aborted.
+    const eventStream = await (isPromise(result) && exeContext.promiseCanceller
+      ? exeContext.promiseCanceller.withCancellation(result)
+      : result);
 
     if (eventStream instanceof Error) {
       throw eventStream;
     }
+
+    // Only the events passing the filter of the field are executed.
+    const { filter } = fieldDef;
+    if (filter && isAsyncIterable(eventStream)) {
+      return filterAsyncIterator(eventStream, async (payload) => {
+        try {
+          return await filter(payload, args, contextValue, info);
+        } catch (filterError) {
+          throw locatedError(filterError, fieldNodes, pathToArray(path));
+        }
+      });
+    }
     return eventStream;
-  } catch (error) {
-    throw locatedError(error, fieldNodes, pathToArray(path));
+  } catch (rawError) {
+    const error = locatedError(rawError, fieldNodes, pathToArray(path));
+    throw exeContext.maskError
+      ? maskFieldError(error, exeContext.onError ?? undefined)
+      : error;
+  }
+}
+
+/**
+ * Given an AsyncIterable and a predicate, return an AsyncIterator which only
+ * produces the values satisfying the predicate.
+ */
+function filterAsyncIterator<T>(
+  iterable: AsyncIterable<T>,
+  predicate: (value: T) => Promise<boolean>,
+): AsyncGenerator<T, void, void> {
+  const iterator = iterable[Symbol.asyncIterator]();
+
+  async function nextMatchingResult(): Promise<IteratorResult<T, void>> {
+    const result = await iterator.next();
+    if (result.done === true) {
+      return result;
+    }
+
+    let isMatching;
+    try {
+      isMatching = await predicate(result.value);
+    } catch (error) {
+      if (typeof iterator.return === 'function') {
+        try {
+          await iterator.return();
+        } catch (_e) {
+          /* ignore error */
+        }
+      }
+      throw error;
+    }
+    return isMatching ? result : nextMatchingResult();
+  }
+
+  return {
+    next: nextMatchingResult,
+    async return(): Promise<IteratorResult<T, void>> {
+      return typeof iterator.return === 'function'
+        ? iterator.return()
+        : { value: undefined, done: true };
+    },
+    async throw(error?: unknown): Promise<IteratorResult<T, void>> {
+      if (typeof iterator.throw === 'function') {
+        return iterator.throw(error);
+      }
+      throw error;
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+export interface LiveQueryArgs extends ExecutionArgs {
+  invalidationStore: InvalidationStore;
+  patches?: Maybe<boolean>;
+}
+
+export interface LiveQueryPatch {
+  path: ReadonlyArray<string | number>;
+  value: unknown;
+}
+
+export interface LiveQueryPatchResult<TExtensions = ObjMap<unknown>> {
+  patches: ReadonlyArray<LiveQueryPatch>;
+  errors?: ReadonlyArray<GraphQLError>;
+  extensions?: TExtensions;
+}
+
+/**
+ * Executes a query operation marked with the `@live` directive as a live
+ * query, which executes again whenever the data it depends on changes.
+ *
+ * Resolvers register the keys of the data they read in the
+ * `info.invalidationKeys` set, and the query executes again once any of these
+ * keys is invalidated in the given invalidation store. Invalidations occurring
+ * while the query executes are coalesced into a single execution.
+ *
+ * Returns an AsyncIterator yielding the result of every execution, or a
+ * single ExecutionResult if the operation is not a live query or if the
+ * arguments do not result in a valid execution.
+ *
+ * With the `patches` option, every result following the initial one
+ * only contains the changes to the previous data, as a list of patches each
+ * replacing the value at a given path.
+ */
+export function executeLiveQuery(
+  args: LiveQueryArgs,
+): PromiseOrValue<
+  | AsyncGenerator<ExecutionResult | LiveQueryPatchResult, void, void>
+  | ExecutionResult
+> {
+  const { invalidationStore, patches, ...executionArgs } = args;
+  const { schema, document, variableValues, abortSignal } = executionArgs;
+
+  // If arguments are missing or incorrectly typed, this is an internal
+  // developer mistake which should throw an early error.
+  assertValidExecutionArguments(schema, document, variableValues);
+
+  const exeContext = buildExecutionContext(executionArgs);
+  if (!('schema' in exeContext)) {
+    return { errors: exeContext };
+  }
+  exeContext.promiseCanceller?.disconnect();
+
+  if (!isLiveQuery(exeContext)) {
+    return execute(executionArgs);
   }
+
+  // The keys of the previous execution are watched until the next execution
+  // completes, so that invalidations occurring meanwhile are not missed.
+  const subscriptions: Array<() => void> = [];
+  const { events, invalidate } = createInvalidationEventStream(() => {
+    for (const unsubscribe of subscriptions.splice(0)) {
+      unsubscribe();
+    }
+  });
+
+  let previousData: unknown;
+  let isInitialResult = true;
+
+  const executeLive = async (): Promise<
+    ExecutionResult | LiveQueryPatchResult
+  > => {
+    const invalidationKeys = new Set<string>();
+    const unsubscribe = invalidationStore.subscribe(
+      invalidationKeys,
+      invalidate,
+    );
+    subscriptions.push(unsubscribe);
+
+    const result = await execute({ ...executionArgs, invalidationKeys });
+
+    const index = subscriptions.indexOf(unsubscribe);
+    if (index === -1) {
+      // The live query was closed during this execution.
+      unsubscribe();
+    } else {
+      for (const unsubscribePrevious of subscriptions.splice(0, index)) {
+        unsubscribePrevious();
+      }
+    }
+
+    if (patches !== true || isInitialResult) {
+      isInitialResult = false;
+      previousData = result.data;
+      return result;
+    }
+
+    const patchResult: LiveQueryPatchResult = {
+      patches: diffResponseData(previousData, result.data, []),
+    };
+    if (result.errors !== undefined) {
+      patchResult.errors = result.errors;
+    }
+    if (result.extensions !== undefined) {
+      patchResult.extensions = result.extensions;
+    }
+    previousData = result.data;
+    return patchResult;
+  };
+
+  // Aborting the operation closes the event stream, which stops watching the
+  // invalidation keys.
+  return mapAsyncIterator(events, executeLive, { abortSignal });
+}
+
+function isLiveQuery(exeContext: ExecutionContext): boolean {
+  const { schema, operation, variableValues } = exeContext;
+
+  if (
+    operation.operation !== 'query' ||
+    schema.getDirective(GraphQLLiveDirective.name) == null
+  ) {
+    return false;
+  }
+
+  const live = getDirectiveValues(
+    GraphQLLiveDirective,
+    operation,
+    variableValues,
+  );
+  return live?.if === true;
+}
+
+/**
+ * Creates a stream of events which yields once immediately, then once after
+ * any number of invalidations since the previous event was consumed.
+ */
+function createInvalidationEventStream(onReturn: () => void): {
+  events: AsyncGenerator<undefined, void, void>;
+  invalidate: () => void;
+} {
+  let isInvalidated = true;
+  let isDone = false;
+  let resolveNext:
+    | ((result: IteratorResult<undefined, void>) => void)
+    | undefined;
+
+  const invalidate = () => {
+    if (resolveNext !== undefined) {
+      resolveNext({ value: undefined, done: false });
+      resolveNext = undefined;
+    } else {
+      isInvalidated = true;
+    }
+  };
+
+  const finish = () => {
+    if (!isDone) {
+      isDone = true;
+      onReturn();
+      resolveNext?.({ value: undefined, done: true });
+      resolveNext = undefined;
+    }
+  };
+
+  const events: AsyncGenerator<undefined, void, void> = {
+    next() {
+      if (isDone) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      if (isInvalidated) {
+        isInvalidated = false;
+        return Promise.resolve({ value: undefined, done: false });
+      }
+      return new Promise((resolve) => {
+        resolveNext = resolve;
+      });
+    },
+    return() {
+      finish();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    throw(error?: unknown) {
+      finish();
+      return Promise.reject(error);
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+
+  return { events, invalidate };
+}
+
+/**
+ * Computes the patches which turn the previous response data into the next
+ * one. Lists changing in length and values changing in shape are replaced as
+ * a whole.
+ */
+function diffResponseData(
+  previous: unknown,
+  next: unknown,
+  path: ReadonlyArray<string | number>,
+): Array<LiveQueryPatch> {
+  if (previous === next) {
+    return [];
+  }
+
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    if (previous.length === next.length) {
+      return next.flatMap((item, index) =>
+        diffResponseData(previous[index], item, [...path, index]),
+      );
+    }
+  } else if (
+    isObjectLike(previous) &&
+    isObjectLike(next) &&
+    !Array.isArray(previous) &&
+    !Array.isArray(next)
+  ) {
+    const keys = Object.keys(next);
+    if (
+      keys.length === Object.keys(previous).length &&
+      keys.every((key) => key in previous)
+    ) {
+      return keys.flatMap((key) =>
+        diffResponseData(previous[key], next[key], [...path, key]),
+      );
+    }
+  }
+
+  return [{ path, value: next }];
 }
@@ -0,0 +1,94 @@
+import type { Path } from '../jsutils/Path';
+import { pathToArray } from '../jsutils/Path';
+
+import { GraphQLError } from '../error/GraphQLError';
+
+import type { FieldNode } from '../language/ast';
+
+import type { GraphQLField } from '../type/definition';
+import { GraphQLTimeoutDirective } from '../type/directives';
+import type { GraphQLSchema } from '../type/schema';
+
+import { getDirectiveValues } from './values';
+
+const fieldTimeouts = new WeakMap<
+  GraphQLField<unknown, unknown>,
+  number | undefined
+>();
+
+/**
+ * Returns the timeout in milliseconds of the resolver of a field, configured
+ * either as the `timeout` extension of the field or with the `@timeout`
+ * directive on its definition, if the schema defines that directive.
+ *
+ * @internal
+ */
+export function getFieldTimeout(
+  schema: GraphQLSchema,
+  fieldDef: GraphQLField<unknown, unknown>,
+): number | undefined {
+  if (fieldTimeouts.has(fieldDef)) {
+    return fieldTimeouts.get(fieldDef);
+  }
+
+  let timeout = fieldDef.extensions.timeout;
+  if (
+    typeof timeout !== 'number' &&
+    fieldDef.astNode != null &&
+    schema.getDirective(GraphQLTimeoutDirective.name) != null
+  ) {
+    timeout = getDirectiveValues(GraphQLTimeoutDirective, fieldDef.astNode)?.ms;
+  }
+
+  const fieldTimeout = typeof timeout === 'number' ? timeout : undefined;
+  fieldTimeouts.set(fieldDef, fieldTimeout);
+  return fieldTimeout;
+}
+
+/**
+ * Rejects with the error produced by `onTimeout` if the promise does not
+ * settle within the given number of milliseconds.
+ *
+ * @internal
+ */
+export function withTimeout<T>(
+  originalPromise: Promise<T>,
+  timeout: number,
+  onTimeout: () => unknown,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(onTimeout()), Math.max(timeout, 0));
+    originalPromise.then(
+      (resolved) => {
+        clearTimeout(timer);
+        resolve(resolved);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
+
+/**
+ * Creates the error of a field which did not complete in time, identified by
+ * the `TIMEOUT` code of its extensions.
+ *
+ * @internal
+ */
+export function createTimeoutError(
+  message: string,
+  fieldNodes: ReadonlyArray<FieldNode>,
+  path: Path,
+): GraphQLError {
+  return new GraphQLError(
+    message,
+    fieldNodes,
+    undefined,
+    undefined,
+    pathToArray(path),
+    undefined,
+    { code: 'TIMEOUT' },
+  );
+}
@@ -55,6 +55,12 @@ export function getVariableValues(
         if (maxErrors != null && errors.length >= maxErrors) {
           throw new GraphQLError(
             'Too many errors processing variables, error limit reached. Execution aborted.',
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            { code: 'BAD_USER_INPUT' },
           );
         }
         errors.push(error);
@@ -89,6 +95,11 @@ function coerceVariableValues(
         new GraphQLError(
           `Variable "$${varName}" expected value of type "${varTypeStr}" which cannot be used as an input type.`,
           varDefNode.type,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { code: 'GRAPHQL_VALIDATION_FAILED', variableName: varName },
         ),
       );
       continue;
@@ -103,6 +114,11 @@ function coerceVariableValues(
           new GraphQLError(
             `Variable "$${varName}" of required type "${varTypeStr}" was not provided.`,
             varDefNode,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            { code: 'BAD_USER_INPUT', variableName: varName, path: [] },
           ),
         );
       }
@@ -116,6 +132,11 @@ function coerceVariableValues(
         new GraphQLError(
           `Variable "$${varName}" of non-null type "${varTypeStr}" must not be null.`,
           varDefNode,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { code: 'BAD_USER_INPUT', variableName: varName, path: [] },
         ),
       );
       continue;
@@ -138,6 +159,12 @@ function coerceVariableValues(
             undefined,
             undefined,
             error.originalError,
+            {
+              code: 'BAD_USER_INPUT',
+              ...error.extensions,
+              variableName: varName,
+              path,
+            },
           ),
         );
       },
@@ -181,6 +208,11 @@ export function getArgumentValues(
           `Argument "${name}" of required type "${inspect(argType)}" ` +
             'was not provided.',
           node,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { code: 'BAD_USER_INPUT', argumentName: name },
         );
       }
       continue;
@@ -202,6 +234,11 @@ export function getArgumentValues(
             `Argument "${name}" of required type "${inspect(argType)}" ` +
               `was provided the variable "$${variableName}" which was not provided a runtime value.`,
             valueNode,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            { code: 'BAD_USER_INPUT', argumentName: name, variableName },
           );
         }
         continue;
@@ -214,6 +251,11 @@ export function getArgumentValues(
         `Argument "${name}" of non-null type "${inspect(argType)}" ` +
           'must not be null.',
         valueNode,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { code: 'BAD_USER_INPUT', argumentName: name },
       );
     }
 
@@ -225,6 +267,11 @@ export function getArgumentValues(
       throw new GraphQLError(
         `Argument "${name}" has invalid value ${print(valueNode)}.`,
         valueNode,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { code: 'BAD_USER_INPUT', argumentName: name },
       );
     }
     coercedValues[name] = coercedValue;
@@ -1,10 +1,15 @@
 import type { PromiseOrValue } from './jsutils/PromiseOrValue';
 import { devAssert } from './jsutils/devAssert';
 import { isPromise } from './jsutils/isPromise';
+import { isObjectLike } from './jsutils/isObjectLike';
 import type { Maybe } from './jsutils/Maybe';
+import type { AbortSignalLike } from './jsutils/AbortSignalLike';
 
 import type { Source } from './language/source';
 import { parse } from './language/parser';
+import { OperationTypeNode } from './language/ast';
+
+import { getOperationAST } from './utilities/getOperationAST';
 
 import { validate } from './validation/validate';
 
@@ -15,8 +20,18 @@ import type {
 import type { GraphQLSchema } from './type/schema';
 import { validateSchema } from './type/validate';
 
-import type { ExecutionResult } from './execution/execute';
+import type {
+  ExecutionResult,
+  ExecutionHooks,
+  ExecutionLimits,
+} from './execution/execute';
 import { execute } from './execution/execute';
+import { TracingCollector } from './execution/TracingCollector';
+import { BatchLoaderRegistry } from './execution/BatchLoader';
+import type { ResponseCache } from './execution/ResponseCache';
+import type { ExecutionErrorCallback } from './execution/errorMasking';
+import { getResponseCacheKey } from './execution/ResponseCache';
+import { createFailedResult } from './execution/executeBatch';
 
 /**
  * This is the primary entry point function for fulfilling GraphQL operations
@@ -56,6 +71,58 @@ import { execute } from './execution/execute';
  *    A type resolver function to use when none is provided by the schema.
  *    If not provided, the default type resolver is used (which looks for a
  *    `__typename` field or alternatively calls the `isTypeOf` method).
+ * abortSignal:
+ *    An `AbortSignal` which, once aborted, stops the execution from resolving
+ *    any further fields and rejects the pending ones.
+ * hooks:
+ *    An ordered list of callbacks invoked at the different stages of the
+ *    execution, for example around every field resolver.
+ * maxBatchSize:
+ *    The maximum number of keys loaded by a single batch of the loaders
+ *    available to resolvers as `info.loaders`, unless a loader sets its own.
+ * batchLoaders:
+ *    The loaders available to resolvers as `info.loaders`, to share them with
+ *    other executions. By default every execution creates its own.
+ * errorPropagation:
+ *    If false, an error in a non-null field resolves that field to null
+ *    instead of nulling its nearest nullable parent. Defaults to true, unless
+ *    the operation has the `@experimental_disableErrorPropagation` directive.
+ * timeout:
+ *    The time in milliseconds the execution may take. Once exceeded, pending
+ *    fields and fields yet to be resolved complete with a timeout error.
+ * limits:
+ *    Limits on the number of resolved fields, of list items and on the size
+ *    of the response data. The operation fails once one is exceeded.
+ * tracing:
+ *    If true, the timings of parsing, validation, execution and of every field
+ *    resolver are reported under `extensions.tracing` of the result.
+ * defaultMaxAge:
+ *    The maximum age in seconds of root fields and fields returning composite
+ *    types without a `@cacheControl` hint. Defaults to 0.
+ * responseCache:
+ *    A cache of the responses to queries, which are returned without
+ *    executing the query again until they expire. Responses are cached for
+ *    the maximum age computed from the `@cacheControl` hints of their fields,
+ *    unless that age is 0 or the response includes errors.
+ * sessionId:
+ *    Identifies the user of the request, so that responses with a `PRIVATE`
+ *    cache scope, including the responses with fields requiring
+ *    authorization, are only returned to that user. Private responses are not
+ *    cached without a session id.
+ * maskError:
+ *    If true, field errors caused by unexpected exceptions are reported with
+ *    a generic message and an error id instead of the exception message.
+ *    Errors thrown as a `GraphQLError` or marked with `markErrorSafe` are
+ *    reported unchanged.
+ * onError:
+ *    Called with every masked error and its error id, to log the original
+ *    error.
+ * stopOnFirstMutationError:
+ *    If true, the remaining root fields of a mutation are not executed once a
+ *    field raised an error, and resolve to null with an error.
+ * maxConcurrentResolvers:
+ *    The maximum number of resolvers whose returned promise is pending at
+ *    once. Further resolvers are queued until pending ones settle.
  */
 export interface GraphQLArgs {
   schema: GraphQLSchema;
@@ -66,6 +133,21 @@ export interface GraphQLArgs {
   operationName?: Maybe<string>;
   fieldResolver?: Maybe<GraphQLFieldResolver<any, any>>;
   typeResolver?: Maybe<GraphQLTypeResolver<any, any>>;
+  abortSignal?: Maybe<AbortSignalLike>;
+  hooks?: Maybe<ReadonlyArray<ExecutionHooks>>;
+  maxBatchSize?: Maybe<number>;
+  batchLoaders?: Maybe<BatchLoaderRegistry>;
+  errorPropagation?: Maybe<boolean>;
+  timeout?: Maybe<number>;
+  limits?: Maybe<ExecutionLimits>;
+  tracing?: Maybe<boolean>;
+  defaultMaxAge?: Maybe<number>;
+  responseCache?: Maybe<ResponseCache>;
+  sessionId?: Maybe<string>;
+  maskError?: Maybe<boolean>;
+  onError?: Maybe<ExecutionErrorCallback>;
+  stopOnFirstMutationError?: Maybe<boolean>;
+  maxConcurrentResolvers?: Maybe<number>;
 }
 
 export function graphql(args: GraphQLArgs): Promise<ExecutionResult> {
@@ -90,6 +172,47 @@ export function graphqlSync(args: GraphQLArgs): ExecutionResult {
   return result;
 }
 
+export interface GraphQLBatchRequest {
+  source: string | Source;
+  variableValues?: Maybe<{ readonly [variable: string]: unknown }>;
+  operationName?: Maybe<string>;
+}
+
+export interface GraphQLBatchArgs
+  extends Omit<GraphQLArgs, 'source' | 'variableValues' | 'operationName'> {
+  requests: ReadonlyArray<GraphQLBatchRequest>;
+}
+
+/**
+ * Fulfills a batch of GraphQL requests, as sent by clients which group
+ * several operations in a single HTTP request.
+ *
+ * Every request is parsed, validated and executed as by `graphql`, using the
+ * arguments shared by the batch, such as the context value. The requests are
+ * executed concurrently and share the loaders available to resolvers as
+ * `info.loaders`, so that their loads are batched together.
+ *
+ * Returns a Promise of the results of the requests, in the order of the
+ * requests, with the errors of every request reported in its own result, even
+ * if the request fails to execute, for example because of invalid arguments.
+ */
+export function graphqlBatch(
+  args: GraphQLBatchArgs,
+): Promise<Array<ExecutionResult>> {
+  const { requests, ...sharedArgs } = args;
+  const batchLoaders =
+    sharedArgs.batchLoaders ?? new BatchLoaderRegistry(sharedArgs.maxBatchSize);
+
+  return Promise.all(
+    requests.map((request) =>
+      graphql({ ...sharedArgs, ...request, batchLoaders }).then(
+        undefined,
+        createFailedResult,
+      ),
+    ),
+  );
+}
+
 function graphqlImpl(args: GraphQLArgs): PromiseOrValue<ExecutionResult> {
   // Temporary for v15 to v16 migration. Remove in v17
   devAssert(
@@ -97,6 +220,110 @@ function graphqlImpl(args: GraphQLArgs): PromiseOrValue<ExecutionResult> {
     'graphql@16 dropped long-deprecated support for positional arguments, please pass an object instead.',
   );
 
+  const {
+    schema,
+    source,
+    variableValues,
+    operationName,
+    responseCache,
+    sessionId,
+  } = args;
+  if (!responseCache) {
+    return executeRequest(args);
+  }
+
+  // Public responses are looked up first, then private responses of the user.
+  const documentSource = typeof source === 'string' ? source : source.body;
+  const cacheKeys = [
+    getResponseCacheKey(
+      schema,
+      documentSource,
+      operationName,
+      variableValues,
+      null,
+    ),
+  ];
+  if (sessionId != null) {
+    cacheKeys.push(
+      getResponseCacheKey(
+        schema,
+        documentSource,
+        operationName,
+        variableValues,
+        sessionId,
+      ),
+    );
+  }
+
+  const cachedResult = getCachedResponse(responseCache, cacheKeys);
+  return isPromise(cachedResult)
+    ? cachedResult.then(
+        (resolved) => resolved ?? executeRequest(args, responseCache),
+      )
+    : cachedResult ?? executeRequest(args, responseCache);
+}
+
+function getCachedResponse(
+  responseCache: ResponseCache,
+  cacheKeys: ReadonlyArray<string>,
+): PromiseOrValue<Maybe<ExecutionResult>> {
+  if (cacheKeys.length === 0) {
+    return undefined;
+  }
+
+  const result = responseCache.get(cacheKeys[0]);
+  const getNext = (resolved: Maybe<ExecutionResult>) =>
+    resolved ?? getCachedResponse(responseCache, cacheKeys.slice(1));
+  return isPromise(result) ? result.then(getNext) : getNext(result);
+}
+
+/**
+ * Stores the response to a query in the cache, unless it includes errors or
+ * its cache policy does not allow caching it.
+ */
+function cacheResponse(
+  responseCache: ResponseCache,
+  args: GraphQLArgs,
+  result: ExecutionResult,
+): void {
+  const cachePolicy = result.extensions?.cacheControl;
+  if (result.errors || !isObjectLike(cachePolicy)) {
+    return;
+  }
+
+  const { maxAge, scope } = cachePolicy;
+  const { schema, source, operationName, variableValues, sessionId } = args;
+  if (
+    typeof maxAge !== 'number' ||
+    maxAge <= 0 ||
+    (scope === 'PRIVATE' && sessionId == null)
+  ) {
+    return;
+  }
+
+  const stored = responseCache.set(
+    getResponseCacheKey(
+      schema,
+      typeof source === 'string' ? source : source.body,
+      operationName,
+      variableValues,
+      scope === 'PRIVATE' ? sessionId : null,
+    ),
+    result,
+    maxAge,
+  );
+  if (isPromise(stored)) {
+    // The response does not wait for the cache.
+    stored.then(undefined, () => {
+      /* ignore error */
+    });
+  }
+}
+
+function executeRequest(
+  args: GraphQLArgs,
+  responseCache?: ResponseCache,
+): PromiseOrValue<ExecutionResult> {
   const {
     schema,
     source,
@@ -106,30 +333,52 @@ function graphqlImpl(args: GraphQLArgs): PromiseOrValue<ExecutionResult> {
     operationName,
     fieldResolver,
     typeResolver,
+    abortSignal,
+    hooks,
+    maxBatchSize,
+    batchLoaders,
+    errorPropagation,
+    timeout,
+    limits,
+    tracing,
+    defaultMaxAge,
+    maskError,
+    onError,
+    stopOnFirstMutationError,
+    maxConcurrentResolvers,
   } = args;
 
+  const tracingCollector = tracing === true ? new TracingCollector() : null;
+  const complete = (result: ExecutionResult) =>
+    tracingCollector ? tracingCollector.addToResult(result) : result;
+
   // Validate Schema
   const schemaValidationErrors = validateSchema(schema);
   if (schemaValidationErrors.length > 0) {
-    return { errors: schemaValidationErrors };
+    return complete({ errors: schemaValidationErrors });
   }
 
   // Parse
+  const endParsing = tracingCollector?.startPhase('parsing');
   let document;
   try {
     document = parse(source);
   } catch (syntaxError) {
-    return { errors: [syntaxError] };
+    endParsing?.();
+    return complete({ errors: [syntaxError] });
   }
+  endParsing?.();
 
   // Validate
+  const endValidation = tracingCollector?.startPhase('validation');
   const validationErrors = validate(schema, document);
+  endValidation?.();
   if (validationErrors.length > 0) {
-    return { errors: validationErrors };
+    return complete({ errors: validationErrors });
   }
 
   // Execute
-  return execute({
+  const result = execute({
     schema,
     document,
     rootValue,
@@ -138,5 +387,35 @@ function graphqlImpl(args: GraphQLArgs): PromiseOrValue<ExecutionResult> {
     operationName,
     fieldResolver,
     typeResolver,
+    abortSignal,
+    hooks: tracingCollector
+      ? [...(hooks ?? []), tracingCollector.hooks]
+      : hooks,
+    maxBatchSize,
+    batchLoaders,
+    errorPropagation,
+    timeout,
+    limits,
+    defaultMaxAge,
+    maskError,
+    onError,
+    stopOnFirstMutationError,
+    maxConcurrentResolvers,
   });
+
+  if (
+    responseCache &&
+    getOperationAST(document, operationName)?.operation ===
+      OperationTypeNode.QUERY
+  ) {
+    if (isPromise(result)) {
+      return result.then((resolved) => {
+        cacheResponse(responseCache, args, resolved);
+        return complete(resolved);
+      });
+    }
+    cacheResponse(responseCache, args, result);
+  }
+
+  return isPromise(result) ? result.then(complete) : complete(result);
 }
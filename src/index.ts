@@ -28,8 +28,23 @@
 export { version, versionInfo } from './version';
 
 /** The primary entry point into fulfilling a GraphQL request. */
-export type { GraphQLArgs } from './graphql';
-export { graphql, graphqlSync } from './graphql';
+export type {
+  GraphQLArgs,
+  GraphQLBatchArgs,
+  GraphQLBatchRequest,
+} from './graphql';
+export { graphql, graphqlSync, graphqlBatch } from './graphql';
+
+/** Publish diagnostics events through Node's `diagnostics_channel`. */
+export { enableDiagnosticsChannel } from './diagnostics';
+export type {
+  DiagnosticsChannel,
+  DiagnosticsChannelModule,
+  ParseDiagnosticsMessage,
+  ValidateDiagnosticsMessage,
+  ExecuteDiagnosticsMessage,
+  ResolveDiagnosticsMessage,
+} from './diagnostics';
 
 /** Create and operate on GraphQL type definitions and schema. */
 export {
@@ -60,6 +75,20 @@ export {
   GraphQLSkipDirective,
   GraphQLDeprecatedDirective,
   GraphQLSpecifiedByDirective,
+  /** Incremental delivery Directives, not part of the specified Directives */
+  GraphQLDeferDirective,
+  GraphQLStreamDirective,
+  /** Error propagation Directive, not part of the specified Directives */
+  GraphQLDisableErrorPropagationDirective,
+  /** Timeout Directive, not part of the specified Directives */
+  GraphQLTimeoutDirective,
+  /** Live query Directive, not part of the specified Directives */
+  GraphQLLiveDirective,
+  /** Auth Directive, not part of the specified Directives */
+  GraphQLAuthDirective,
+  /** Cache control Directive, not part of the specified Directives */
+  GraphQLCacheControlDirective,
+  GraphQLCacheControlScope,
   /** "Enum" of Type Kinds */
   TypeKind,
   /** Constant Deprecation Reason */
@@ -150,6 +179,8 @@ export type {
   ThunkObjMap,
   GraphQLSchemaConfig,
   GraphQLSchemaExtensions,
+  GraphQLAuthPolicy,
+  GraphQLResolveTypeStrategy,
   GraphQLDirectiveConfig,
   GraphQLDirectiveExtensions,
   GraphQLArgument,
@@ -168,6 +199,7 @@ export type {
   GraphQLFieldExtensions,
   GraphQLFieldMap,
   GraphQLFieldResolver,
+  GraphQLFieldFilter,
   GraphQLInputField,
   GraphQLInputFieldConfig,
   GraphQLInputFieldConfigMap,
@@ -310,19 +342,66 @@ export type {
 /** Execute GraphQL queries. */
 export {
   execute,
+  experimentalExecuteIncrementally,
   executeSync,
+  executeToJSONStream,
   defaultFieldResolver,
   defaultTypeResolver,
   responsePathAsArray,
   getDirectiveValues,
   subscribe,
   createSourceEventStream,
+  executeLiveQuery,
+  InvalidationStore,
+  InMemoryResponseCache,
+  TracingCollector,
+  executeBatch,
+  compileOperation,
+  BatchLoader,
+  BatchLoaderRegistry,
+  resolveTypeByTypename,
+  resolveTypeByConstructor,
+  resolveTypeByDiscriminator,
 } from './execution/index';
 
 export type {
   ExecutionArgs,
+  ExecutionHooks,
+  ExecutionResolveDoneHook,
+  ExecutionLimits,
   ExecutionResult,
   FormattedExecutionResult,
+  ExperimentalIncrementalExecutionResults,
+  InitialIncrementalExecutionResult,
+  SubsequentIncrementalExecutionResult,
+  IncrementalDeferResult,
+  IncrementalStreamResult,
+  IncrementalResult,
+  FormattedInitialIncrementalExecutionResult,
+  FormattedSubsequentIncrementalExecutionResult,
+  FormattedIncrementalDeferResult,
+  FormattedIncrementalStreamResult,
+  FormattedIncrementalResult,
+  Tracing,
+  TracingPhase,
+  TracingPhaseName,
+  ResolverTracing,
+  ExecutionBatchArgs,
+  ExecutionBatchOperation,
+  CompiledOperation,
+  CompiledOperationArgs,
+  BatchLoadFn,
+  BatchLoaderOptions,
+  LiveQueryArgs,
+  LiveQueryPatch,
+  LiveQueryPatchResult,
+  EventStreamOptions,
+  EventStreamBufferOverflow,
+  ResponseCache,
+  InMemoryResponseCacheOptions,
+  CachePolicy,
+  CacheScope,
+  ExecutionErrorCallback,
 } from './execution/index';
 
 export type { SubscriptionArgs } from './subscription/index';
@@ -381,6 +460,8 @@ export {
   GraphQLError,
   syntaxError,
   locatedError,
+  markErrorSafe,
+  isErrorSafe,
   printError,
   formatError,
 } from './error/index';
@@ -413,6 +494,8 @@ export {
   extendSchema,
   /** Sort a GraphQLSchema. */
   lexicographicSortSchema,
+  /** Mock the resolvers of a GraphQLSchema. */
+  addMocksToSchema,
   /** Print a GraphQLSchema to GraphQL Schema language. */
   printSchema,
   /** Print a GraphQLType to GraphQL Schema language. */
@@ -480,4 +563,6 @@ export type {
   BreakingChange,
   DangerousChange,
   TypedQueryDocumentNode,
+  MockFn,
+  SchemaMocks,
 } from './utilities/index';
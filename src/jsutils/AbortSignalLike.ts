@@ -0,0 +1,10 @@
+/**
+ * The subset of the `AbortSignal` interface relied upon during execution.
+ * The `AbortSignal` of an `AbortController` satisfies it.
+ */
+export interface AbortSignalLike {
+  readonly aborted: boolean;
+  readonly reason?: unknown;
+  addEventListener: (type: 'abort', listener: () => void) => void;
+  removeEventListener: (type: 'abort', listener: () => void) => void;
+}
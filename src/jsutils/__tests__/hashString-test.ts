@@ -0,0 +1,19 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { hashString } from '../hashString';
+
+describe('hashString', () => {
+  it('returns the same safe integer for the same string', () => {
+    const hash = hashString('{ hello }');
+
+    expect(Number.isSafeInteger(hash)).to.equal(true);
+    expect(hash).to.be.at.least(0);
+    expect(hashString('{ hello }')).to.equal(hash);
+  });
+
+  it('returns different hashes for different strings', () => {
+    expect(hashString('')).to.not.equal(hashString(' '));
+    expect(hashString('{ hello }')).to.not.equal(hashString('{ world }'));
+  });
+});
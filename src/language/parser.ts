@@ -3,6 +3,9 @@ import type { Maybe } from '../jsutils/Maybe';
 import type { GraphQLError } from '../error/GraphQLError';
 import { syntaxError } from '../error/syntaxError';
 
+import type { ParseDiagnosticsMessage } from '../diagnostics';
+import { getDiagnosticsChannels, shouldTrace, traceCall } from '../diagnostics';
+
 import type {
   Token,
   NameNode,
@@ -104,6 +107,14 @@ export function parse(
   source: string | Source,
   options?: ParseOptions,
 ): DocumentNode {
+  const channels = getDiagnosticsChannels()?.parse;
+  if (shouldTrace(channels)) {
+    const message: ParseDiagnosticsMessage = { source };
+    return traceCall(channels, message, () =>
+      new Parser(source, options).parseDocument(),
+    );
+  }
+
   const parser = new Parser(source, options);
   return parser.parseDocument();
 }
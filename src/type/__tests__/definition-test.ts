@@ -249,6 +249,7 @@ describe('Type System: Objects', () => {
         args: [],
         resolve: undefined,
         subscribe: undefined,
+        filter: undefined,
         deprecationReason: undefined,
         extensions: {},
         astNode: undefined,
@@ -286,6 +287,7 @@ describe('Type System: Objects', () => {
         ],
         resolve: undefined,
         subscribe: undefined,
+        filter: undefined,
         deprecationReason: undefined,
         extensions: {},
         astNode: undefined,
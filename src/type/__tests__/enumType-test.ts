@@ -198,6 +198,7 @@ describe('Type System: Enum Values', () => {
           message: 'Enum "Color" cannot represent value: "GREEN"',
           locations: [{ line: 1, column: 3 }],
           path: ['colorEnum'],
+          extensions: { code: 'INVALID_LEAF_VALUE' },
         },
       ],
     });
@@ -267,6 +268,11 @@ describe('Type System: Enum Values', () => {
           message:
             'Variable "$color" got invalid value 2; Enum "Color" cannot represent non-string value: 2.',
           locations: [{ line: 1, column: 8 }],
+          extensions: {
+            code: 'BAD_USER_INPUT',
+            variableName: 'color',
+            path: [],
+          },
         },
       ],
     });
@@ -394,6 +400,7 @@ describe('Type System: Enum Values', () => {
             'Enum "Complex" cannot represent value: { someRandomValue: 123 }',
           locations: [{ line: 6, column: 9 }],
           path: ['bad'],
+          extensions: { code: 'INVALID_LEAF_VALUE' },
         },
       ],
     });
@@ -13,6 +13,7 @@ import { isObjectLike } from '../jsutils/isObjectLike';
 import { identityFunc } from '../jsutils/identityFunc';
 import { suggestionList } from '../jsutils/suggestionList';
 import type { Maybe } from '../jsutils/Maybe';
+import type { AbortSignalLike } from '../jsutils/AbortSignalLike';
 
 import { GraphQLError } from '../error/GraphQLError';
 
@@ -42,6 +43,8 @@ import type {
 
 import { valueFromASTUntyped } from '../utilities/valueFromASTUntyped';
 
+import type { BatchLoaderRegistry } from '../execution/BatchLoader';
+
 import type { GraphQLSchema } from './schema';
 import { assertName, assertEnumValueName } from './assertName';
 
@@ -867,6 +870,7 @@ function defineFieldMap<TSource, TContext>(
       args: defineArguments(argsConfig),
       resolve: fieldConfig.resolve,
       subscribe: fieldConfig.subscribe,
+      filter: fieldConfig.filter,
       deprecationReason: fieldConfig.deprecationReason,
       extensions: toObjMap(fieldConfig.extensions),
       astNode: fieldConfig.astNode,
@@ -901,6 +905,7 @@ function fieldsToFieldsConfig<TSource, TContext>(
     args: argsToArgsConfig(field.args),
     resolve: field.resolve,
     subscribe: field.subscribe,
+    filter: field.filter,
     deprecationReason: field.deprecationReason,
     extensions: field.extensions,
     astNode: field.astNode,
@@ -971,6 +976,13 @@ export type GraphQLFieldResolver<
   info: GraphQLResolveInfo,
 ) => TResult;
 
+export type GraphQLFieldFilter<TContext, TArgs = any> = (
+  payload: unknown,
+  args: TArgs,
+  context: TContext,
+  info: GraphQLResolveInfo,
+) => PromiseOrValue<boolean>;
+
 export interface GraphQLResolveInfo {
   readonly fieldName: string;
   readonly fieldNodes: ReadonlyArray<FieldNode>;
@@ -982,6 +994,14 @@ export interface GraphQLResolveInfo {
   readonly rootValue: unknown;
   readonly operation: OperationDefinitionNode;
   readonly variableValues: { [variable: string]: unknown };
+  readonly abortSignal: Maybe<AbortSignalLike>;
+  readonly loaders: BatchLoaderRegistry;
+  readonly invalidationKeys: Maybe<Set<string>>;
+  /**
+   * Adds a value to the `extensions` of the response under the given key.
+   * Values added under the same key by several fields are merged.
+   */
+  readonly addExtension: (key: string, value: unknown) => void;
 }
 
 /**
@@ -1006,6 +1026,7 @@ export interface GraphQLFieldConfig<TSource, TContext, TArgs = any> {
   args?: GraphQLFieldConfigArgumentMap;
   resolve?: GraphQLFieldResolver<TSource, TContext, TArgs>;
   subscribe?: GraphQLFieldResolver<TSource, TContext, TArgs>;
+  filter?: GraphQLFieldFilter<TContext, TArgs>;
   deprecationReason?: Maybe<string>;
   extensions?: Maybe<
     Readonly<GraphQLFieldExtensions<TSource, TContext, TArgs>>
@@ -1048,6 +1069,7 @@ export interface GraphQLField<TSource, TContext, TArgs = any> {
   args: ReadonlyArray<GraphQLArgument>;
   resolve?: GraphQLFieldResolver<TSource, TContext, TArgs>;
   subscribe?: GraphQLFieldResolver<TSource, TContext, TArgs>;
+  filter?: GraphQLFieldFilter<TContext, TArgs>;
   deprecationReason: Maybe<string>;
   extensions: Readonly<GraphQLFieldExtensions<TSource, TContext, TArgs>>;
   astNode: Maybe<FieldDefinitionNode>;
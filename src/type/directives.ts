@@ -13,10 +13,12 @@ import type {
   GraphQLFieldConfigArgumentMap,
 } from './definition';
 import { assertName } from './assertName';
-import { GraphQLString, GraphQLBoolean } from './scalars';
+import { GraphQLString, GraphQLBoolean, GraphQLInt } from './scalars';
 import {
   defineArguments,
   argsToArgsConfig,
+  GraphQLEnumType,
+  GraphQLList,
   GraphQLNonNull,
 } from './definition';
 
@@ -165,6 +167,165 @@ export const GraphQLSkipDirective: GraphQLDirective = new GraphQLDirective({
   },
 });
 
+/**
+ * Used to conditionally defer fragments.
+ */
+export const GraphQLDeferDirective: GraphQLDirective = new GraphQLDirective({
+  name: 'defer',
+  description:
+    'Directs the executor to defer this fragment when the `if` argument is true or undefined.',
+  locations: [
+    DirectiveLocation.FRAGMENT_SPREAD,
+    DirectiveLocation.INLINE_FRAGMENT,
+  ],
+  args: {
+    if: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: 'Deferred when true or undefined.',
+      defaultValue: true,
+    },
+    label: {
+      type: GraphQLString,
+      description: 'Unique name',
+    },
+  },
+});
+
+/**
+ * Used to conditionally stream list fields.
+ */
+export const GraphQLStreamDirective: GraphQLDirective = new GraphQLDirective({
+  name: 'stream',
+  description:
+    'Directs the executor to stream plural fields when the `if` argument is true or undefined.',
+  locations: [DirectiveLocation.FIELD],
+  args: {
+    if: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: 'Stream when true or undefined.',
+      defaultValue: true,
+    },
+    label: {
+      type: GraphQLString,
+      description: 'Unique name',
+    },
+    initialCount: {
+      defaultValue: 0,
+      type: GraphQLInt,
+      description: 'Number of items to return immediately',
+    },
+  },
+});
+
+/**
+ * Used to keep the null of a failed non-null field at the position of the
+ * error, instead of propagating it to the nearest nullable parent.
+ */
+export const GraphQLDisableErrorPropagationDirective: GraphQLDirective =
+  new GraphQLDirective({
+    name: 'experimental_disableErrorPropagation',
+    description:
+      'Disables the propagation of errors to the nearest nullable parent field.',
+    locations: [
+      DirectiveLocation.QUERY,
+      DirectiveLocation.MUTATION,
+      DirectiveLocation.SUBSCRIPTION,
+    ],
+  });
+
+/**
+ * Used to limit the time the resolver of a field may take, in milliseconds.
+ */
+export const GraphQLTimeoutDirective: GraphQLDirective = new GraphQLDirective({
+  name: 'timeout',
+  description:
+    'Resolves the field to an error if its resolver does not complete in time.',
+  locations: [DirectiveLocation.FIELD_DEFINITION],
+  args: {
+    ms: {
+      type: new GraphQLNonNull(GraphQLInt),
+      description: 'Timeout in milliseconds.',
+    },
+  },
+});
+
+/**
+ * Used to restrict the access to the fields of a type, or to a single field,
+ * to the requests allowed by the auth policy of the schema.
+ */
+export const GraphQLAuthDirective: GraphQLDirective = new GraphQLDirective({
+  name: 'auth',
+  description:
+    'Resolves the field to an error unless the auth policy of the schema grants the required roles.',
+  locations: [
+    DirectiveLocation.OBJECT,
+    DirectiveLocation.INTERFACE,
+    DirectiveLocation.FIELD_DEFINITION,
+  ],
+  args: {
+    requires: {
+      type: new GraphQLList(new GraphQLNonNull(GraphQLString)),
+      description: 'Roles required to access the field.',
+    },
+  },
+});
+
+/**
+ * The scope of a cached response: `PUBLIC` responses may be shared by every
+ * user, while `PRIVATE` responses may only be returned to the same user.
+ */
+export const GraphQLCacheControlScope: GraphQLEnumType = new GraphQLEnumType({
+  name: 'CacheControlScope',
+  values: {
+    PUBLIC: {},
+    PRIVATE: {},
+  },
+});
+
+/**
+ * Used to set the maximum age and the scope of the cached responses which
+ * include a field, or any field returning a type.
+ */
+export const GraphQLCacheControlDirective: GraphQLDirective =
+  new GraphQLDirective({
+    name: 'cacheControl',
+    description:
+      'Limits the time for which responses including the field may be cached, and the users they may be returned to.',
+    locations: [
+      DirectiveLocation.OBJECT,
+      DirectiveLocation.INTERFACE,
+      DirectiveLocation.UNION,
+      DirectiveLocation.FIELD_DEFINITION,
+    ],
+    args: {
+      maxAge: {
+        type: GraphQLInt,
+        description: 'Maximum age in seconds.',
+      },
+      scope: {
+        type: GraphQLCacheControlScope,
+        description: 'Scope of the cached responses.',
+      },
+    },
+  });
+
+/**
+ * Used to execute a query again whenever the data it depends on changes.
+ */
+export const GraphQLLiveDirective: GraphQLDirective = new GraphQLDirective({
+  name: 'live',
+  description:
+    'Directs the executor to keep the query result up to date when the `if` argument is true or undefined.',
+  locations: [DirectiveLocation.QUERY],
+  args: {
+    if: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: 'Live when true or undefined.',
+      defaultValue: true,
+    },
+  },
+});
+
 /**
  * Constant string used for default reason for a deprecation.
  */
@@ -211,6 +372,9 @@ export const GraphQLSpecifiedByDirective: GraphQLDirective =
 
 /**
  * The full list of specified directives.
+ *
+ * The other directives of this module are not included: a schema opts into
+ * the behavior of each of them by listing it in its `directives` config.
  */
 export const specifiedDirectives: ReadonlyArray<GraphQLDirective> =
   Object.freeze([
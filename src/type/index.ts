@@ -8,7 +8,12 @@ export {
   /** GraphQL Schema definition */
   GraphQLSchema,
 } from './schema';
-export type { GraphQLSchemaConfig, GraphQLSchemaExtensions } from './schema';
+export type {
+  GraphQLSchemaConfig,
+  GraphQLSchemaExtensions,
+  GraphQLAuthPolicy,
+  GraphQLResolveTypeStrategy,
+} from './schema';
 
 export {
   /** Predicates */
@@ -94,6 +99,7 @@ export type {
   GraphQLFieldExtensions,
   GraphQLFieldMap,
   GraphQLFieldResolver,
+  GraphQLFieldFilter,
   GraphQLInputField,
   GraphQLInputFieldConfig,
   GraphQLInputFieldConfigMap,
@@ -131,6 +137,20 @@ export {
   GraphQLSkipDirective,
   GraphQLDeprecatedDirective,
   GraphQLSpecifiedByDirective,
+  /** Incremental delivery Directives, not part of the specified Directives */
+  GraphQLDeferDirective,
+  GraphQLStreamDirective,
+  /** Error propagation Directive, not part of the specified Directives */
+  GraphQLDisableErrorPropagationDirective,
+  /** Timeout Directive, not part of the specified Directives */
+  GraphQLTimeoutDirective,
+  /** Live query Directive, not part of the specified Directives */
+  GraphQLLiveDirective,
+  /** Auth Directive, not part of the specified Directives */
+  GraphQLAuthDirective,
+  /** Cache control Directive, not part of the specified Directives */
+  GraphQLCacheControlDirective,
+  GraphQLCacheControlScope,
   /** Constant Deprecation Reason */
   DEFAULT_DEPRECATION_REASON,
 } from './directives';
@@ -20,6 +20,7 @@ import type {
   GraphQLAbstractType,
   GraphQLObjectType,
   GraphQLInterfaceType,
+  GraphQLResolveInfo,
 } from './definition';
 import type { GraphQLDirective } from './directives';
 import { __Schema } from './introspection';
@@ -132,6 +133,8 @@ export class GraphQLSchema {
   extensions: Readonly<GraphQLSchemaExtensions>;
   astNode: Maybe<SchemaDefinitionNode>;
   extensionASTNodes: ReadonlyArray<SchemaExtensionNode>;
+  authPolicy: Maybe<GraphQLAuthPolicy>;
+  resolveTypeStrategies: Maybe<ReadonlyArray<GraphQLResolveTypeStrategy>>;
 
   // Used as a cache for validateSchema().
   __validationErrors: Maybe<ReadonlyArray<GraphQLError>>;
@@ -163,11 +166,19 @@ export class GraphQLSchema {
       '"directives" must be Array if provided but got: ' +
         `${inspect(config.directives)}.`,
     );
+    devAssert(
+      !config.resolveTypeStrategies ||
+        Array.isArray(config.resolveTypeStrategies),
+      '"resolveTypeStrategies" must be Array if provided but got: ' +
+        `${inspect(config.resolveTypeStrategies)}.`,
+    );
 
     this.description = config.description;
     this.extensions = toObjMap(config.extensions);
     this.astNode = config.astNode;
     this.extensionASTNodes = config.extensionASTNodes ?? [];
+    this.authPolicy = config.authPolicy;
+    this.resolveTypeStrategies = config.resolveTypeStrategies;
 
     this._queryType = config.query;
     this._mutationType = config.mutation;
@@ -361,6 +372,8 @@ export class GraphQLSchema {
       extensions: this.extensions,
       astNode: this.astNode,
       extensionASTNodes: this.extensionASTNodes,
+      authPolicy: this.authPolicy,
+      resolveTypeStrategies: this.resolveTypeStrategies,
       assumeValid: this.__validationErrors !== undefined,
     };
   }
@@ -368,6 +381,25 @@ export class GraphQLSchema {
 
 type TypeMap = ObjMap<GraphQLNamedType>;
 
+/**
+ * Decides whether a field requiring the given roles, with the `auth`
+ * extension or the `@auth` directive, may be resolved for a request.
+ */
+export type GraphQLAuthPolicy<TContext = any> = (
+  context: TContext,
+  info: GraphQLResolveInfo,
+  requires: ReadonlyArray<string>,
+) => boolean;
+
+/**
+ * Resolves the name of the runtime Object type of a value of an abstract type,
+ * or returns undefined to leave the value to the next strategy.
+ */
+export type GraphQLResolveTypeStrategy = (
+  value: unknown,
+  abstractType: GraphQLAbstractType,
+) => Maybe<string>;
+
 export interface GraphQLSchemaValidationOptions {
   /**
    * When building a schema from a GraphQL service's introspection result, it
@@ -389,6 +421,25 @@ export interface GraphQLSchemaConfig extends GraphQLSchemaValidationOptions {
   extensions?: Maybe<Readonly<GraphQLSchemaExtensions>>;
   astNode?: Maybe<SchemaDefinitionNode>;
   extensionASTNodes?: Maybe<ReadonlyArray<SchemaExtensionNode>>;
+  /**
+   * Decides whether the fields requiring authorization may be resolved. It is
+   * called with the context value, the resolve info of the field and the
+   * roles the field requires, before the field is resolved.
+   *
+   * A denied field resolves to null like any field raising an error, with a
+   * `Not authorized to access "Type.field".` error whose `extensions.code` is
+   * `FORBIDDEN`. Without a policy, every field requiring authorization is
+   * denied.
+   */
+  authPolicy?: Maybe<GraphQLAuthPolicy>;
+  /**
+   * The strategies used by the default type resolver to resolve the runtime
+   * type of the values of abstract types without a `resolveType` function,
+   * tried in order before the `isTypeOf` functions of their possible types.
+   *
+   * Default: a single strategy reading the `__typename` field of the value.
+   */
+  resolveTypeStrategies?: Maybe<ReadonlyArray<GraphQLResolveTypeStrategy>>;
 }
 
 /**
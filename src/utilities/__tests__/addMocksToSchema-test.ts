@@ -0,0 +1,220 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+
+import { invariant } from '../../jsutils/invariant';
+import { isAsyncIterable } from '../../jsutils/isAsyncIterable';
+
+import { parse } from '../../language/parser';
+
+import type { GraphQLSchema } from '../../type/schema';
+
+import { executeSync } from '../../execution/execute';
+import { subscribe } from '../../execution/subscribe';
+
+import { addMocksToSchema } from '../addMocksToSchema';
+import { buildSchema } from '../buildASTSchema';
+import { printSchema } from '../printSchema';
+
+const schema = buildSchema(`
+  type Query {
+    user(id: ID!): User
+    users: [User!]!
+    search: [SearchResult]
+    node: Node
+    version: String
+  }
+
+  type Subscription {
+    userAdded: User
+  }
+
+  interface Node {
+    id: ID!
+  }
+
+  type User implements Node {
+    id: ID!
+    name: String
+    age: Int
+    score: Float
+    active: Boolean
+    role: Role
+    tags: [String]
+  }
+
+  type Post implements Node {
+    id: ID!
+    title: String
+  }
+
+  union SearchResult = User | Post
+
+  enum Role {
+    ADMIN
+    USER
+  }
+`);
+
+function executeQuery(mockedSchema: GraphQLSchema, query: string) {
+  return executeSync({ schema: mockedSchema, document: parse(query) });
+}
+
+describe('addMocksToSchema', () => {
+  it('returns a copy of the schema', () => {
+    const mockedSchema = addMocksToSchema(schema);
+
+    expect(mockedSchema).to.not.equal(schema);
+    expect(printSchema(mockedSchema)).to.equal(printSchema(schema));
+    expect(mockedSchema.getQueryType()?.getFields().user.resolve).to.not.equal(
+      undefined,
+    );
+    expect(schema.getQueryType()?.getFields().user.resolve).to.equal(undefined);
+  });
+
+  it('resolves fields to values of their types', () => {
+    const result = executeQuery(
+      addMocksToSchema(schema),
+      '{ user(id: "1") { id name age score active role tags } }',
+    );
+
+    expect(result.errors).to.equal(undefined);
+    const user = result.data?.user as { [field: string]: unknown };
+    expect(user.id).to.be.a('string');
+    expect(user.name).to.match(/^String \d+$/);
+    expect(user.age).to.satisfy(Number.isInteger);
+    expect(user.score).to.be.a('number');
+    expect(user.active).to.be.a('boolean');
+    expect(user.role).to.be.oneOf(['ADMIN', 'USER']);
+    expect(user.tags).to.have.lengthOf(2);
+  });
+
+  it('produces the same values for the same paths', () => {
+    const mockedSchema = addMocksToSchema(schema);
+    const query = '{ users { id name } user(id: "1") { id name } }';
+
+    const result = executeQuery(mockedSchema, query);
+    expect(result).to.deep.equal(executeQuery(mockedSchema, query));
+    expect(executeQuery(addMocksToSchema(schema), query)).to.deep.equal(result);
+
+    const users = result.data?.users as Array<unknown>;
+    expect(users).to.have.lengthOf(2);
+    expect(users[0]).to.not.deep.equal(users[1]);
+  });
+
+  it('resolves abstract types to one of their possible types', () => {
+    const result = executeQuery(
+      addMocksToSchema(schema),
+      `{
+        search {
+          __typename
+          ... on User { name }
+          ... on Post { title }
+        }
+        node { __typename id }
+      }`,
+    );
+
+    expect(result.errors).to.equal(undefined);
+    const search = result.data?.search as Array<{ __typename: string }>;
+    expect(search).to.have.lengthOf(2);
+    for (const searchResult of search) {
+      expect(searchResult.__typename).to.be.oneOf(['User', 'Post']);
+    }
+    const node = result.data?.node as { __typename: string };
+    expect(node.__typename).to.be.oneOf(['User', 'Post']);
+  });
+
+  it('resolves abstract types without possible types to null', () => {
+    const result = executeQuery(
+      addMocksToSchema(
+        buildSchema(`
+          type Query {
+            node: Node
+          }
+
+          interface Node {
+            id: ID!
+          }
+        `),
+      ),
+      '{ node { id } }',
+    );
+
+    expect(result).to.deep.equal({ data: { node: null } });
+  });
+
+  it('uses the mocks of types and fields', () => {
+    const mockedSchema = addMocksToSchema(schema, {
+      String: () => 'Hello',
+      Int: () => 42,
+      User: () => ({ name: 'Alice', tags: ['a', 'b', 'c'] }),
+      'Query.user': (args) => ({ id: args.id }),
+      'Query.users': () => [{ name: 'Bob' }, {}, { name: null }],
+      'Query.search': () => [{ __typename: 'Post' }],
+      'User.age': (_args, context) => context,
+    });
+
+    const result = executeSync({
+      schema: mockedSchema,
+      document: parse(`{
+        user(id: "7") { id name age tags }
+        users { name }
+        search { ... on Post { title } }
+        version
+      }`),
+      contextValue: 30,
+    });
+
+    expect(result).to.deep.equal({
+      data: {
+        user: { id: '7', name: 'Alice', age: 30, tags: ['a', 'b', 'c'] },
+        users: [{ name: 'Bob' }, { name: 'Alice' }, { name: null }],
+        search: [{ title: 'Hello' }],
+        version: 'Hello',
+      },
+    });
+  });
+
+  it('allows mocks to resolve values from the parent object', () => {
+    const mockedSchema = addMocksToSchema(schema, {
+      'Query.user': () => ({
+        name: (
+          _args: unknown,
+          _context: unknown,
+          info: { fieldName: string },
+        ) => info.fieldName,
+        age: null,
+      }),
+    });
+
+    const result = executeQuery(mockedSchema, '{ user(id: "1") { name age } }');
+
+    expect(result).to.deep.equal({
+      data: { user: { name: 'name', age: null } },
+    });
+  });
+
+  it('subscribes to an endless stream of mocked events', async () => {
+    const mockedSchema = addMocksToSchema(schema);
+    const document = parse('subscription { userAdded { id name } }');
+
+    const subscription = await subscribe({ schema: mockedSchema, document });
+    invariant(isAsyncIterable(subscription));
+
+    const first = await subscription.next();
+    const second = await subscription.next();
+    expect(first.done).to.equal(false);
+    expect(second.done).to.equal(false);
+    expect(first.value).to.not.deep.equal(second.value);
+
+    const other = await subscribe({ schema: mockedSchema, document });
+    invariant(isAsyncIterable(other));
+    expect(await other.next()).to.deep.equal(first);
+
+    expect(await subscription.return()).to.deep.equal({
+      value: undefined,
+      done: true,
+    });
+    await other.return();
+  });
+});
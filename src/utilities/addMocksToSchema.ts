@@ -0,0 +1,330 @@
+import type { ObjMap } from '../jsutils/ObjMap';
+import type { Maybe } from '../jsutils/Maybe';
+import { hashString } from '../jsutils/hashString';
+import { isObjectLike } from '../jsutils/isObjectLike';
+import { keyValMap } from '../jsutils/keyValMap';
+import { mapValue } from '../jsutils/mapValue';
+import { pathToArray } from '../jsutils/Path';
+
+import type {
+  GraphQLCompositeType,
+  GraphQLFieldConfig,
+  GraphQLFieldConfigMap,
+  GraphQLNamedType,
+  GraphQLNullableType,
+  GraphQLOutputType,
+  GraphQLResolveInfo,
+  GraphQLType,
+} from '../type/definition';
+import {
+  GraphQLInterfaceType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLUnionType,
+  isAbstractType,
+  isEnumType,
+  isInterfaceType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isUnionType,
+} from '../type/definition';
+import { isIntrospectionType } from '../type/introspection';
+import { GraphQLSchema } from '../type/schema';
+
+/**
+ * Produces the value of a mocked type or field, called with the arguments,
+ * the context value and the resolve info of the field being resolved.
+ */
+export type MockFn = (
+  args: ObjMap<unknown>,
+  context: unknown,
+  info: GraphQLResolveInfo,
+) => unknown;
+
+/**
+ * The mocks overriding the generated values, keyed either by type name, such
+ * as `String` or `User`, or by field coordinate, such as `User.name`.
+ *
+ * Mocks of leaf types return the value of the field. Mocks of object types
+ * and of fields returning object types may return an object with the values
+ * of some of its fields, the other fields being mocked. Values of list fields
+ * may be provided as arrays.
+ */
+export interface SchemaMocks {
+  readonly [typeOrField: string]: MockFn;
+}
+
+const LIST_LENGTH = 2;
+
+// The index of the events produced by mocked subscription fields, used to
+// generate different values for every event.
+const mockEventIndexes = new WeakMap<object, number>();
+
+/**
+ * Returns a copy of the schema whose fields resolve to fake values, so that
+ * operations may be executed or subscribed to before the resolvers exist.
+ *
+ * Values are generated according to the type of the fields: lists contain
+ * two items, enums take one of their values and abstract types resolve to one
+ * of their possible types. Generated values are random, seeded by the path of
+ * the field, so that executing an operation again produces the same result.
+ *
+ * Mocked subscription fields produce an endless stream of events.
+ */
+export function addMocksToSchema(
+  schema: GraphQLSchema,
+  mocks: SchemaMocks = {},
+): GraphQLSchema {
+  const schemaConfig = schema.toConfig();
+  const typeMap = keyValMap(
+    schemaConfig.types,
+    (type) => type.name,
+    mockNamedType,
+  );
+
+  const subscriptionType = schemaConfig.subscription;
+  return new GraphQLSchema({
+    ...schemaConfig,
+    types: Object.values(typeMap),
+    query: replaceMaybeType(schemaConfig.query),
+    mutation: replaceMaybeType(schemaConfig.mutation),
+    subscription: replaceMaybeType(subscriptionType),
+  });
+
+  function replaceType(type: GraphQLOutputType): GraphQLOutputType;
+  function replaceType(type: GraphQLNullableType): GraphQLNullableType;
+  function replaceType(type: GraphQLType): GraphQLType;
+  function replaceType(type: GraphQLType): GraphQLType {
+    if (isListType(type)) {
+      return new GraphQLList(replaceType(type.ofType));
+    } else if (isNonNullType(type)) {
+      return new GraphQLNonNull(replaceType(type.ofType));
+    }
+    return replaceNamedType(type);
+  }
+
+  function replaceNamedType<T extends GraphQLNamedType>(type: T): T {
+    return typeMap[type.name] as T;
+  }
+
+  function replaceMaybeType<T extends GraphQLNamedType>(
+    maybeType: Maybe<T>,
+  ): Maybe<T> {
+    return maybeType && replaceNamedType(maybeType);
+  }
+
+  function mockFields(
+    typeName: string,
+    fieldsMap: GraphQLFieldConfigMap<unknown, unknown>,
+  ): GraphQLFieldConfigMap<unknown, unknown> {
+    return mapValue(
+      fieldsMap,
+      (field, fieldName): GraphQLFieldConfig<unknown, unknown> => {
+        const resolve = createMockResolver(`${typeName}.${fieldName}`);
+        if (typeName !== subscriptionType?.name) {
+          return { ...field, type: replaceType(field.type), resolve };
+        }
+        return {
+          ...field,
+          type: replaceType(field.type),
+          resolve,
+          subscribe: mockEventStream,
+        };
+      },
+    );
+  }
+
+  function createMockResolver(coordinate: string) {
+    return (
+      source: unknown,
+      args: ObjMap<unknown>,
+      context: unknown,
+      info: GraphQLResolveInfo,
+    ): unknown => {
+      let value;
+      if (isObjectLike(source) && info.fieldName in source) {
+        // Values provided by the mock of the parent object take precedence.
+        value = source[info.fieldName];
+        if (typeof value === 'function') {
+          value = value(args, context, info);
+        }
+      } else {
+        value = mocks[coordinate]?.(args, context, info);
+      }
+
+      const eventIndex = mockEventIndexes.get(info.rootValue as object) ?? 0;
+      const random = createRandom(
+        `${eventIndex}:${pathToArray(info.path).join('.')}`,
+      );
+      return mockValue(info.returnType, value, random, args, context, info);
+    };
+  }
+
+  function mockValue(
+    type: GraphQLOutputType,
+    value: unknown,
+    random: () => number,
+    args: ObjMap<unknown>,
+    context: unknown,
+    info: GraphQLResolveInfo,
+  ): unknown {
+    if (isNonNullType(type)) {
+      return mockValue(type.ofType, value, random, args, context, info);
+    }
+
+    if (value === null) {
+      return null;
+    }
+
+    if (isListType(type)) {
+      const items = Array.isArray(value)
+        ? value
+        : Array.from({ length: LIST_LENGTH });
+      return items.map((item) =>
+        mockValue(type.ofType, item, random, args, context, info),
+      );
+    }
+
+    if (isObjectType(type) || isAbstractType(type)) {
+      return mockObject(type, value, random, args, context, info);
+    }
+
+    if (value !== undefined) {
+      return value;
+    }
+
+    const typeMock = mocks[type.name];
+    if (typeMock) {
+      return typeMock(args, context, info);
+    }
+
+    if (isEnumType(type)) {
+      const values = type.getValues();
+      return values[Math.floor(random() * values.length)].value;
+    }
+
+    switch (type.name) {
+      case 'Int':
+        return Math.floor(random() * 100);
+      case 'Float':
+        return Math.floor(random() * 10000) / 100;
+      case 'Boolean':
+        return random() < 0.5;
+      case 'ID':
+        return Math.floor(random() * 2 ** 32).toString(36);
+      default:
+        return `${type.name} ${Math.floor(random() * 1000)}`;
+    }
+  }
+
+  function mockObject(
+    type: GraphQLCompositeType,
+    value: unknown,
+    random: () => number,
+    args: ObjMap<unknown>,
+    context: unknown,
+    info: GraphQLResolveInfo,
+  ): ObjMap<unknown> | null {
+    const fields = isObjectLike(value) ? value : {};
+
+    let objectType: GraphQLObjectType;
+    if (isObjectType(type)) {
+      objectType = type;
+    } else {
+      const possibleTypes = info.schema.getPossibleTypes(type);
+      // An abstract type without possible types has no value to mock.
+      if (possibleTypes.length === 0) {
+        return null;
+      }
+      const typeName = fields.__typename;
+      objectType =
+        possibleTypes.find((possibleType) => possibleType.name === typeName) ??
+        possibleTypes[Math.floor(random() * possibleTypes.length)];
+    }
+
+    const typeMock = mocks[objectType.name];
+    const typeFields = typeMock?.(args, context, info);
+    return {
+      ...(isObjectLike(typeFields) ? typeFields : {}),
+      ...fields,
+      __typename: objectType.name,
+    };
+  }
+
+  function mockNamedType(type: GraphQLNamedType): GraphQLNamedType {
+    if (isIntrospectionType(type)) {
+      return type;
+    }
+    if (isObjectType(type)) {
+      const config = type.toConfig();
+      return new GraphQLObjectType({
+        ...config,
+        interfaces: () => config.interfaces.map(replaceNamedType),
+        fields: () => mockFields(config.name, config.fields),
+        isTypeOf: undefined,
+      });
+    }
+    if (isInterfaceType(type)) {
+      const config = type.toConfig();
+      return new GraphQLInterfaceType({
+        ...config,
+        interfaces: () => config.interfaces.map(replaceNamedType),
+        fields: () => mockFields(config.name, config.fields),
+        resolveType: resolveMockType,
+      });
+    }
+    if (isUnionType(type)) {
+      const config = type.toConfig();
+      return new GraphQLUnionType({
+        ...config,
+        types: () => config.types.map(replaceNamedType),
+        resolveType: resolveMockType,
+      });
+    }
+    // Leaf and input types do not reference the mocked types.
+    return type;
+  }
+}
+
+function resolveMockType(value: unknown): string | undefined {
+  return isObjectLike(value) && typeof value.__typename === 'string'
+    ? value.__typename
+    : undefined;
+}
+
+function mockEventStream(): AsyncIterableIterator<object> {
+  let eventIndex = 0;
+  let isDone = false;
+  return {
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+    next() {
+      if (isDone) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      const event = {};
+      mockEventIndexes.set(event, eventIndex++);
+      return Promise.resolve({ value: event, done: false });
+    },
+    return() {
+      isDone = true;
+      return Promise.resolve({ value: undefined, done: true });
+    },
+  };
+}
+
+/**
+ * Returns a pseudo-random number generator seeded by a string.
+ */
+function createRandom(seed: string): () => number {
+  let state = hashString(seed) % 4294967296;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t ^= t + Math.imul(t ^ (t >>> 7), 61 | t);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -209,6 +209,8 @@ export function extendSchemaImpl(
     extensions: Object.create(null),
     astNode: schemaDef ?? schemaConfig.astNode,
     extensionASTNodes: schemaConfig.extensionASTNodes.concat(schemaExtensions),
+    authPolicy: schemaConfig.authPolicy,
+    resolveTypeStrategies: schemaConfig.resolveTypeStrategies,
     assumeValid: options?.assumeValid ?? false,
   };
 
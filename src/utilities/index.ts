@@ -51,6 +51,10 @@ export { extendSchema } from './extendSchema';
 /** Sort a GraphQLSchema. */
 export { lexicographicSortSchema } from './lexicographicSortSchema';
 
+/** Mock the resolvers of a GraphQLSchema. */
+export { addMocksToSchema } from './addMocksToSchema';
+export type { MockFn, SchemaMocks } from './addMocksToSchema';
+
 /** Print a GraphQLSchema to GraphQL Schema language. */
 export {
   printSchema,
@@ -3,6 +3,9 @@ import type { Maybe } from '../jsutils/Maybe';
 
 import { GraphQLError } from '../error/GraphQLError';
 
+import type { ValidateDiagnosticsMessage } from '../diagnostics';
+import { getDiagnosticsChannels, shouldTrace, traceCall } from '../diagnostics';
+
 import type { DocumentNode } from '../language/ast';
 import { visit, visitInParallel } from '../language/visitor';
 
@@ -43,6 +46,26 @@ export function validate(
 
   /** @deprecated will be removed in 17.0.0 */
   typeInfo: TypeInfo = new TypeInfo(schema),
+): ReadonlyArray<GraphQLError> {
+  const channels = getDiagnosticsChannels()?.validate;
+  if (shouldTrace(channels)) {
+    const message: ValidateDiagnosticsMessage = {
+      schema,
+      document: documentAST,
+    };
+    return traceCall(channels, message, () =>
+      validateDocument(schema, documentAST, rules, options, typeInfo),
+    );
+  }
+  return validateDocument(schema, documentAST, rules, options, typeInfo);
+}
+
+function validateDocument(
+  schema: GraphQLSchema,
+  documentAST: DocumentNode,
+  rules: ReadonlyArray<ValidationRule>,
+  options: { maxErrors?: number } | undefined,
+  typeInfo: TypeInfo,
 ): ReadonlyArray<GraphQLError> {
   const maxErrors = options?.maxErrors ?? 100;
 